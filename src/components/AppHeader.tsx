@@ -1,4 +1,5 @@
 import { Search, Bell, User, LogOut, Settings } from "lucide-react";
+import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -15,6 +16,7 @@ import { SidebarTrigger, useSidebar } from "@/components/ui/sidebar";
 export function AppHeader() {
   const { user, logout } = useAuth();
   const { state } = useSidebar();
+  const navigate = useNavigate();
   const isCollapsed = state === "collapsed";
 
   return (
@@ -79,7 +81,10 @@ export function AppHeader() {
               </DropdownMenuItem>
 
               {user?.role === "Backoffice" && (
-                <DropdownMenuItem className="cursor-pointer">
+                <DropdownMenuItem
+                  className="cursor-pointer"
+                  onClick={() => navigate("/settings")}
+                >
                   <Settings className="mr-2 h-4 w-4" />
                   Settings
                 </DropdownMenuItem>
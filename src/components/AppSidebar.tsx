@@ -11,6 +11,8 @@ import {
   Zap,
   ChevronDown,
   ChevronRight,
+  ScanLine,
+  ListOrdered,
 } from "lucide-react";
 import { NavLink, useLocation } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
@@ -48,6 +50,18 @@ const navigationItems: NavItem[] = [
     icon: Calendar,
     roles: ["Backoffice", "StationOperator"],
   },
+  {
+    title: "Waitlist",
+    url: "/waitlist",
+    icon: ListOrdered,
+    roles: ["Backoffice", "StationOperator"],
+  },
+  {
+    title: "Check-In",
+    url: "/check-in",
+    icon: ScanLine,
+    roles: ["StationOperator"],
+  },
   {
     title: "EV Owners",
     url: "/owners",
@@ -0,0 +1,172 @@
+import { useMemo } from "react";
+import { format } from "date-fns";
+import { Clock, Lightbulb, Loader2, MapPin } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useSettings } from "@/contexts/SettingsContext";
+import { useStationsForAssignment } from "@/services/queries";
+import { useStationBookings } from "@/hooks/useStationBookings";
+import { useStationSchedules } from "@/hooks/useStationSchedule";
+import { BookingPolicyContext } from "@/lib/bookingPolicy";
+import {
+  Suggestion,
+  SuggestionRequest,
+  getNearbyStations,
+  suggestAlternativeStations,
+  suggestAlternativeTimes,
+} from "@/lib/suggestions";
+
+// Nearest stations whose bookings and hours are loaded to look for space
+const MAX_CANDIDATE_STATIONS = 8;
+
+interface AlternativeSuggestionsProps {
+  request: SuggestionRequest;
+  owner?: BookingPolicyContext["owner"];
+  onApply: (suggestion: Suggestion) => void;
+}
+
+const formatWindow = ({ startAt, endAt }: Suggestion) =>
+  `${format(startAt, "EEE, MMM d")} · ${format(startAt, "HH:mm")} – ${format(
+    endAt,
+    "HH:mm"
+  )}`;
+
+/**
+ * Nearby stations free at the requested time and the closest free times at
+ * the requested station, for when the requested slot can't be booked.
+ */
+export function AlternativeSuggestions({
+  request,
+  owner,
+  onApply,
+}: AlternativeSuggestionsProps) {
+  const { rules } = useSettings();
+  const stationsQuery = useStationsForAssignment(true);
+  const stations = stationsQuery.data;
+
+  const stationIds = useMemo(
+    () => [
+      request.stationId,
+      ...getNearbyStations(request, stations ?? [])
+        .slice(0, MAX_CANDIDATE_STATIONS)
+        .map(({ station }) => station.id),
+    ],
+    [request, stations]
+  );
+  const { bookings, isLoading: bookingsLoading } = useStationBookings(stationIds);
+  const schedules = useStationSchedules(stationIds);
+
+  const station = stations?.find((item) => item.id === request.stationId);
+  const times = useMemo(
+    () =>
+      station
+        ? suggestAlternativeTimes(request, {
+            station,
+            schedule: schedules[station.id] ?? { schedules: [], exceptions: [] },
+            bookings,
+            rules,
+            owner,
+          })
+        : [],
+    [request, station, schedules, bookings, rules, owner]
+  );
+  const nearby = useMemo(
+    () =>
+      suggestAlternativeStations(request, {
+        stations: (stations ?? []).filter((item) => stationIds.includes(item.id)),
+        schedules,
+        bookings,
+        rules,
+        owner,
+      }),
+    [request, stations, stationIds, schedules, bookings, rules, owner]
+  );
+
+  if (stationsQuery.isLoading || bookingsLoading) {
+    return (
+      <div className="flex items-center text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        Finding alternatives...
+      </div>
+    );
+  }
+
+  if (times.length === 0 && nearby.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No free {request.slotType} slot nearby or at another time within the
+        booking window.
+      </p>
+    );
+  }
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <p className="flex items-center gap-2 text-sm font-medium">
+        <Lightbulb className="w-4 h-4 text-accent" />
+        Suggested alternatives
+      </p>
+
+      {times.length > 0 && (
+        <div className="space-y-2">
+          <p className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+            <Clock className="w-3 h-3" />
+            Other times at {station?.stationName ?? "this station"}
+          </p>
+          {times.map((suggestion) => (
+            <div
+              key={suggestion.startAt.toISOString()}
+              className="flex items-center justify-between gap-3 text-sm"
+            >
+              <span>
+                {formatWindow(suggestion)}{" "}
+                <span className="text-muted-foreground">({suggestion.slotId})</span>
+              </span>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => onApply(suggestion)}
+              >
+                Use
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {nearby.length > 0 && (
+        <div className="space-y-2">
+          <p className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+            <MapPin className="w-3 h-3" />
+            Nearby stations at the same time
+          </p>
+          {nearby.map((suggestion) => (
+            <div
+              key={suggestion.stationId}
+              className="flex items-center justify-between gap-3 text-sm"
+            >
+              <span>
+                {suggestion.stationName}{" "}
+                <span className="text-muted-foreground">
+                  (
+                  {suggestion.distanceKm !== null
+                    ? `${suggestion.distanceKm.toFixed(1)} km`
+                    : "distance unknown"}
+                  , {suggestion.slotId})
+                </span>
+              </span>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => onApply(suggestion)}
+              >
+                Use
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
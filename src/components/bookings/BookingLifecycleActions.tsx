@@ -0,0 +1,347 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import {
+  CheckCircle,
+  ChevronDown,
+  Flag,
+  Loader2,
+  LogIn,
+  LucideIcon,
+  UserX,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSettings } from "@/contexts/SettingsContext";
+import {
+  useApproveBooking,
+  useCheckInBooking,
+  useCompleteBooking,
+  useMarkNoShow,
+} from "@/services/queries";
+import { Booking } from "@/types/entities";
+import {
+  AvailableTransition,
+  BookingTransition,
+  getBookingTransitions,
+} from "@/lib/bookingLifecycle";
+import { ConfirmationDialog } from "./ConfirmationDialog";
+import { CancelBookingDialog } from "./CancelBookingDialog";
+
+const TRANSITION_ICONS: Record<BookingTransition, LucideIcon> = {
+  approve: CheckCircle,
+  cancel: XCircle,
+  checkIn: LogIn,
+  markNoShow: UserX,
+  complete: Flag,
+};
+
+const toInputValue = (value: string | Date) =>
+  format(new Date(value), "yyyy-MM-dd'T'HH:mm");
+
+interface SessionTimesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  booking: Booking;
+  mode: "checkIn" | "complete";
+  onDone: () => void;
+}
+
+// Records when charging actually started (check-in) or ran (completion)
+function SessionTimesDialog({
+  open,
+  onOpenChange,
+  booking,
+  mode,
+  onDone,
+}: SessionTimesDialogProps) {
+  const { toast } = useToast();
+  const checkInBooking = useCheckInBooking();
+  const completeBooking = useCompleteBooking();
+  const [startValue, setStartValue] = useState(() =>
+    toInputValue(mode === "checkIn" ? new Date() : booking.actualStartAt ?? booking.startAt)
+  );
+  const [endValue, setEndValue] = useState(() => toInputValue(new Date()));
+  const isSaving = checkInBooking.isPending || completeBooking.isPending;
+
+  const startAt = new Date(startValue);
+  const endAt = new Date(endValue);
+  const now = new Date();
+  const error =
+    isNaN(startAt.getTime()) || (mode === "complete" && isNaN(endAt.getTime()))
+      ? "Enter a valid date and time"
+      : startAt > now || (mode === "complete" && endAt > now)
+        ? "Times cannot be in the future"
+        : mode === "complete" && endAt <= startAt
+          ? "End time must be after start time"
+          : null;
+
+  const handleSave = async () => {
+    try {
+      if (mode === "checkIn") {
+        await checkInBooking.mutateAsync({
+          bookingId: booking.id,
+          actualStartTime: startAt.toISOString(),
+        });
+        toast({
+          title: "Checked In",
+          description: `Booking ${booking.id} is now in progress.`,
+        });
+      } else {
+        await completeBooking.mutateAsync({
+          bookingId: booking.id,
+          session: {
+            actualStartTime: startAt.toISOString(),
+            actualEndTime: endAt.toISOString(),
+          },
+        });
+        toast({
+          title: "Booking Completed",
+          description: `Booking ${booking.id} has been marked as completed.`,
+        });
+      }
+      onOpenChange(false);
+      onDone();
+    } catch (error) {
+      console.error(`Failed to ${mode === "checkIn" ? "check in" : "complete"} booking:`, error);
+      toast({
+        title: "Error",
+        description: "Failed to update booking status. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSaving && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>
+            {mode === "checkIn" ? "Check In" : "Complete Session"}
+          </DialogTitle>
+          <DialogDescription>
+            {mode === "checkIn"
+              ? "Record when the owner started charging."
+              : "Record when charging actually started and finished."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="session-start">Actual start</Label>
+            <Input
+              id="session-start"
+              type="datetime-local"
+              value={startValue}
+              onChange={(e) => setStartValue(e.target.value)}
+            />
+          </div>
+          {mode === "complete" && (
+            <div className="space-y-2">
+              <Label htmlFor="session-end">Actual end</Label>
+              <Input
+                id="session-end"
+                type="datetime-local"
+                value={endValue}
+                onChange={(e) => setEndValue(e.target.value)}
+              />
+            </div>
+          )}
+          {error && <div className="text-sm text-destructive">{error}</div>}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isSaving}
+          >
+            Back
+          </Button>
+          <Button
+            variant="accent"
+            onClick={handleSave}
+            disabled={!!error || isSaving}
+            className="gap-2"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+            {mode === "checkIn" ? "Check In" : "Complete"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface BookingLifecycleActionsProps {
+  booking: Booking;
+  layout: "buttons" | "menu";
+  onTransitioned?: () => void;
+}
+
+/**
+ * Status actions the current user may take on a booking, as a row of
+ * buttons or a compact menu. Blocked actions stay visible with the reason.
+ */
+export function BookingLifecycleActions({
+  booking,
+  layout,
+  onTransitioned,
+}: BookingLifecycleActionsProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { rules } = useSettings();
+  const approveBooking = useApproveBooking();
+  const markNoShow = useMarkNoShow();
+  const [active, setActive] = useState<BookingTransition | null>(null);
+
+  const transitions = getBookingTransitions(booking, user?.role, rules);
+  if (transitions.length === 0) return null;
+
+  const handleDone = () => {
+    setActive(null);
+    onTransitioned?.();
+  };
+
+  const handleConfirm = async () => {
+    const transition = active;
+    try {
+      if (transition === "approve") {
+        await approveBooking.mutateAsync(booking.id);
+        toast({
+          title: "Booking Approved",
+          description: `Booking ${booking.id} has been approved successfully.`,
+        });
+      } else {
+        await markNoShow.mutateAsync(booking.id);
+        toast({
+          title: "Marked as No-Show",
+          description: `Booking ${booking.id} has been marked as a no-show.`,
+        });
+      }
+      handleDone();
+    } catch (error) {
+      console.error(
+        `Failed to ${transition === "approve" ? "approve booking" : "mark booking as no-show"}:`,
+        error
+      );
+      toast({
+        title: "Error",
+        description: "Failed to update booking status. Please try again.",
+        variant: "destructive",
+      });
+      setActive(null);
+    }
+  };
+
+  const renderButton = ({ transition, label, blockedReason }: AvailableTransition) => {
+    const Icon = TRANSITION_ICONS[transition];
+    return (
+      <Button
+        key={transition}
+        variant={transition === "approve" ? "success" : "outline"}
+        size="sm"
+        onClick={() => setActive(transition)}
+        disabled={!!blockedReason}
+        title={blockedReason ?? undefined}
+        className={
+          transition === "cancel" || transition === "markNoShow"
+            ? "gap-2 text-destructive hover:text-destructive"
+            : "gap-2"
+        }
+      >
+        <Icon className="w-4 h-4" />
+        {label}
+      </Button>
+    );
+  };
+
+  return (
+    <>
+      {layout === "buttons" ? (
+        <div className="flex flex-wrap gap-2">{transitions.map(renderButton)}</div>
+      ) : (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="gap-1">
+              Status
+              <ChevronDown className="w-3 h-3" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-56">
+            {transitions.map(({ transition, label, blockedReason }) => {
+              const Icon = TRANSITION_ICONS[transition];
+              return (
+                <DropdownMenuItem
+                  key={transition}
+                  className="cursor-pointer items-start"
+                  disabled={!!blockedReason}
+                  onClick={() => setActive(transition)}
+                >
+                  <Icon className="mr-2 mt-0.5 h-4 w-4" />
+                  <div>
+                    <div>{label}</div>
+                    {blockedReason && (
+                      <div className="text-xs text-muted-foreground">
+                        {blockedReason}
+                      </div>
+                    )}
+                  </div>
+                </DropdownMenuItem>
+              );
+            })}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      {(active === "approve" || active === "markNoShow") && (
+        <ConfirmationDialog
+          open
+          onOpenChange={(open) => !open && setActive(null)}
+          title={active === "approve" ? "Approve Booking" : "Mark as No-Show"}
+          description={
+            active === "approve"
+              ? "Are you sure you want to approve this booking?"
+              : "The owner did not check in within the grace period. Mark this booking as a no-show? This action cannot be undone."
+          }
+          onConfirm={handleConfirm}
+          destructive={active === "markNoShow"}
+        />
+      )}
+
+      <CancelBookingDialog
+        open={active === "cancel"}
+        onOpenChange={(open) => !open && setActive(null)}
+        booking={booking}
+        onCancelled={handleDone}
+      />
+
+      {(active === "checkIn" || active === "complete") && (
+        <SessionTimesDialog
+          open
+          onOpenChange={(open) => !open && setActive(null)}
+          booking={booking}
+          mode={active}
+          onDone={handleDone}
+        />
+      )}
+    </>
+  );
+}
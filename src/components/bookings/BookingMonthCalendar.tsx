@@ -0,0 +1,91 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { DayContentProps } from "react-day-picker";
+import { format } from "date-fns";
+import { Calendar } from "@/components/ui/calendar";
+import { Booking } from "@/types/entities";
+import { cn } from "@/lib/utils";
+import {
+  BOOKING_STATUS_BADGE_CLASSES,
+  formatBookingStatus,
+} from "@/lib/bookingStatus";
+
+interface BookingMonthCalendarProps {
+  bookings: Booking[];
+  month: Date;
+  onMonthChange: (month: Date) => void;
+  onSelectDay: (day: Date) => void;
+}
+
+const STATUS_ORDER: Booking["status"][] = [
+  "PENDING",
+  "APPROVED",
+  "IN_PROGRESS",
+  "COMPLETED",
+  "NO_SHOW",
+  "CANCELLED",
+];
+
+/**
+ * Month grid with per-day booking counts by status. Picking a day opens
+ * it in the timeline.
+ */
+export function BookingMonthCalendar({
+  bookings,
+  month,
+  onMonthChange,
+  onSelectDay,
+}: BookingMonthCalendarProps) {
+  const countsByDay = new Map<string, Partial<Record<Booking["status"], number>>>();
+  bookings.forEach((booking) => {
+    const key = format(new Date(booking.startAt), "yyyy-MM-dd");
+    const counts = countsByDay.get(key) ?? {};
+    counts[booking.status] = (counts[booking.status] ?? 0) + 1;
+    countsByDay.set(key, counts);
+  });
+
+  const DayContent = ({ date }: DayContentProps) => {
+    const counts = countsByDay.get(format(date, "yyyy-MM-dd"));
+    return (
+      <div className="flex h-full w-full flex-col items-start gap-1 p-1">
+        <span className="text-sm">{date.getDate()}</span>
+        {counts &&
+          STATUS_ORDER.filter((status) => counts[status]).map((status) => (
+            <span
+              key={status}
+              className={cn(
+                "w-full rounded border px-1 text-[10px] leading-4 text-left truncate",
+                BOOKING_STATUS_BADGE_CLASSES[status]
+              )}
+            >
+              {counts[status]} {formatBookingStatus(status)}
+            </span>
+          ))}
+      </div>
+    );
+  };
+
+  return (
+    <Calendar
+      mode="single"
+      month={month}
+      onMonthChange={onMonthChange}
+      onDayClick={onSelectDay}
+      className="p-0"
+      classNames={{
+        months: "w-full",
+        month: "w-full space-y-4",
+        head_row: "flex w-full",
+        head_cell: "flex-1 text-muted-foreground font-normal text-sm",
+        row: "flex w-full",
+        cell: "flex-1 h-28 border p-0 relative",
+        day: "h-full w-full p-0 font-normal hover:bg-muted/50 rounded-none",
+        day_today: "bg-accent/5",
+      }}
+      components={{
+        IconLeft: () => <ChevronLeft className="h-4 w-4" />,
+        IconRight: () => <ChevronRight className="h-4 w-4" />,
+        DayContent,
+      }}
+    />
+  );
+}
@@ -0,0 +1,263 @@
+import { useEffect, useState } from "react";
+import {
+  addDays,
+  addHours,
+  addMinutes,
+  differenceInMinutes,
+  format,
+  startOfDay,
+  startOfWeek,
+} from "date-fns";
+import { Booking } from "@/types/entities";
+import { cn } from "@/lib/utils";
+import { BOOKING_STATUS_BAR_CLASSES } from "@/lib/bookingStatus";
+
+export type TimelineView = "day" | "week";
+export type TimelineGrouping = "station" | "slot";
+
+interface BookingTimelineProps {
+  bookings: Booking[];
+  view: TimelineView;
+  date: Date;
+  groupBy: TimelineGrouping;
+  granularityMinutes: number;
+  onViewBooking: (booking: Booking) => void;
+  canReschedule: (booking: Booking) => boolean;
+  onReschedule: (booking: Booking, startAt: Date, endAt: Date) => void;
+}
+
+interface TimelineRow {
+  key: string;
+  label: string;
+  lanes: Booking[][];
+}
+
+const PX_PER_MINUTE: Record<TimelineView, number> = {
+  day: 1.5,
+  week: 0.2,
+};
+const LANE_HEIGHT = 32;
+const LABEL_WIDTH = 192;
+
+const getTimelineRange = (view: TimelineView, date: Date) => {
+  const start = view === "day" ? startOfDay(date) : startOfWeek(date);
+  return { start, end: addDays(start, view === "day" ? 1 : 7) };
+};
+
+// Group bookings into rows, stacking overlapping bookings into separate lanes
+const buildRows = (bookings: Booking[], groupBy: TimelineGrouping): TimelineRow[] => {
+  const groups = new Map<string, { label: string; bookings: Booking[] }>();
+
+  bookings.forEach((booking) => {
+    const slotLabel = booking.chargingSlot?.slotId ?? "Unassigned";
+    const key =
+      groupBy === "station" ? booking.stationId : `${booking.stationId}:${slotLabel}`;
+    const label =
+      groupBy === "station"
+        ? booking.stationName || booking.stationId
+        : `${booking.stationName || booking.stationId} · ${slotLabel}`;
+    if (!groups.has(key)) groups.set(key, { label, bookings: [] });
+    groups.get(key).bookings.push(booking);
+  });
+
+  return [...groups.entries()]
+    .map(([key, group]) => {
+      const lanes: Booking[][] = [];
+      [...group.bookings]
+        .sort((a, b) => a.startAt.localeCompare(b.startAt))
+        .forEach((booking) => {
+          const lane = lanes.find(
+            (items) => new Date(items[items.length - 1].endAt) <= new Date(booking.startAt)
+          );
+          if (lane) lane.push(booking);
+          else lanes.push([booking]);
+        });
+      return { key, label: group.label, lanes };
+    })
+    .sort((a, b) => a.label.localeCompare(b.label));
+};
+
+/**
+ * Resource timeline of bookings for a day or week, one row per station or
+ * slot. Bars can be clicked to view a booking, or dragged sideways to
+ * propose a new time.
+ */
+export function BookingTimeline({
+  bookings,
+  view,
+  date,
+  groupBy,
+  granularityMinutes,
+  onViewBooking,
+  canReschedule,
+  onReschedule,
+}: BookingTimelineProps) {
+  const [drag, setDrag] = useState<{
+    booking: Booking;
+    originX: number;
+    offsetMinutes: number;
+  } | null>(null);
+
+  const { start: rangeStart, end: rangeEnd } = getTimelineRange(view, date);
+  const pxPerMinute = PX_PER_MINUTE[view];
+  const totalWidth = differenceInMinutes(rangeEnd, rangeStart) * pxPerMinute;
+  const now = new Date();
+
+  const visibleBookings = bookings.filter(
+    (booking) =>
+      new Date(booking.startAt) < rangeEnd && new Date(booking.endAt) > rangeStart
+  );
+  const rows = buildRows(visibleBookings, groupBy);
+
+  const ticks =
+    view === "day"
+      ? Array.from({ length: 24 }, (_, i) => ({
+          at: addHours(rangeStart, i),
+          label: format(addHours(rangeStart, i), "HH:mm"),
+        }))
+      : Array.from({ length: 7 }, (_, i) => ({
+          at: addDays(rangeStart, i),
+          label: format(addDays(rangeStart, i), "EEE d"),
+        }));
+
+  const getOffset = (at: Date) =>
+    Math.max(0, differenceInMinutes(at, rangeStart)) * pxPerMinute;
+
+  // Track the drag on the window so it continues outside the bar
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (event: MouseEvent) => {
+      const minutes = (event.clientX - drag.originX) / pxPerMinute;
+      const snapped = Math.round(minutes / granularityMinutes) * granularityMinutes;
+      if (snapped !== drag.offsetMinutes) {
+        setDrag({ ...drag, offsetMinutes: snapped });
+      }
+    };
+    const handleUp = () => {
+      const { booking, offsetMinutes } = drag;
+      setDrag(null);
+      if (offsetMinutes === 0) {
+        onViewBooking(booking);
+        return;
+      }
+      onReschedule(
+        booking,
+        addMinutes(new Date(booking.startAt), offsetMinutes),
+        addMinutes(new Date(booking.endAt), offsetMinutes)
+      );
+    };
+
+    window.addEventListener("mousemove", handleMove);
+    window.addEventListener("mouseup", handleUp);
+    return () => {
+      window.removeEventListener("mousemove", handleMove);
+      window.removeEventListener("mouseup", handleUp);
+    };
+  }, [drag, pxPerMinute, granularityMinutes, onReschedule, onViewBooking]);
+
+  if (rows.length === 0) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        No bookings in this {view}
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border overflow-x-auto select-none">
+      <div style={{ width: LABEL_WIDTH + totalWidth }}>
+        {/* Time axis */}
+        <div className="flex border-b bg-muted/30">
+          <div
+            className="flex-shrink-0 px-3 py-2 text-xs font-medium text-muted-foreground border-r"
+            style={{ width: LABEL_WIDTH }}
+          >
+            {groupBy === "station" ? "Station" : "Station · Slot"}
+          </div>
+          <div className="relative h-8" style={{ width: totalWidth }}>
+            {ticks.map((tick) => (
+              <div
+                key={tick.label}
+                className="absolute top-0 h-full border-l px-1 text-xs text-muted-foreground leading-8"
+                style={{ left: getOffset(tick.at) }}
+              >
+                {tick.label}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {rows.map((row) => (
+          <div key={row.key} className="flex border-b last:border-b-0">
+            <div
+              className="flex-shrink-0 px-3 py-2 text-sm font-medium truncate border-r"
+              style={{ width: LABEL_WIDTH }}
+              title={row.label}
+            >
+              {row.label}
+            </div>
+            <div
+              className="relative"
+              style={{ width: totalWidth, height: row.lanes.length * LANE_HEIGHT + 8 }}
+            >
+              {ticks.map((tick) => (
+                <div
+                  key={tick.label}
+                  className="absolute top-0 h-full border-l border-border/50"
+                  style={{ left: getOffset(tick.at) }}
+                />
+              ))}
+
+              {now >= rangeStart && now < rangeEnd && (
+                <div
+                  className="absolute top-0 h-full border-l-2 border-destructive z-10"
+                  style={{ left: getOffset(now) }}
+                />
+              )}
+
+              {row.lanes.map((lane, laneIndex) =>
+                lane.map((booking) => {
+                  const isDragging = drag?.booking.id === booking.id;
+                  const offset = isDragging ? drag.offsetMinutes : 0;
+                  const startAt = addMinutes(new Date(booking.startAt), offset);
+                  const endAt = addMinutes(new Date(booking.endAt), offset);
+                  const left = getOffset(startAt);
+                  const width = Math.max(getOffset(endAt) - left, 4);
+                  const draggable = canReschedule(booking);
+
+                  return (
+                    <div
+                      key={booking.id}
+                      title={`${booking.ownerName ?? booking.ownerNIC} • ${format(
+                        startAt,
+                        "MMM d HH:mm"
+                      )} - ${format(endAt, "HH:mm")}`}
+                      className={cn(
+                        "absolute h-6 rounded border-l-4 px-2 text-xs leading-6 truncate shadow-sm",
+                        BOOKING_STATUS_BAR_CLASSES[booking.status],
+                        draggable ? "cursor-grab" : "cursor-pointer",
+                        isDragging && "cursor-grabbing ring-2 ring-accent z-20"
+                      )}
+                      style={{ left, width, top: laneIndex * LANE_HEIGHT + 4 }}
+                      onMouseDown={(event) => {
+                        if (!draggable) return;
+                        event.preventDefault();
+                        setDrag({ booking, originX: event.clientX, offsetMinutes: 0 });
+                      }}
+                      onClick={() => {
+                        if (!draggable) onViewBooking(booking);
+                      }}
+                    >
+                      {booking.ownerName ?? booking.ownerNIC}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Booking } from "@/types/entities";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useApproveBooking,
+  useCancelBooking,
+  useDeleteBooking,
+} from "@/services/queries";
+import { CancellationReasonField } from "./CancelBookingDialog";
+
+export type BulkBookingAction = "approve" | "cancel" | "delete";
+
+interface BulkBookingActionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  action: BulkBookingAction;
+  bookings: Booking[];
+  onCompleted: (succeededIds: string[]) => void;
+}
+
+interface BulkResult {
+  booking: Booking;
+  error?: string;
+}
+
+const ACTION_DETAILS: Record<
+  BulkBookingAction,
+  { title: string; verb: string; done: string; destructive: boolean }
+> = {
+  approve: {
+    title: "Approve Bookings",
+    verb: "Approve",
+    done: "approved",
+    destructive: false,
+  },
+  cancel: {
+    title: "Cancel Bookings",
+    verb: "Cancel",
+    done: "cancelled",
+    destructive: true,
+  },
+  delete: {
+    title: "Delete Bookings",
+    verb: "Delete",
+    done: "deleted",
+    destructive: true,
+  },
+};
+
+/**
+ * Confirms and runs one action over several bookings, then lists how each
+ * booking fared so partial failures can be retried.
+ */
+export function BulkBookingActionDialog({
+  open,
+  onOpenChange,
+  action,
+  bookings,
+  onCompleted,
+}: BulkBookingActionDialogProps) {
+  const [reason, setReason] = useState("");
+  const [running, setRunning] = useState(false);
+  const [results, setResults] = useState<BulkResult[] | null>(null);
+  const { user } = useAuth();
+  const approveBooking = useApproveBooking();
+  const cancelBooking = useCancelBooking();
+  const deleteBooking = useDeleteBooking();
+
+  const details = ACTION_DETAILS[action];
+
+  useEffect(() => {
+    if (open) setResults(null);
+  }, [open]);
+
+  const runAction = (booking: Booking) => {
+    switch (action) {
+      case "approve":
+        return approveBooking.mutateAsync(booking.id);
+      case "cancel":
+        return cancelBooking.mutateAsync({
+          bookingId: booking.id,
+          cancellation: {
+            reason,
+            cancelledById: user?.id ?? user?.email ?? "",
+            cancelledByName: user?.fullName ?? "",
+          },
+        });
+      case "delete":
+        return deleteBooking.mutateAsync(booking.id);
+    }
+  };
+
+  const handleConfirm = async () => {
+    setRunning(true);
+    const settled = await Promise.allSettled(bookings.map(runAction));
+    const nextResults = settled.map((result, index) => {
+      if (result.status === "fulfilled") return { booking: bookings[index] };
+      console.error(`Failed to ${action} booking:`, result.reason);
+      return {
+        booking: bookings[index],
+        error:
+          result.reason instanceof Error
+            ? result.reason.message
+            : "Please try again later.",
+      };
+    });
+    setRunning(false);
+    setResults(nextResults);
+    onCompleted(nextResults.filter((r) => !r.error).map((r) => r.booking.id));
+  };
+
+  const failedCount = results?.filter((r) => r.error).length ?? 0;
+  const reasonMissing = action === "cancel" && !reason;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !running && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{details.title}</DialogTitle>
+          <DialogDescription>
+            {results
+              ? `${results.length - failedCount} of ${results.length} bookings ${details.done}.`
+              : `${details.verb} ${bookings.length} selected booking${
+                  bookings.length === 1 ? "" : "s"
+                }?${action === "approve" ? "" : " This action cannot be undone."}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!results && action === "cancel" && (
+          <CancellationReasonField
+            id="bulk-cancel-reason"
+            onChange={setReason}
+            disabled={running}
+          />
+        )}
+
+        {results && (
+          <div className="rounded-md border divide-y max-h-72 overflow-y-auto">
+            {results.map(({ booking, error }) => (
+              <div key={booking.id} className="flex items-start gap-3 p-3 text-sm">
+                {error ? (
+                  <XCircle className="w-4 h-4 mt-0.5 text-destructive flex-shrink-0" />
+                ) : (
+                  <CheckCircle2 className="w-4 h-4 mt-0.5 text-success flex-shrink-0" />
+                )}
+                <div className="min-w-0">
+                  <div className="font-medium truncate">
+                    {booking.ownerName ?? booking.ownerNIC} ·{" "}
+                    {booking.stationName || booking.stationId}
+                  </div>
+                  <div className="font-mono text-xs text-muted-foreground truncate">
+                    {booking.id}
+                  </div>
+                  {error && <div className="text-destructive">{error}</div>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter>
+          {results ? (
+            <Button onClick={() => onOpenChange(false)}>Close</Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={running}
+              >
+                Back
+              </Button>
+              <Button
+                variant={details.destructive ? "destructive" : "default"}
+                onClick={handleConfirm}
+                disabled={running || reasonMissing || bookings.length === 0}
+                className="gap-2"
+              >
+                {running && <Loader2 className="w-4 h-4 animate-spin" />}
+                {details.verb} {bookings.length}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,250 @@
+import { useEffect, useState } from "react";
+import { Loader2, XCircle } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSettings } from "@/contexts/SettingsContext";
+import { useBookings, useCancelBooking } from "@/services/queries";
+import { Booking } from "@/types/entities";
+import { transformBookingApiResponse } from "@/lib/bookings";
+import { getUpcomingSeriesBookings } from "@/lib/recurrence";
+
+const OTHER_REASON = "__other";
+
+interface CancellationReasonFieldProps {
+  id: string;
+  onChange: (reason: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Picks a cancellation reason from the configured list, or takes a typed one.
+ * Reports an empty string until a usable reason is given.
+ */
+export function CancellationReasonField({
+  id,
+  onChange,
+  disabled,
+}: CancellationReasonFieldProps) {
+  const { rules } = useSettings();
+  const [choice, setChoice] = useState("");
+  const [customReason, setCustomReason] = useState("");
+
+  useEffect(() => {
+    onChange(choice === OTHER_REASON ? customReason.trim() : choice);
+  }, [choice, customReason, onChange]);
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Cancellation reason *</Label>
+      <Select value={choice} onValueChange={setChoice} disabled={disabled}>
+        <SelectTrigger id={id}>
+          <SelectValue placeholder="Select a reason" />
+        </SelectTrigger>
+        <SelectContent>
+          {rules.cancellationReasons.map((reason) => (
+            <SelectItem key={reason} value={reason}>
+              {reason}
+            </SelectItem>
+          ))}
+          <SelectItem value={OTHER_REASON}>Other…</SelectItem>
+        </SelectContent>
+      </Select>
+      {choice === OTHER_REASON && (
+        <Textarea
+          value={customReason}
+          onChange={(e) => setCustomReason(e.target.value)}
+          placeholder="Describe why the booking is being cancelled"
+          disabled={disabled}
+        />
+      )}
+    </div>
+  );
+}
+
+interface CancelBookingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  booking: Booking | null;
+  onCancelled?: (booking: Booking) => void;
+}
+
+/**
+ * Cancels a booking, or every upcoming booking in its recurring series,
+ * after asking for a reason. Bookings are kept with status CANCELLED rather
+ * than deleted.
+ */
+export function CancelBookingDialog({
+  open,
+  onOpenChange,
+  booking,
+  onCancelled,
+}: CancelBookingDialogProps) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const { rules } = useSettings();
+  const cancelBooking = useCancelBooking();
+  const [reason, setReason] = useState("");
+  const [scope, setScope] = useState<"booking" | "series">("booking");
+  const [isCancellingSeries, setIsCancellingSeries] = useState(false);
+  const { data: stationBookings = [] } = useBookings(
+    booking?.stationId,
+    open && !!booking?.seriesId
+  );
+
+  useEffect(() => {
+    if (open) setScope("booking");
+  }, [open]);
+
+  if (!booking) return null;
+
+  const seriesBookings = getUpcomingSeriesBookings(
+    booking,
+    stationBookings.map(transformBookingApiResponse),
+    rules
+  );
+  const isCancelling = cancelBooking.isPending || isCancellingSeries;
+
+  const cancelOne = (target: Booking) =>
+    cancelBooking.mutateAsync({
+      bookingId: target.id,
+      cancellation: {
+        reason,
+        cancelledById: user?.id ?? user?.email ?? "",
+        cancelledByName: user?.fullName ?? "",
+      },
+    });
+
+  const handleCancelSeries = async () => {
+    setIsCancellingSeries(true);
+    const settled = await Promise.allSettled(seriesBookings.map(cancelOne));
+    setIsCancellingSeries(false);
+
+    const failed = settled.filter((result) => result.status === "rejected");
+    failed.forEach((result) =>
+      console.error("Failed to cancel booking in series:", (result as PromiseRejectedResult).reason)
+    );
+    toast({
+      title: failed.length === 0 ? "Series Cancelled" : "Error",
+      description: `Cancelled ${settled.length - failed.length} of ${
+        settled.length
+      } bookings in this series.${failed.length > 0 ? " Please try the rest again." : ""}`,
+      variant: failed.length > 0 ? "destructive" : undefined,
+    });
+    if (failed.length < settled.length) onCancelled?.(booking);
+    if (failed.length === 0) onOpenChange(false);
+  };
+
+  const handleConfirm = async () => {
+    if (scope === "series") {
+      await handleCancelSeries();
+      return;
+    }
+
+    try {
+      await cancelOne(booking);
+
+      toast({
+        title: "Booking Cancelled",
+        description: `Booking ${booking.id} has been cancelled.`,
+      });
+      onCancelled?.(booking);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Failed to cancel booking:", error);
+      toast({
+        title: "Error",
+        description: "Failed to cancel booking. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => !isCancelling && onOpenChange(next)}
+    >
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <XCircle className="w-5 h-5 text-destructive" />
+            Cancel Booking
+          </DialogTitle>
+          <DialogDescription>
+            The booking for {booking.ownerName ?? booking.ownerNIC} at{" "}
+            {booking.stationName || booking.stationId} will be marked as
+            cancelled. This action cannot be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        {seriesBookings.length > 1 && (
+          <RadioGroup
+            value={scope}
+            onValueChange={(value) => setScope(value as "booking" | "series")}
+            disabled={isCancelling}
+            className="space-y-1"
+          >
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="booking" id="cancel-scope-booking" />
+              <Label htmlFor="cancel-scope-booking" className="font-normal">
+                This booking only
+              </Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="series" id="cancel-scope-series" />
+              <Label htmlFor="cancel-scope-series" className="font-normal">
+                All {seriesBookings.length} upcoming bookings in this series
+              </Label>
+            </div>
+          </RadioGroup>
+        )}
+
+        {open && (
+          <CancellationReasonField
+            id="cancel-booking-reason"
+            onChange={setReason}
+            disabled={isCancelling}
+          />
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isCancelling}
+          >
+            Back
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleConfirm}
+            disabled={!reason || isCancelling}
+            className="gap-2"
+          >
+            {isCancelling && <Loader2 className="w-4 h-4 animate-spin" />}
+            {scope === "series" ? "Cancel Series" : "Cancel Booking"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
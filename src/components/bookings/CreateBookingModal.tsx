@@ -1,8 +1,8 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { format } from "date-fns";
+import { format, startOfDay } from "date-fns";
 import {
   CalendarIcon,
   Clock,
@@ -11,6 +11,7 @@ import {
   Search,
   Plus,
   Eye,
+  ListPlus,
 } from "lucide-react";
 import {
   Dialog,
@@ -49,14 +50,36 @@ import {
   Booking,
   EVOwner,
   EvOwnerDetailsResponse,
-  StationApiResponse,
   SlotAvailabilityResponse,
   BookingCreationResponse,
 } from "@/types/entities";
 import { ViewUserModal } from "./ViewUserModal";
+import { SlotAvailabilityPicker, SlotSelection } from "./SlotAvailabilityPicker";
+import { OccurrencePreview, RecurrenceFields } from "./RecurrenceFields";
+import { JoinWaitlistDialog, WaitlistRequest } from "./JoinWaitlistDialog";
+import { AlternativeSuggestions } from "./AlternativeSuggestions";
 import { CreateOwnerModal } from "@/components/owners/CreateOwnerModal";
 import { useToast } from "@/hooks/use-toast";
-import { evOwnerApi, stationApi, bookingApi } from "@/services/api";
+import { evOwnerApi, bookingApi } from "@/services/api";
+import {
+  useBookings,
+  useCreateBooking,
+  useStationsForAssignment,
+} from "@/services/queries";
+import { useSettings } from "@/contexts/SettingsContext";
+import { useStationSchedule } from "@/hooks/useStationSchedule";
+import { getTimeSlots } from "@/lib/settings";
+import { combineDateAndTime } from "@/lib/schedule";
+import { getStationSlots } from "@/lib/availability";
+import { isDateWithinBookingWindow, validateBooking } from "@/lib/bookingPolicy";
+import { Suggestion, SuggestionRequest } from "@/lib/suggestions";
+import {
+  RecurrenceRule,
+  checkOccurrences,
+  createSeriesId,
+  describeRecurrence,
+  expandRecurrence,
+} from "@/lib/recurrence";
 
 const formSchema = z.object({
   ownerNIC: z.string().min(1, "NIC is required"),
@@ -67,6 +90,9 @@ const formSchema = z.object({
   }),
   startTime: z.string().min(1, "Start time is required"),
   endTime: z.string().min(1, "End time is required"),
+}).refine((values) => values.endTime > values.startTime, {
+  message: "End time must be after start time",
+  path: ["endTime"],
 });
 
 interface CreateBookingModalProps {
@@ -141,11 +167,8 @@ const globalMockEVOwners = [...mockEVOwners];
 
 // Stations are fetched from API (getAllStationsForAssignment)
 
-const timeSlots = Array.from({ length: 48 }, (_, i) => {
-  const hour = Math.floor(i / 2);
-  const minute = i % 2 === 0 ? "00" : "30";
-  return `${hour.toString().padStart(2, "0")}:${minute}`;
-});
+const getSeriesAvailabilityKey = (slotId: string, startAt: Date) =>
+  `${slotId}@${startAt.toISOString()}`;
 
 export function CreateBookingModal({
   open,
@@ -153,21 +176,48 @@ export function CreateBookingModal({
   onCreateBooking,
 }: CreateBookingModalProps) {
   const [foundUser, setFoundUser] = useState<EVOwner | null>(null);
+  const [ownerId, setOwnerId] = useState<string>("");
   const [userNotFound, setUserNotFound] = useState(false);
   const [showViewUserModal, setShowViewUserModal] = useState(false);
   const [showCreateOwnerModal, setShowCreateOwnerModal] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
   const [notFoundMessage, setNotFoundMessage] = useState("");
-  const [stations, setStations] = useState<
-    Array<{ id: string; name: string; acSlots: number; dcSlots: number }>
-  >([]);
-  const [stationsLoading, setStationsLoading] = useState(false);
   const [slotAvailability, setSlotAvailability] =
     useState<SlotAvailabilityResponse | null>(null);
   const [isCheckingAvailability, setIsCheckingAvailability] = useState(false);
   const [selectedSlotId, setSelectedSlotId] = useState<string>("");
+  const [pickedSlotId, setPickedSlotId] = useState<string>("");
   const [isCreatingBooking, setIsCreatingBooking] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [showWaitlistDialog, setShowWaitlistDialog] = useState(false);
+  // Server availability answers for later occurrences, keyed by slot and start
+  const [seriesAvailability, setSeriesAvailability] = useState<
+    Record<string, string | null>
+  >({});
   const { toast } = useToast();
+  const { rules } = useSettings();
+  const timeSlots = getTimeSlots(rules.slotGranularityMinutes);
+  const createBooking = useCreateBooking();
+
+  // Stations for assignment, shared with the other pages through the cache
+  const stationsQuery = useStationsForAssignment(open);
+  const stationsLoading = stationsQuery.isLoading;
+  const stations = (stationsQuery.data ?? []).map((s) => {
+    const acSlots = Number(
+      s.acChargingSlots ?? (Array.isArray(s.acSlots) ? s.acSlots.length : 0)
+    );
+    const dcSlots = Number(
+      s.dcChargingSlots ?? (Array.isArray(s.dcSlots) ? s.dcSlots.length : 0)
+    );
+    return {
+      id: s.id,
+      name: s.stationName,
+      acSlots,
+      dcSlots,
+      slots: getStationSlots(s),
+      status: s.status,
+    };
+  });
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -178,49 +228,172 @@ export function CreateBookingModal({
     (station) => station.id === form.watch("stationId")
   );
   const selectedSlotType = form.watch("slotType");
+  const selectedDate = form.watch("date");
+  const watchedStartTime = form.watch("startTime");
+  const watchedEndTime = form.watch("endTime");
+  const { schedules, exceptions } = useStationSchedule(form.watch("stationId"));
+  const pickerSlots = (selectedStation?.slots ?? []).filter(
+    (slot) => !selectedSlotType || slot.slotType === selectedSlotType
+  );
+  const pickerSelection: SlotSelection | null =
+    pickedSlotId && watchedStartTime && watchedEndTime
+      ? {
+          slotId: pickedSlotId,
+          slotType: selectedSlotType,
+          startTime: watchedStartTime,
+          endTime: watchedEndTime,
+        }
+      : null;
 
-  // Fetch stations for assignment when modal opens
-  useEffect(() => {
-    if (!open) return;
-    const fetchStations = async () => {
-      try {
-        setStationsLoading(true);
-        const data: StationApiResponse[] =
-          await stationApi.getAllStationsForAssignment();
-        const mapped = (data || []).map((s) => ({
-          id: s.id,
-          name: s.stationName,
-          acSlots: Number(
-            s.acChargingSlots ??
-              (Array.isArray(s.acSlots) ? s.acSlots.length : 0)
-          ),
-          dcSlots: Number(
-            s.dcChargingSlots ??
-              (Array.isArray(s.dcSlots) ? s.dcSlots.length : 0)
-          ),
-        }));
-        setStations(mapped);
-      } catch (e: unknown) {
-        toast({
-          title: "Failed to load stations",
-          description: (e as Error)?.message || "Could not fetch stations list",
-          variant: "destructive",
-        });
-      } finally {
-        setStationsLoading(false);
+  // Check the form values against the booking policy, showing any
+  // violations inline on the offending fields
+  const validateAgainstPolicy = (values: z.infer<typeof formSchema>) => {
+    const violations = validateBooking(
+      {
+        startAt: combineDateAndTime(values.date, values.startTime),
+        endAt: combineDateAndTime(values.date, values.endTime),
+      },
+      {
+        rules,
+        owner: foundUser,
+        station: stations.find((station) => station.id === values.stationId),
+        schedules,
+        exceptions,
       }
-    };
-    fetchStations();
-  }, [open, toast]);
-
-  const getNextAvailableSlot = (
-    stationId: string,
-    slotType: "AC" | "DC"
-  ): number => {
-    const station = stations.find((s) => s.id === stationId);
-    const totalSlots =
-      slotType === "AC" ? station?.acSlots ?? 1 : station?.dcSlots ?? 1;
-    return Math.max(1, Math.floor(Math.random() * totalSlots) + 1);
+    );
+    violations.forEach((violation) =>
+      form.setError(violation.field, {
+        type: violation.code,
+        message: violation.message,
+      })
+    );
+    return violations.length === 0;
+  };
+
+  useEffect(() => {
+    if (!stationsQuery.error) return;
+    toast({
+      title: "Failed to load stations",
+      description:
+        (stationsQuery.error as Error)?.message || "Could not fetch stations list",
+      variant: "destructive",
+    });
+  }, [stationsQuery.error, toast]);
+
+  // The selected station's bookings mark booked cells in the picker
+  const watchedStationId = form.watch("stationId");
+  const { data: stationBookings = [] } = useBookings(
+    watchedStationId,
+    open && !!watchedStationId
+  );
+
+  // The bookings a recurring series would create, with anything that
+  // stops each one from being booked
+  const seriesSlotId = selectedSlotId || pickedSlotId;
+  const occurrences =
+    recurrence && selectedDate && watchedStartTime && watchedEndTime && seriesSlotId
+      ? checkOccurrences(
+          expandRecurrence(selectedDate, recurrence).map((day) => ({
+            startAt: combineDateAndTime(day, watchedStartTime),
+            endAt: combineDateAndTime(day, watchedEndTime),
+          })),
+          {
+            slotId: seriesSlotId,
+            bookings: stationBookings,
+            rules,
+            owner: foundUser,
+            station: selectedStation,
+            schedules,
+            exceptions,
+          }
+        ).map((occurrence) => {
+          const serverConflict =
+            seriesAvailability[getSeriesAvailabilityKey(seriesSlotId, occurrence.startAt)];
+          return serverConflict
+            ? { ...occurrence, conflicts: [...occurrence.conflicts, serverConflict] }
+            : occurrence;
+        })
+      : [];
+  // Enough is chosen to wait for capacity even when no slot can be picked
+  const waitlistRequest: WaitlistRequest | null =
+    foundUser &&
+    ownerId &&
+    selectedStation &&
+    selectedSlotType &&
+    selectedDate &&
+    watchedStartTime &&
+    watchedEndTime &&
+    watchedEndTime > watchedStartTime
+      ? {
+          evOwnerId: ownerId,
+          ownerName: `${foundUser.firstName} ${foundUser.lastName}`,
+          stationId: selectedStation.id,
+          stationName: selectedStation.name,
+          slotType: selectedSlotType,
+          startTime: combineDateAndTime(selectedDate, watchedStartTime).toISOString(),
+          endTime: combineDateAndTime(selectedDate, watchedEndTime).toISOString(),
+        }
+      : null;
+
+  const bookableOccurrences = occurrences.filter(
+    (occurrence) => occurrence.conflicts.length === 0
+  );
+
+  // What to find alternatives for once the server turns the request down
+  const isUnavailable = slotAvailability?.isAvailable === false;
+  const suggestionRequest: SuggestionRequest | null = useMemo(
+    () =>
+      isUnavailable &&
+      watchedStationId &&
+      selectedSlotType &&
+      selectedDate &&
+      watchedStartTime &&
+      watchedEndTime
+        ? {
+            stationId: watchedStationId,
+            slotType: selectedSlotType,
+            startAt: combineDateAndTime(selectedDate, watchedStartTime),
+            endAt: combineDateAndTime(selectedDate, watchedEndTime),
+          }
+        : null,
+    [
+      isUnavailable,
+      watchedStationId,
+      selectedSlotType,
+      selectedDate,
+      watchedStartTime,
+      watchedEndTime,
+    ]
+  );
+
+  useEffect(() => {
+    setPickedSlotId("");
+  }, [open]);
+
+  const handleSlotPicked = (selection: SlotSelection) => {
+    setPickedSlotId(selection.slotId);
+    setSlotAvailability(null);
+    setSelectedSlotId("");
+    form.setValue("slotType", selection.slotType, { shouldValidate: true });
+    form.setValue("startTime", selection.startTime, { shouldValidate: true });
+    form.setValue("endTime", selection.endTime, { shouldValidate: true });
+  };
+
+  // Fill the form with a suggested station or time; the slot still has to
+  // be checked again before booking
+  const handleSuggestionApplied = (suggestion: Suggestion) => {
+    form.setValue("stationId", suggestion.stationId, { shouldValidate: true });
+    form.setValue("date", startOfDay(suggestion.startAt), { shouldValidate: true });
+    form.setValue("startTime", format(suggestion.startAt, "HH:mm"), {
+      shouldValidate: true,
+    });
+    form.setValue("endTime", format(suggestion.endAt, "HH:mm"), {
+      shouldValidate: true,
+    });
+    setPickedSlotId(suggestion.slotId);
+    setSlotAvailability(null);
+    setSelectedSlotId("");
+    setSeriesAvailability({});
   };
 
   const handleFindUser = async () => {
@@ -264,6 +437,7 @@ export function CreateBookingModal({
       };
 
       setFoundUser(user);
+      setOwnerId(response.id);
       setUserNotFound(false);
 
       toast({
@@ -274,6 +448,7 @@ export function CreateBookingModal({
       console.error("Error finding user:", error);
 
       setFoundUser(null);
+      setOwnerId("");
       setUserNotFound(true);
 
       // Check if it's a 404 error (user not found)
@@ -321,18 +496,32 @@ export function CreateBookingModal({
     setShowCreateOwnerModal(true);
   };
 
-  const handleOwnerCreated = (newOwner: EVOwner) => {
+  const handleOwnerCreated = async (newOwner: EVOwner) => {
     setFoundUser(newOwner);
     setUserNotFound(false);
     setNotFoundMessage("");
     setShowCreateOwnerModal(false);
+
+    // The create endpoint doesn't return the owner's ID, so look it up
+    try {
+      const response: EvOwnerDetailsResponse =
+        await evOwnerApi.getEvOwnerByNIC(newOwner.nic);
+      setOwnerId(response.id);
+    } catch (error) {
+      console.error("Failed to load new owner details:", error);
+      toast({
+        title: "Error",
+        description: "Could not load the new owner's details. Please search for them again.",
+        variant: "destructive",
+      });
+    }
   };
 
   const handleCheckAvailability = async () => {
     const formValues = form.getValues();
 
     // Validate required fields
-    if (!foundUser) {
+    if (!foundUser || !ownerId) {
       toast({
         title: "Error",
         description: "Please find or create a user first",
@@ -357,10 +546,27 @@ export function CreateBookingModal({
       return;
     }
 
+    if (!pickedSlotId) {
+      toast({
+        title: "Error",
+        description: "Please drag across free cells on a slot to pick it",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    form.clearErrors();
+    if (!validateAgainstPolicy(formValues)) {
+      setSlotAvailability(null);
+      setSelectedSlotId("");
+      return;
+    }
+
     try {
       setIsCheckingAvailability(true);
       setSlotAvailability(null);
       setSelectedSlotId("");
+      setSeriesAvailability({});
 
       // Create start and end datetime strings
       const startDateTime = new Date(formValues.date);
@@ -371,13 +577,11 @@ export function CreateBookingModal({
       const [endHour, endMinute] = formValues.endTime.split(":");
       endDateTime.setHours(parseInt(endHour), parseInt(endMinute), 0, 0);
 
-      // For now, we'll use a placeholder evOwnerId and slotId
-      // In a real implementation, you'd get these from the API or form
       const availabilityData = {
-        evOwnerId: "507f1f77bcf86cd799439012", // This should come from the found user
+        evOwnerId: ownerId,
         stationId: formValues.stationId,
         slotType: formValues.slotType,
-        slotId: `${formValues.slotType}1`, // Placeholder slot ID
+        slotId: pickedSlotId,
         startTime: startDateTime.toISOString(),
         endTime: endDateTime.toISOString(),
         vehicleModel: foundUser.vehicleModel,
@@ -389,9 +593,46 @@ export function CreateBookingModal({
       setSlotAvailability(response);
 
       if (response.isAvailable) {
+        // Keep the picked slot unless the server offers a different set
+        if (
+          !response.availableSlotIds?.length ||
+          response.availableSlotIds.includes(pickedSlotId)
+        ) {
+          setSelectedSlotId(pickedSlotId);
+        }
+
+        // The first booking of a series is the one just checked; ask about
+        // the rest one at a time
+        let seriesConflicts = 0;
+        if (recurrence) {
+          const answers: Record<string, string | null> = {};
+          for (const occurrence of occurrences.slice(1)) {
+            const occurrenceResponse: SlotAvailabilityResponse =
+              await bookingApi.checkAvailability({
+                ...availabilityData,
+                startTime: occurrence.startAt.toISOString(),
+                endTime: occurrence.endAt.toISOString(),
+              });
+            const answer = !occurrenceResponse.isAvailable
+              ? occurrenceResponse.message || "This time is not available"
+              : occurrenceResponse.availableSlotIds?.length &&
+                  !occurrenceResponse.availableSlotIds.includes(pickedSlotId)
+                ? `${pickedSlotId} is not available`
+                : null;
+            answers[getSeriesAvailabilityKey(pickedSlotId, occurrence.startAt)] = answer;
+            if (answer) seriesConflicts++;
+          }
+          setSeriesAvailability(answers);
+        }
+
         toast({
           title: "Slots Available",
-          description: response.message,
+          description:
+            seriesConflicts > 0
+              ? `${response.message} ${seriesConflicts} repeat booking${
+                  seriesConflicts === 1 ? " is" : "s are"
+                } unavailable and will be skipped.`
+              : response.message,
         });
       } else {
         toast({
@@ -412,6 +653,98 @@ export function CreateBookingModal({
     }
   };
 
+  const resetAndClose = () => {
+    form.reset();
+    setFoundUser(null);
+    setOwnerId("");
+    setUserNotFound(false);
+    setNotFoundMessage("");
+    setSlotAvailability(null);
+    setSelectedSlotId("");
+    setPickedSlotId("");
+    setRecurrence(null);
+    setSeriesAvailability({});
+    onOpenChange(false);
+  };
+
+  // Create every bookable occurrence of the series under one series ID,
+  // skipping the ones the preview flagged
+  const createSeries = async (values: z.infer<typeof formSchema>) => {
+    if (bookableOccurrences.length === 0) {
+      toast({
+        title: "Error",
+        description: "None of the repeat bookings can be made. Adjust the time or repeat rule.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsCreatingBooking(true);
+      const seriesId = createSeriesId();
+      const settled = await Promise.allSettled(
+        bookableOccurrences.map((occurrence) =>
+          createBooking.mutateAsync({
+            evOwnerId: ownerId,
+            stationId: values.stationId,
+            slotType: values.slotType,
+            slotId: selectedSlotId,
+            startTime: occurrence.startAt.toISOString(),
+            endTime: occurrence.endAt.toISOString(),
+            vehicleModel: foundUser.vehicleModel,
+            licensePlate: foundUser.vehiclePlate,
+            seriesId,
+          })
+        )
+      );
+      const failed = settled.filter((result) => result.status === "rejected");
+      failed.forEach((result) =>
+        console.error("Failed to create booking in series:", (result as PromiseRejectedResult).reason)
+      );
+
+      const created = settled.length - failed.length;
+      if (created === 0) {
+        toast({
+          title: "Error",
+          description: "Failed to create the recurring bookings. Please try again.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const skipped = occurrences.length - created;
+      toast({
+        title: "Recurring Booking Created",
+        description: `Created ${created} of ${occurrences.length} bookings (${describeRecurrence(
+          recurrence
+        )}).${skipped > 0 ? ` ${skipped} could not be booked.` : ""}`,
+        variant: failed.length > 0 ? "destructive" : undefined,
+      });
+
+      const first = bookableOccurrences[0];
+      onCreateBooking({
+        ownerNIC: values.ownerNIC,
+        ownerId,
+        ownerName: `${foundUser.firstName} ${foundUser.lastName}`,
+        stationId: values.stationId,
+        stationName: selectedStation?.name,
+        chargingSlot: {
+          type: values.slotType,
+          slotNumber: parseInt(selectedSlotId.replace(/\D/g, "")),
+          slotId: selectedSlotId,
+        },
+        status: "APPROVED",
+        startAt: first.startAt.toISOString(),
+        endAt: first.endAt.toISOString(),
+        createdByUserId: "current-user",
+        seriesId,
+      });
+      resetAndClose();
+    } finally {
+      setIsCreatingBooking(false);
+    }
+  };
+
   const onSubmit = async (values: z.infer<typeof formSchema>) => {
     const selectedOwner = foundUser;
     const selectedStation = stations.find(
@@ -436,6 +769,15 @@ export function CreateBookingModal({
       return;
     }
 
+    if (!validateAgainstPolicy(values)) {
+      return;
+    }
+
+    if (recurrence) {
+      await createSeries(values);
+      return;
+    }
+
     try {
       setIsCreatingBooking(true);
 
@@ -449,7 +791,7 @@ export function CreateBookingModal({
 
       // Prepare booking data for API
       const bookingData = {
-        evOwnerId: "507f1f77bcf86cd799439012", // This should come from the found user
+        evOwnerId: ownerId,
         stationId: values.stationId,
         slotType: values.slotType,
         slotId: selectedSlotId,
@@ -460,7 +802,7 @@ export function CreateBookingModal({
       };
 
       // Call the API to create booking
-      const response: BookingCreationResponse = await bookingApi.createBooking(
+      const response: BookingCreationResponse = await createBooking.mutateAsync(
         bookingData
       );
 
@@ -473,12 +815,14 @@ export function CreateBookingModal({
       // Create local booking object for the parent component
     const newBooking: Omit<Booking, "id" | "createdAt" | "updatedAt"> = {
       ownerNIC: values.ownerNIC,
+      ownerId,
       ownerName: `${selectedOwner.firstName} ${selectedOwner.lastName}`,
       stationId: values.stationId,
       stationName: selectedStation?.name,
       chargingSlot: {
         type: values.slotType,
           slotNumber: parseInt(selectedSlotId.replace(/\D/g, "")), // Extract number from slot ID
+          slotId: selectedSlotId,
       },
         status: "APPROVED", // Based on the API response message
       startAt: startDateTime.toISOString(),
@@ -489,14 +833,7 @@ export function CreateBookingModal({
       // Call parent callback
     onCreateBooking(newBooking);
 
-      // Reset form and close modal
-    form.reset();
-    setFoundUser(null);
-    setUserNotFound(false);
-      setNotFoundMessage("");
-      setSlotAvailability(null);
-      setSelectedSlotId("");
-    onOpenChange(false);
+      resetAndClose();
     } catch (error: unknown) {
       console.error("Error creating booking:", error);
       toast({
@@ -621,8 +958,12 @@ export function CreateBookingModal({
                         Charging Station
                       </FormLabel>
                       <Select
-                        onValueChange={field.onChange}
-                        defaultValue={field.value}
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          // A slot picked at one station doesn't apply to another
+                          setPickedSlotId("");
+                        }}
+                        value={field.value}
                       >
                         <FormControl>
                           <SelectTrigger>
@@ -671,8 +1012,11 @@ export function CreateBookingModal({
                         Charging Slot Type
                       </FormLabel>
                       <Select
-                        onValueChange={field.onChange}
-                        defaultValue={field.value}
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          setPickedSlotId("");
+                        }}
+                        value={field.value}
                       >
                         <FormControl>
                           <SelectTrigger>
@@ -748,9 +1092,7 @@ export function CreateBookingModal({
                             selected={field.value}
                             onSelect={field.onChange}
                             disabled={(date) =>
-                              date < new Date() ||
-                              date >
-                                new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+                              !isDateWithinBookingWindow(date, rules)
                             }
                             initialFocus
                             className={cn("p-3 pointer-events-auto")}
@@ -772,7 +1114,7 @@ export function CreateBookingModal({
                         <FormLabel>Start Time</FormLabel>
                         <Select
                           onValueChange={field.onChange}
-                          defaultValue={field.value}
+                          value={field.value}
                         >
                           <FormControl>
                             <SelectTrigger>
@@ -800,7 +1142,7 @@ export function CreateBookingModal({
                         <FormLabel>End Time</FormLabel>
                         <Select
                           onValueChange={field.onChange}
-                          defaultValue={field.value}
+                          value={field.value}
                         >
                           <FormControl>
                             <SelectTrigger>
@@ -821,13 +1163,63 @@ export function CreateBookingModal({
                   />
                 </div>
 
+                {/* Slot Picker */}
+                {selectedStation && selectedDate && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">
+                      Drag across free cells on a slot to pick a time
+                    </p>
+                    <SlotAvailabilityPicker
+                      date={selectedDate}
+                      slots={pickerSlots}
+                      timeSlots={timeSlots}
+                      granularityMinutes={rules.slotGranularityMinutes}
+                      bookings={stationBookings}
+                      schedules={schedules}
+                      exceptions={exceptions}
+                      selection={pickerSelection}
+                      onSelect={handleSlotPicked}
+                    />
+                    {pickerSelection ? (
+                      <p className="text-sm text-muted-foreground">
+                        Selected {pickerSelection.slotId},{" "}
+                        {pickerSelection.startTime} - {pickerSelection.endTime}
+                      </p>
+                    ) : (
+                      waitlistRequest && (
+                        <p className="text-sm text-muted-foreground">
+                          Every {selectedSlotType} slot taken at this time?{" "}
+                          <Button
+                            type="button"
+                            variant="link"
+                            className="h-auto p-0"
+                            onClick={() => setShowWaitlistDialog(true)}
+                          >
+                            Add the owner to the waitlist
+                          </Button>
+                        </p>
+                      )
+                    )}
+                  </div>
+                )}
+
+                {/* Recurrence */}
+                <RecurrenceFields
+                  value={recurrence}
+                  onChange={setRecurrence}
+                  firstDate={selectedDate}
+                />
+                {recurrence && seriesSlotId && (
+                  <OccurrencePreview occurrences={occurrences} />
+                )}
+
                 {/* Check Slot Availability Button */}
                 <Button
                   type="button"
                   variant="outline"
                   className="w-full"
                   onClick={handleCheckAvailability}
-                  disabled={isCheckingAvailability}
+                  disabled={isCheckingAvailability || !pickedSlotId}
                 >
                   {isCheckingAvailability
                     ? "Checking..."
@@ -877,14 +1269,36 @@ export function CreateBookingModal({
                       </div>
                     ) : (
                       <div className="bg-destructive/10 border border-destructive/20 rounded-lg p-4">
-                        <p className="text-destructive font-medium text-sm">
-                          No Slots Available
-                        </p>
-                        <p className="text-sm text-muted-foreground">
-                          {slotAvailability.message}
-                        </p>
+                        <div className="flex items-center justify-between gap-3">
+                          <div>
+                            <p className="text-destructive font-medium text-sm">
+                              No Slots Available
+                            </p>
+                            <p className="text-sm text-muted-foreground">
+                              {slotAvailability.message}
+                            </p>
+                          </div>
+                          {waitlistRequest && (
+                            <Button
+                              type="button"
+                              variant="outline"
+                              onClick={() => setShowWaitlistDialog(true)}
+                              className="px-3"
+                            >
+                              <ListPlus className="w-4 h-4 mr-2" />
+                              Join Waitlist
+                            </Button>
+                          )}
+                        </div>
                       </div>
                     )}
+                    {suggestionRequest && (
+                      <AlternativeSuggestions
+                        request={suggestionRequest}
+                        owner={foundUser}
+                        onApply={handleSuggestionApplied}
+                      />
+                    )}
                   </div>
                 )}
 
@@ -924,6 +1338,13 @@ export function CreateBookingModal({
                           Slot Type:
                         </span>{" "}
                         {selectedSlotType} charging
+                        {selectedSlotId && ` (${selectedSlotId})`}
+                      </div>
+                    )}
+                    {recurrence && (
+                      <div className="text-sm">
+                        <span className="text-muted-foreground">Repeats:</span>{" "}
+                        {describeRecurrence(recurrence)}
                       </div>
                     )}
                   </div>
@@ -945,10 +1366,15 @@ export function CreateBookingModal({
                     !foundUser ||
                     !slotAvailability?.isAvailable ||
                     !selectedSlotId ||
+                    (!!recurrence && bookableOccurrences.length === 0) ||
                     isCreatingBooking
                   }
                 >
-                  {isCreatingBooking ? "Creating..." : "Create Booking"}
+                  {isCreatingBooking
+                    ? "Creating..."
+                    : recurrence
+                      ? `Create ${bookableOccurrences.length} Bookings`
+                      : "Create Booking"}
                 </Button>
               </DialogFooter>
             </form>
@@ -962,6 +1388,13 @@ export function CreateBookingModal({
         user={foundUser}
       />
 
+      <JoinWaitlistDialog
+        open={showWaitlistDialog}
+        onOpenChange={setShowWaitlistDialog}
+        request={waitlistRequest}
+        onAdded={resetAndClose}
+      />
+
       <CreateOwnerModal
         open={showCreateOwnerModal}
         onOpenChange={setShowCreateOwnerModal}
@@ -2,14 +2,14 @@ import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { format } from "date-fns";
+import { addDays, differenceInCalendarDays, format } from "date-fns";
 import {
   CalendarIcon,
   Clock,
   MapPin,
   User,
-  CheckCircle,
-  XCircle,
+  Search,
+  AlertTriangle,
 } from "lucide-react";
 import {
   Dialog,
@@ -44,22 +44,62 @@ import { Calendar } from "@/components/ui/calendar";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { cn } from "@/lib/utils";
-import { Booking } from "@/types/entities";
+import {
+  Booking,
+  EvOwnerDetailsResponse,
+  SlotAvailabilityResponse,
+} from "@/types/entities";
 import { ConfirmationDialog } from "./ConfirmationDialog";
-import { bookingApi } from "@/services/api";
+import { BookingLifecycleActions } from "./BookingLifecycleActions";
+import { SlotAvailabilityPicker, SlotSelection } from "./SlotAvailabilityPicker";
+import { OccurrencePreview } from "./RecurrenceFields";
+import { bookingApi, evOwnerApi } from "@/services/api";
+import {
+  useBookings,
+  useStationsForAssignment,
+  useUpdateBooking,
+} from "@/services/queries";
 import { useToast } from "@/hooks/use-toast";
+import { useSettings } from "@/contexts/SettingsContext";
+import { useStationSchedule } from "@/hooks/useStationSchedule";
+import { getTimeSlots } from "@/lib/settings";
+import { combineDateAndTime } from "@/lib/schedule";
+import { getStationSlots } from "@/lib/availability";
+import { isActiveBooking } from "@/lib/dashboard";
+import {
+  isBeforeModificationCutoff,
+  isDateWithinBookingWindow,
+  validateBooking,
+} from "@/lib/bookingPolicy";
+import {
+  BOOKING_STATUS_BADGE_CLASSES,
+  formatBookingStatus,
+} from "@/lib/bookingStatus";
+import { transformBookingApiResponse } from "@/lib/bookings";
+import {
+  CheckedOccurrence,
+  checkOccurrences,
+  getUpcomingSeriesBookings,
+} from "@/lib/recurrence";
 
 const formSchema = z.object({
   ownerNIC: z.string().min(1, "EV Owner NIC is required"),
   stationId: z.string().min(1, "Station is required"),
   slotType: z.enum(["AC", "DC"]),
+  slotId: z.string().min(1, "Pick a charging slot"),
   date: z.date({
     required_error: "Booking date is required",
   }),
   startTime: z.string().min(1, "Start time is required"),
   endTime: z.string().min(1, "End time is required"),
   notes: z.string().optional(),
+}).refine((values) => values.endTime > values.startTime, {
+  message: "End time must be after start time",
+  path: ["endTime"],
 });
 
 interface EditBookingModalProps {
@@ -67,36 +107,16 @@ interface EditBookingModalProps {
   onOpenChange: (open: boolean) => void;
   booking: Booking | null;
   onUpdateBooking: (booking: Booking) => void;
-  onDeleteBooking?: (bookingId: string) => void;
+  // New times proposed elsewhere (e.g. by dragging on the timeline)
+  proposedTimes?: { startAt: Date; endAt: Date } | null;
 }
 
-// Mock data
-const mockEVOwners = [
-  { nic: "123456789V", name: "John Doe" },
-  { nic: "987654321V", name: "Jane Smith" },
-  { nic: "456789123V", name: "Bob Wilson" },
-  { nic: "789123456V", name: "Alice Johnson" },
-];
-
-const mockStations = [
-  { id: "station-1", name: "Central Station", acSlots: 4, dcSlots: 2 },
-  { id: "station-2", name: "Mall Parking", acSlots: 6, dcSlots: 3 },
-  { id: "station-3", name: "Airport Terminal", acSlots: 8, dcSlots: 4 },
-  { id: "station-4", name: "City Plaza", acSlots: 5, dcSlots: 2 },
-];
-
-const timeSlots = Array.from({ length: 48 }, (_, i) => {
-  const hour = Math.floor(i / 2);
-  const minute = i % 2 === 0 ? "00" : "30";
-  return `${hour.toString().padStart(2, "0")}:${minute}`;
-});
-
 export function EditBookingModal({
   open,
   onOpenChange,
   booking,
   onUpdateBooking,
-  onDeleteBooking,
+  proposedTimes,
 }: EditBookingModalProps) {
   const [confirmDialog, setConfirmDialog] = useState<{
     open: boolean;
@@ -104,64 +124,336 @@ export function EditBookingModal({
     description: string;
     action: () => void;
   } | null>(null);
+  const [owner, setOwner] = useState<EvOwnerDetailsResponse | null>(null);
+  const [isSearchingOwner, setIsSearchingOwner] = useState(false);
+  const [conflict, setConflict] = useState<string | null>(null);
+  const [isCheckingAvailability, setIsCheckingAvailability] = useState(false);
+  const [scope, setScope] = useState<"booking" | "series">("booking");
+  const [seriesCheck, setSeriesCheck] = useState<CheckedOccurrence[] | null>(null);
   const { toast } = useToast();
+  const { rules } = useSettings();
+  const timeSlots = getTimeSlots(rules.slotGranularityMinutes);
+  const updateBooking = useUpdateBooking();
+  const stationsQuery = useStationsForAssignment(open);
+  const stations = stationsQuery.data ?? [];
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
   });
+  const watchedStationId = form.watch("stationId");
+  const { schedules, exceptions } = useStationSchedule(watchedStationId);
+  // The selected station's bookings mark booked cells in the picker
+  const { data: stationBookings = [] } = useBookings(
+    watchedStationId,
+    open && !!watchedStationId
+  );
+  // The booking's own station holds the rest of its series
+  const { data: seriesStationBookings = [] } = useBookings(
+    booking?.stationId,
+    open && !!booking?.seriesId
+  );
+  const seriesBookings = booking
+    ? getUpcomingSeriesBookings(
+        booking,
+        seriesStationBookings.map(transformBookingApiResponse),
+        rules
+      )
+    : [];
+  const selectedStation = stations.find((station) => station.id === watchedStationId);
+  const selectedSlotType = form.watch("slotType");
+  const selectedDate = form.watch("date");
+  const pickerSlots = (selectedStation ? getStationSlots(selectedStation) : []).filter(
+    (slot) => !selectedSlotType || slot.slotType === selectedSlotType
+  );
+  const pickerSelection: SlotSelection | null =
+    form.watch("slotId") && form.watch("startTime") && form.watch("endTime")
+      ? {
+          slotId: form.watch("slotId"),
+          slotType: selectedSlotType,
+          startTime: form.watch("startTime"),
+          endTime: form.watch("endTime"),
+        }
+      : null;
+
+  // Look up the owner's record so the update keeps their vehicle details
+  const findOwner = async (nic: string, showToast = true) => {
+    if (!nic) return;
+    try {
+      setIsSearchingOwner(true);
+      const response: EvOwnerDetailsResponse = await evOwnerApi.getEvOwnerByNIC(nic);
+      setOwner(response);
+      form.clearErrors("ownerNIC");
+      if (showToast) {
+        toast({
+          title: "Owner Found",
+          description: `Found ${response.fullName}`,
+        });
+      }
+    } catch (error) {
+      console.error("Failed to find EV owner:", error);
+      setOwner(null);
+      form.setError("ownerNIC", {
+        type: "OWNER_NOT_FOUND",
+        message: "No EV owner found with this NIC",
+      });
+    } finally {
+      setIsSearchingOwner(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!stationsQuery.error) return;
+    console.error("Failed to load stations:", stationsQuery.error);
+    toast({
+      title: "Error",
+      description: "Failed to load stations",
+      variant: "destructive",
+    });
+  }, [stationsQuery.error, toast]);
+
+  // Load the booking's owner when the modal opens
+  useEffect(() => {
+    if (!open || !booking) return;
+
+    setConflict(null);
+    setScope("booking");
+    setSeriesCheck(null);
+    findOwner(booking.ownerNIC, false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, booking]);
 
   // Initialize form when booking changes
   useEffect(() => {
     if (booking && open) {
-      const startDate = new Date(booking.startAt);
-      const endDate = new Date(booking.endAt);
+      const startDate = proposedTimes?.startAt ?? new Date(booking.startAt);
+      const endDate = proposedTimes?.endAt ?? new Date(booking.endAt);
 
       form.reset({
         ownerNIC: booking.ownerNIC,
         stationId: booking.stationId,
         slotType: booking.chargingSlot?.type || "AC",
+        slotId: booking.chargingSlot?.slotId || "",
         date: startDate,
         startTime: format(startDate, "HH:mm"),
         endTime: format(endDate, "HH:mm"),
         notes: booking.notes || "",
       });
     }
-  }, [booking, open, form]);
+  }, [booking, open, form, proposedTimes]);
 
   if (!booking) return null;
 
-  const canModifyBooking = () => {
-    const startTime = new Date(booking.startAt);
-    const now = new Date();
-    const hoursDiff = (startTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-    return hoursDiff >= 12;
+  const canModifyBooking = () =>
+    isBeforeModificationCutoff(booking.startAt, rules);
+
+  const handleSlotPicked = (selection: SlotSelection) => {
+    setConflict(null);
+    setSeriesCheck(null);
+    form.setValue("slotType", selection.slotType, { shouldValidate: true });
+    form.setValue("slotId", selection.slotId, { shouldValidate: true });
+    form.setValue("startTime", selection.startTime, { shouldValidate: true });
+    form.setValue("endTime", selection.endTime, { shouldValidate: true });
   };
 
-  const onSubmit = async (values: z.infer<typeof formSchema>) => {
-    const selectedOwner = mockEVOwners.find(
-      (owner) => owner.nic === values.ownerNIC
+  // Ask the server whether the new time and slot are free, ignoring the
+  // excluded booking's own reservation and any bookings in ignoredIds (the
+  // rest of a series being moved with it). Returns a conflict message, or
+  // null if free.
+  const checkForConflict = async (
+    bookingData: Parameters<typeof bookingApi.checkAvailability>[0],
+    ignoredIds: string[] = []
+  ) => {
+    const ignored = new Set([bookingData.excludeBookingId, ...ignoredIds]);
+    const overlapsSlot = (other: Booking) =>
+      isActiveBooking(other) &&
+      other.slotId === bookingData.slotId &&
+      new Date(other.startTime) < new Date(bookingData.endTime) &&
+      new Date(other.endTime) > new Date(bookingData.startTime);
+    const overlapping = stationBookings.find(
+      (other) => !ignored.has(other.id) && overlapsSlot(other)
     );
-    const selectedStation = mockStations.find(
-      (station) => station.id === values.stationId
+    if (overlapping) {
+      return `${bookingData.slotId} is already booked by ${overlapping.evOwnerName} from ${format(
+        new Date(overlapping.startTime),
+        "HH:mm"
+      )} to ${format(new Date(overlapping.endTime), "HH:mm")}`;
+    }
+
+    const response: SlotAvailabilityResponse =
+      await bookingApi.checkAvailability(bookingData);
+    // The server only knows to skip one booking; a refusal caused by another
+    // booking of the same series is not a real conflict, since it moves too
+    const blockedBySeries = stationBookings.some(
+      (other) =>
+        other.id !== bookingData.excludeBookingId &&
+        ignored.has(other.id) &&
+        overlapsSlot(other)
     );
+    if (blockedBySeries) return null;
+    if (!response.isAvailable) {
+      return response.message || "The selected time is no longer available";
+    }
+    if (
+      response.availableSlotIds?.length &&
+      !response.availableSlotIds.includes(bookingData.slotId)
+    ) {
+      return `${bookingData.slotId} is not available. Free slots: ${response.availableSlotIds.join(", ")}`;
+    }
+    return null;
+  };
 
-    const startDateTime = new Date(values.date);
-    const [startHour, startMinute] = values.startTime.split(":");
-    startDateTime.setHours(parseInt(startHour), parseInt(startMinute), 0, 0);
+  // Move every upcoming booking in the series by the same number of days and
+  // onto the new times, slot and station, checking each one before saving
+  const submitSeries = async (
+    values: z.infer<typeof formSchema>,
+    bookingData: Parameters<typeof bookingApi.updateBooking>[1],
+    updatedBooking: Booking
+  ) => {
+    const dayShift = differenceInCalendarDays(values.date, new Date(booking.startAt));
+    const checked = checkOccurrences(
+      seriesBookings.map((item) => {
+        const day = addDays(new Date(item.startAt), dayShift);
+        return {
+          bookingId: item.id,
+          originalStartAt: item.startAt,
+          startAt: combineDateAndTime(day, values.startTime),
+          endAt: combineDateAndTime(day, values.endTime),
+        };
+      }),
+      {
+        slotId: values.slotId,
+        bookings: stationBookings,
+        rules,
+        owner,
+        station: selectedStation,
+        schedules,
+        exceptions,
+      }
+    );
 
-    const endDateTime = new Date(values.date);
-    const [endHour, endMinute] = values.endTime.split(":");
-    endDateTime.setHours(parseInt(endHour), parseInt(endMinute), 0, 0);
+    const seriesIds = seriesBookings.map((item) => item.id);
+    try {
+      setIsCheckingAvailability(true);
+      for (const occurrence of checked) {
+        if (occurrence.conflicts.length > 0) continue;
+        const message = await checkForConflict(
+          {
+            ...bookingData,
+            startTime: occurrence.startAt.toISOString(),
+            endTime: occurrence.endAt.toISOString(),
+            excludeBookingId: occurrence.bookingId,
+          },
+          seriesIds
+        );
+        if (message) occurrence.conflicts.push(message);
+      }
+    } catch (error) {
+      console.error("Failed to check slot availability:", error);
+      toast({
+        title: "Error",
+        description: "Failed to check slot availability. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    } finally {
+      setIsCheckingAvailability(false);
+    }
+
+    setSeriesCheck(checked);
+    if (checked.some((occurrence) => occurrence.conflicts.length > 0)) return;
+
+    setConfirmDialog({
+      open: true,
+      title: "Update Series",
+      description: `Are you sure you want to update all ${checked.length} upcoming bookings in this series? The changes cannot be undone.`,
+      action: async () => {
+        const settled = await Promise.allSettled(
+          checked.map((occurrence) =>
+            updateBooking.mutateAsync({
+              bookingId: occurrence.bookingId,
+              booking: {
+                ...bookingData,
+                startTime: occurrence.startAt.toISOString(),
+                endTime: occurrence.endAt.toISOString(),
+              },
+            })
+          )
+        );
+        const failed = settled.filter((result) => result.status === "rejected");
+        failed.forEach((result) =>
+          console.error("Failed to update booking in series:", (result as PromiseRejectedResult).reason)
+        );
+        toast({
+          title: failed.length === 0 ? "Series Updated" : "Error",
+          description: `Updated ${settled.length - failed.length} of ${
+            settled.length
+          } bookings in this series.${failed.length > 0 ? " Please try the rest again." : ""}`,
+          variant: failed.length > 0 ? "destructive" : undefined,
+        });
+        setConfirmDialog(null);
+        if (failed.length === 0) {
+          onUpdateBooking(updatedBooking);
+          onOpenChange(false);
+        }
+      },
+    });
+  };
+
+  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+    if (!owner || owner.nic !== values.ownerNIC) {
+      form.setError("ownerNIC", {
+        type: "OWNER_NOT_FOUND",
+        message: "Find the EV owner before saving",
+      });
+      return;
+    }
+
+    const startDateTime = combineDateAndTime(values.date, values.startTime);
+    const endDateTime = combineDateAndTime(values.date, values.endTime);
+
+    const violations = validateBooking(
+      { startAt: startDateTime, endAt: endDateTime },
+      {
+        rules,
+        owner,
+        station: selectedStation,
+        schedules,
+        exceptions,
+        originalStartAt: booking.startAt,
+      }
+    );
+    if (violations.length > 0) {
+      violations.forEach((violation) =>
+        form.setError(violation.field, {
+          type: violation.code,
+          message: violation.message,
+        })
+      );
+      return;
+    }
+
+    const bookingData = {
+      evOwnerId: owner.id,
+      stationId: values.stationId,
+      slotType: values.slotType,
+      slotId: values.slotId,
+      startTime: startDateTime.toISOString(),
+      endTime: endDateTime.toISOString(),
+      vehicleModel: owner.vehicleModel,
+      licensePlate: owner.licensePlate,
+    };
 
     const updatedBooking: Booking = {
       ...booking,
       ownerNIC: values.ownerNIC,
-      ownerName: selectedOwner?.name,
+      ownerId: owner.id,
+      ownerName: owner.fullName,
       stationId: values.stationId,
-      stationName: selectedStation?.name,
+      stationName: selectedStation?.stationName ?? booking.stationName,
       chargingSlot: {
         type: values.slotType,
-        slotNumber: booking.chargingSlot?.slotNumber || 1,
+        slotNumber: parseInt(values.slotId.replace(/\D/g, "")) || 0,
+        slotId: values.slotId,
       },
       startAt: startDateTime.toISOString(),
       endAt: endDateTime.toISOString(),
@@ -169,6 +461,32 @@ export function EditBookingModal({
       updatedAt: new Date().toISOString(),
     };
 
+    if (scope === "series") {
+      await submitSeries(values, bookingData, updatedBooking);
+      return;
+    }
+
+    let conflictMessage: string | null = null;
+    try {
+      setIsCheckingAvailability(true);
+      conflictMessage = await checkForConflict({
+        ...bookingData,
+        excludeBookingId: booking.id,
+      });
+      setConflict(conflictMessage);
+    } catch (error) {
+      console.error("Failed to check slot availability:", error);
+      toast({
+        title: "Error",
+        description: "Failed to check slot availability. Please try again.",
+        variant: "destructive",
+      });
+      return;
+    } finally {
+      setIsCheckingAvailability(false);
+    }
+    if (conflictMessage) return;
+
     setConfirmDialog({
       open: true,
       title: "Update Booking",
@@ -176,20 +494,11 @@ export function EditBookingModal({
         "Are you sure you want to update this booking? The changes cannot be undone.",
       action: async () => {
         try {
-          // Prepare booking data for API
-          const bookingData = {
-            evOwnerId: "507f1f77bcf86cd799439012", // This should come from the actual EV owner data
-            stationId: values.stationId,
-            slotType: values.slotType,
-            slotId: booking.chargingSlot?.slotNumber?.toString() || "1",
-            startTime: startDateTime.toISOString(),
-            endTime: endDateTime.toISOString(),
-            vehicleModel: selectedOwner?.name, // This should be actual vehicle model
-            licensePlate: "N/A", // This should be actual license plate
-          };
-
           // Call the API to update booking
-          await bookingApi.updateBooking(booking.id, bookingData);
+          await updateBooking.mutateAsync({
+            bookingId: booking.id,
+            booking: bookingData,
+          });
 
           // Show success message
           toast({
@@ -197,7 +506,6 @@ export function EditBookingModal({
             description: `Booking ${booking.id} has been updated successfully.`,
           });
 
-          // Update local state
           onUpdateBooking(updatedBooking);
           onOpenChange(false);
         } catch (error) {
@@ -214,115 +522,6 @@ export function EditBookingModal({
     });
   };
 
-  const handleStatusChange = (
-    newStatus: Booking["status"],
-    reason?: string
-  ) => {
-    const updatedBooking: Booking = {
-      ...booking,
-      status: newStatus,
-      updatedAt: new Date().toISOString(),
-      ...(reason && { cancelReason: reason }),
-    };
-
-    const action = async () => {
-      try {
-        if (newStatus === "APPROVED") {
-          // Use API to approve booking
-          await bookingApi.approveBooking(booking.id);
-
-          toast({
-            title: "Booking Approved",
-            description: `Booking ${booking.id} has been approved successfully.`,
-          });
-        } else if (newStatus === "CANCELLED") {
-          // Use API to cancel booking (this deletes the booking from database)
-          await bookingApi.cancelBooking(booking.id);
-
-          toast({
-            title: "Booking Cancelled",
-            description: `Booking ${booking.id} has been cancelled and deleted successfully.`,
-          });
-
-          // Notify parent to remove booking from list
-          if (onDeleteBooking) {
-            onDeleteBooking(booking.id);
-          }
-
-          // Close modal since booking is deleted
-          onOpenChange(false);
-          return; // Don't update local state since booking is deleted
-        } else {
-          // For other status changes, show appropriate toast
-          const statusMessages = {
-            COMPLETED: "Booking marked as completed successfully.",
-            PENDING: "Booking status updated successfully.",
-          };
-
-          toast({
-            title: "Status Updated",
-            description:
-              statusMessages[newStatus] ||
-              "Booking status updated successfully.",
-          });
-        }
-
-        // Update local state
-        onUpdateBooking(updatedBooking);
-        onOpenChange(false);
-      } catch (error) {
-        console.error(`Failed to update booking status:`, error);
-        toast({
-          title: "Error",
-          description: `Failed to update booking status. Please try again.`,
-          variant: "destructive",
-        });
-      } finally {
-        setConfirmDialog(null);
-      }
-    };
-
-    if (newStatus === "COMPLETED") {
-      setConfirmDialog({
-        open: true,
-        title: "Mark as Completed",
-        description:
-          "Are you sure you want to mark this booking as completed? This action cannot be undone.",
-        action,
-      });
-    } else if (newStatus === "CANCELLED") {
-      setConfirmDialog({
-        open: true,
-        title: "Cancel Booking",
-        description:
-          "Are you sure you want to cancel this booking? This action cannot be undone.",
-        action,
-      });
-    } else if (newStatus === "APPROVED") {
-      setConfirmDialog({
-        open: true,
-        title: "Approve Booking",
-        description: "Are you sure you want to approve this booking?",
-        action,
-      });
-    }
-  };
-
-  const getStatusColor = (status: Booking["status"]) => {
-    switch (status) {
-      case "PENDING":
-        return "bg-warning/10 text-warning border-warning/20";
-      case "APPROVED":
-        return "bg-success/10 text-success border-success/20";
-      case "COMPLETED":
-        return "bg-accent/10 text-accent border-accent/20";
-      case "CANCELLED":
-        return "bg-muted text-muted-foreground border-muted/20";
-      default:
-        return "bg-muted text-muted-foreground border-muted/20";
-    }
-  };
-
   return (
     <>
       <Dialog open={open} onOpenChange={onOpenChange}>
@@ -344,9 +543,9 @@ export function EditBookingModal({
               </div>
               <Badge
                 variant="outline"
-                className={getStatusColor(booking.status)}
+                className={BOOKING_STATUS_BADGE_CLASSES[booking.status]}
               >
-                {booking.status.toLowerCase()}
+                {formatBookingStatus(booking.status)}
               </Badge>
             </div>
 
@@ -357,77 +556,39 @@ export function EditBookingModal({
                     This booking cannot be updated or cancelled
                   </div>
                   <div className="text-xs mt-1">
-                    Reservations can only be modified or cancelled at least 12
-                    hours before the booking start time.
+                    Reservations can only be modified or cancelled at least{" "}
+                    {rules.modificationCutoffHours} hours before the booking
+                    start time.
                   </div>
                 </div>
               </div>
             )}
 
             {/* Status Actions */}
-            {booking.status === "PENDING" && (
-              <div className="space-y-3">
-                <h4 className="font-medium">Status Actions</h4>
-                <div className="flex gap-2">
-                  <Button
-                    variant="success"
-                    size="sm"
-                    onClick={() => handleStatusChange("APPROVED")}
-                    className="gap-2"
-                  >
-                    <CheckCircle className="w-4 h-4" />
-                    Approve
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() =>
-                      handleStatusChange("CANCELLED", "Cancelled by admin")
-                    }
-                    className="gap-2 text-destructive hover:text-destructive"
-                    disabled={!canModifyBooking()}
-                  >
-                    <XCircle className="w-4 h-4" />
-                    Cancel
-                  </Button>
-                </div>
-              </div>
-            )}
-
-            {booking.status === "APPROVED" && (
-              <div className="space-y-3">
-                <h4 className="font-medium">Status Actions</h4>
-                <div className="flex gap-2">
-                  <Button
-                    variant="accent"
-                    size="sm"
-                    onClick={() => handleStatusChange("COMPLETED")}
-                    className="gap-2"
-                  >
-                    <CheckCircle className="w-4 h-4" />
-                    Complete
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() =>
-                      handleStatusChange(
-                        "CANCELLED",
-                        "Cancelled after approval"
-                      )
-                    }
-                    className="gap-2 text-destructive hover:text-destructive"
-                    disabled={!canModifyBooking()}
-                  >
-                    <XCircle className="w-4 h-4" />
-                    Cancel
-                  </Button>
-                </div>
-              </div>
-            )}
+            <div className="space-y-3">
+              <h4 className="font-medium">Status Actions</h4>
+              <BookingLifecycleActions
+                booking={booking}
+                layout="buttons"
+                onTransitioned={() => onOpenChange(false)}
+              />
+            </div>
 
             <Separator />
 
+            {proposedTimes && canModifyBooking() && (
+              <Alert className="border-accent/20 bg-accent/5">
+                <Clock className="w-4 h-4" />
+                <AlertDescription>
+                  Proposed reschedule from{" "}
+                  {format(new Date(booking.startAt), "MMM d, HH:mm")} to{" "}
+                  {format(proposedTimes.startAt, "MMM d, HH:mm")} -{" "}
+                  {format(proposedTimes.endAt, "HH:mm")}. Review the details
+                  and save to apply it.
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Edit Form - only show if can modify */}
             {canModifyBooking() && (
               <Form {...form}>
@@ -436,7 +597,36 @@ export function EditBookingModal({
                   className="space-y-6"
                 >
                   <div className="grid gap-6">
-                    {/* EV Owner Selection */}
+                    {/* Series Scope */}
+                    {seriesBookings.length > 1 && (
+                      <div className="space-y-2">
+                        <Label>Apply changes to</Label>
+                        <RadioGroup
+                          value={scope}
+                          onValueChange={(value) => {
+                            setScope(value as "booking" | "series");
+                            setSeriesCheck(null);
+                          }}
+                          className="space-y-1"
+                        >
+                          <div className="flex items-center gap-2">
+                            <RadioGroupItem value="booking" id="edit-scope-booking" />
+                            <Label htmlFor="edit-scope-booking" className="font-normal">
+                              This booking only
+                            </Label>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <RadioGroupItem value="series" id="edit-scope-series" />
+                            <Label htmlFor="edit-scope-series" className="font-normal">
+                              All {seriesBookings.length} upcoming bookings in this
+                              series (date changes shift every booking)
+                            </Label>
+                          </div>
+                        </RadioGroup>
+                      </div>
+                    )}
+
+                    {/* EV Owner Lookup */}
                     <FormField
                       control={form.control}
                       name="ownerNIC"
@@ -444,32 +634,33 @@ export function EditBookingModal({
                         <FormItem>
                           <FormLabel className="flex items-center gap-2">
                             <User className="w-4 h-4" />
-                            EV Owner
+                            EV Owner NIC
                           </FormLabel>
-                          <Select
-                            onValueChange={field.onChange}
-                            value={field.value}
-                          >
+                          <div className="flex gap-2">
                             <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select EV owner" />
-                              </SelectTrigger>
+                              <Input
+                                placeholder="Enter NIC (e.g., 123456789V)"
+                                {...field}
+                              />
                             </FormControl>
-                            <SelectContent>
-                              {mockEVOwners.map((owner) => (
-                                <SelectItem key={owner.nic} value={owner.nic}>
-                                  <div className="flex flex-col items-start">
-                                    <span className="font-medium">
-                                      {owner.name}
-                                    </span>
-                                    <span className="text-sm text-muted-foreground">
-                                      {owner.nic}
-                                    </span>
-                                  </div>
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              onClick={() => findOwner(field.value)}
+                              className="px-3"
+                              disabled={isSearchingOwner || !field.value}
+                            >
+                              <Search className="w-4 h-4" />
+                              {isSearchingOwner ? "Searching..." : "Find Owner"}
+                            </Button>
+                          </div>
+                          {owner && owner.nic === field.value && (
+                            <div className="text-sm text-muted-foreground">
+                              {owner.fullName}
+                              {owner.vehicleModel && ` • ${owner.vehicleModel}`}
+                              {owner.licensePlate && ` (${owner.licensePlate})`}
+                            </div>
+                          )}
                           <FormMessage />
                         </FormItem>
                       )}
@@ -486,7 +677,11 @@ export function EditBookingModal({
                             Charging Station
                           </FormLabel>
                           <Select
-                            onValueChange={field.onChange}
+                            onValueChange={(value) => {
+                              field.onChange(value);
+                              form.setValue("slotId", "");
+                              setConflict(null);
+                            }}
                             value={field.value}
                           >
                             <FormControl>
@@ -495,15 +690,15 @@ export function EditBookingModal({
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              {mockStations.map((station) => (
+                              {stations.map((station) => (
                                 <SelectItem key={station.id} value={station.id}>
                                   <div className="flex flex-col items-start">
                                     <span className="font-medium">
-                                      {station.name}
+                                      {station.stationName}
                                     </span>
                                     <span className="text-sm text-muted-foreground">
-                                      AC: {station.acSlots} | DC:{" "}
-                                      {station.dcSlots}
+                                      AC: {station.acChargingSlots} | DC:{" "}
+                                      {station.dcChargingSlots}
                                     </span>
                                   </div>
                                 </SelectItem>
@@ -526,7 +721,11 @@ export function EditBookingModal({
                             Charging Slot Type
                           </FormLabel>
                           <Select
-                            onValueChange={field.onChange}
+                            onValueChange={(value) => {
+                              field.onChange(value);
+                              form.setValue("slotId", "");
+                              setConflict(null);
+                            }}
                             value={field.value}
                           >
                             <FormControl>
@@ -600,11 +799,7 @@ export function EditBookingModal({
                                 selected={field.value}
                                 onSelect={field.onChange}
                                 disabled={(date) =>
-                                  date < new Date() ||
-                                  date >
-                                    new Date(
-                                      Date.now() + 7 * 24 * 60 * 60 * 1000
-                                    )
+                                  !isDateWithinBookingWindow(date, rules)
                                 }
                                 initialFocus
                                 className={cn("p-3 pointer-events-auto")}
@@ -675,6 +870,55 @@ export function EditBookingModal({
                       />
                     </div>
 
+                    {/* Slot Picker */}
+                    {selectedStation && selectedDate && (
+                      <FormField
+                        control={form.control}
+                        name="slotId"
+                        render={() => (
+                          <FormItem>
+                            <FormLabel>
+                              Charging Slot
+                              {pickerSelection && (
+                                <span className="ml-2 font-normal text-muted-foreground">
+                                  {pickerSelection.slotId},{" "}
+                                  {pickerSelection.startTime} -{" "}
+                                  {pickerSelection.endTime}
+                                </span>
+                              )}
+                            </FormLabel>
+                            <SlotAvailabilityPicker
+                              date={selectedDate}
+                              slots={pickerSlots}
+                              timeSlots={timeSlots}
+                              granularityMinutes={rules.slotGranularityMinutes}
+                              bookings={stationBookings}
+                              schedules={schedules}
+                              exceptions={exceptions}
+                              selection={pickerSelection}
+                              onSelect={handleSlotPicked}
+                              excludeBookingId={booking.id}
+                            />
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    {conflict && (
+                      <Alert className="border-destructive/20 bg-destructive/5">
+                        <AlertTriangle className="w-4 h-4" />
+                        <AlertDescription>{conflict}</AlertDescription>
+                      </Alert>
+                    )}
+
+                    {scope === "series" && seriesCheck && (
+                      <OccurrencePreview
+                        occurrences={seriesCheck}
+                        conflictOutcome="must be resolved before saving"
+                      />
+                    )}
+
                     {/* Notes */}
                     <FormField
                       control={form.control}
@@ -703,8 +947,16 @@ export function EditBookingModal({
                     >
                       Cancel
                     </Button>
-                    <Button type="submit" variant="accent">
-                      Update Booking
+                    <Button
+                      type="submit"
+                      variant="accent"
+                      disabled={isCheckingAvailability || isSearchingOwner}
+                    >
+                      {isCheckingAvailability
+                        ? "Checking..."
+                        : scope === "series"
+                          ? "Update Series"
+                          : "Update Booking"}
                     </Button>
                   </DialogFooter>
                 </form>
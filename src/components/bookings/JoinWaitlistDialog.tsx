@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { ListPlus, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useSettings } from "@/contexts/SettingsContext";
+import { useAddToWaitlist } from "@/services/queries";
+import { WaitlistEntry } from "@/types/entities";
+import { formatInTimezone } from "@/lib/settings";
+
+export interface WaitlistRequest {
+  evOwnerId: string;
+  ownerName: string;
+  stationId: string;
+  stationName?: string;
+  slotType: "AC" | "DC";
+  startTime: string; // ISO datetime
+  endTime: string; // ISO datetime
+}
+
+interface JoinWaitlistDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  request: WaitlistRequest | null;
+  onAdded?: () => void;
+}
+
+/**
+ * Puts an owner on the waitlist for a station, slot type and time that is
+ * currently fully booked.
+ */
+export function JoinWaitlistDialog({
+  open,
+  onOpenChange,
+  request,
+  onAdded,
+}: JoinWaitlistDialogProps) {
+  const { toast } = useToast();
+  const { rules } = useSettings();
+  const addToWaitlist = useAddToWaitlist();
+  const [priority, setPriority] = useState<WaitlistEntry["priority"]>("Normal");
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setPriority("Normal");
+    setNotes("");
+  }, [open]);
+
+  if (!request) return null;
+
+  const formatTime = (value: string, options: Intl.DateTimeFormatOptions) =>
+    formatInTimezone(value, rules.timezone, options);
+
+  const handleConfirm = async () => {
+    try {
+      await addToWaitlist.mutateAsync({
+        evOwnerId: request.evOwnerId,
+        stationId: request.stationId,
+        slotType: request.slotType,
+        startTime: request.startTime,
+        endTime: request.endTime,
+        priority,
+        notes: notes.trim() || undefined,
+      });
+      toast({
+        title: "Added to Waitlist",
+        description: `${request.ownerName} will be offered the first matching ${request.slotType} slot that frees up.`,
+      });
+      onOpenChange(false);
+      onAdded?.();
+    } catch (error) {
+      console.error("Failed to add to waitlist:", error);
+      toast({
+        title: "Error",
+        description: "Failed to add the owner to the waitlist. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => !addToWaitlist.isPending && onOpenChange(next)}
+    >
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListPlus className="w-5 h-5 text-accent" />
+            Join Waitlist
+          </DialogTitle>
+          <DialogDescription>
+            No {request.slotType} slot is free at{" "}
+            {request.stationName || request.stationId} on{" "}
+            {formatTime(request.startTime, { weekday: "short", month: "short", day: "numeric" })}{" "}
+            from {formatTime(request.startTime, { hour: "2-digit", minute: "2-digit" })} to{" "}
+            {formatTime(request.endTime, { hour: "2-digit", minute: "2-digit" })}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="waitlist-priority">Priority</Label>
+            <Select
+              value={priority}
+              onValueChange={(value) => setPriority(value as WaitlistEntry["priority"])}
+            >
+              <SelectTrigger id="waitlist-priority">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="Normal">Normal</SelectItem>
+                <SelectItem value="High">High</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="waitlist-notes">Notes</Label>
+            <Textarea
+              id="waitlist-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="e.g. Fleet vehicle, any DC slot will do"
+              className="resize-none"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={addToWaitlist.isPending}
+          >
+            Back
+          </Button>
+          <Button
+            variant="accent"
+            onClick={handleConfirm}
+            disabled={addToWaitlist.isPending}
+            className="gap-2"
+          >
+            {addToWaitlist.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+            Add to Waitlist
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,247 @@
+import { format } from "date-fns";
+import { AlertTriangle, CalendarIcon, CheckCircle2, Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Calendar } from "@/components/ui/calendar";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { useSettings } from "@/contexts/SettingsContext";
+import { isDateWithinBookingWindow } from "@/lib/bookingPolicy";
+import {
+  CheckedOccurrence,
+  MAX_OCCURRENCES,
+  RecurrenceRule,
+} from "@/lib/recurrence";
+
+const WEEKDAYS = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  // First booking date; weekly rules start on its weekday
+  firstDate?: Date;
+}
+
+/**
+ * Repeat controls for a booking: none, daily, or weekly on chosen weekdays,
+ * ending on a date or after a number of bookings.
+ */
+export function RecurrenceFields({ value, onChange, firstDate }: RecurrenceFieldsProps) {
+  const { rules } = useSettings();
+
+  const handleFrequencyChange = (frequency: string) => {
+    if (frequency === "none") {
+      onChange(null);
+      return;
+    }
+    onChange({
+      frequency: frequency as RecurrenceRule["frequency"],
+      weekdays: value?.weekdays.length
+        ? value.weekdays
+        : firstDate
+          ? [firstDate.getDay()]
+          : [],
+      endType: value?.endType ?? "count",
+      until: value?.until,
+      count: value?.count ?? 4,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="flex items-center gap-2">
+          <Repeat className="w-4 h-4" />
+          Repeat
+        </Label>
+        <Select value={value?.frequency ?? "none"} onValueChange={handleFrequencyChange}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value="daily">Daily</SelectItem>
+            <SelectItem value="weekly">Weekly</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value?.frequency === "weekly" && (
+        <div className="space-y-2">
+          <Label>On</Label>
+          <ToggleGroup
+            type="multiple"
+            variant="outline"
+            className="justify-start flex-wrap"
+            value={value.weekdays.map(String)}
+            onValueChange={(days) =>
+              onChange({ ...value, weekdays: days.map(Number) })
+            }
+          >
+            {WEEKDAYS.map((day) => (
+              <ToggleGroupItem key={day.value} value={String(day.value)} size="sm">
+                {day.label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      )}
+
+      {value && (
+        <div className="space-y-2">
+          <Label>Ends</Label>
+          <RadioGroup
+            value={value.endType}
+            onValueChange={(endType) =>
+              onChange({ ...value, endType: endType as RecurrenceRule["endType"] })
+            }
+            className="space-y-2"
+          >
+            <div className="flex items-center gap-3">
+              <RadioGroupItem value="count" id="recurrence-end-count" />
+              <Label htmlFor="recurrence-end-count" className="font-normal w-12">
+                After
+              </Label>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_OCCURRENCES}
+                className="w-24"
+                value={value.count ?? ""}
+                disabled={value.endType !== "count"}
+                onChange={(e) =>
+                  onChange({
+                    ...value,
+                    count: Math.min(Number(e.target.value) || 0, MAX_OCCURRENCES),
+                  })
+                }
+              />
+              <span className="text-sm text-muted-foreground">bookings</span>
+            </div>
+            <div className="flex items-center gap-3">
+              <RadioGroupItem value="until" id="recurrence-end-until" />
+              <Label htmlFor="recurrence-end-until" className="font-normal w-12">
+                On
+              </Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={value.endType !== "until"}
+                    className={cn(
+                      "w-[200px] pl-3 text-left font-normal",
+                      !value.until && "text-muted-foreground"
+                    )}
+                  >
+                    {value.until ? format(value.until, "PPP") : <span>Pick an end date</span>}
+                    <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={value.until}
+                    onSelect={(until) => onChange({ ...value, until })}
+                    disabled={(date) =>
+                      !isDateWithinBookingWindow(date, rules) ||
+                      (!!firstDate && date < firstDate)
+                    }
+                    initialFocus
+                    className={cn("p-3 pointer-events-auto")}
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+          </RadioGroup>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface OccurrencePreviewProps {
+  occurrences: CheckedOccurrence[];
+  // What happens to conflicting occurrences, shown after the count
+  conflictOutcome?: string;
+}
+
+/**
+ * Every booking in a series, flagging the ones that can't be booked
+ * and why.
+ */
+export function OccurrencePreview({
+  occurrences,
+  conflictOutcome = "will be skipped",
+}: OccurrencePreviewProps) {
+  const conflicting = occurrences.filter((item) => item.conflicts.length > 0).length;
+
+  if (occurrences.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        The repeat rule doesn't produce any bookings.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">
+        {occurrences.length} booking{occurrences.length === 1 ? "" : "s"}
+        {conflicting > 0 && (
+          <span className="text-destructive">
+            {" "}
+            · {conflicting} conflict{conflicting === 1 ? "" : "s"} {conflictOutcome}
+          </span>
+        )}
+      </p>
+      <div className="rounded-md border divide-y max-h-60 overflow-y-auto">
+        {occurrences.map((occurrence) => (
+          <div
+            key={occurrence.startAt.toISOString()}
+            className="flex items-start gap-3 px-3 py-2 text-sm"
+          >
+            {occurrence.conflicts.length === 0 ? (
+              <CheckCircle2 className="w-4 h-4 mt-0.5 text-success flex-shrink-0" />
+            ) : (
+              <AlertTriangle className="w-4 h-4 mt-0.5 text-destructive flex-shrink-0" />
+            )}
+            <div>
+              <div className="font-medium">
+                {format(occurrence.startAt, "EEE, MMM d")} ·{" "}
+                {format(occurrence.startAt, "HH:mm")} – {format(occurrence.endAt, "HH:mm")}
+              </div>
+              {occurrence.conflicts.map((conflict) => (
+                <div key={conflict} className="text-destructive">
+                  {conflict}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
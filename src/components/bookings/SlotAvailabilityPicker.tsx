@@ -0,0 +1,212 @@
+import { useEffect, useState } from "react";
+import { addDays, addMinutes, startOfDay } from "date-fns";
+import {
+  BookingApiResponse,
+  ScheduleException,
+  StationSchedule,
+} from "@/types/entities";
+import { cn } from "@/lib/utils";
+import { isActiveBooking } from "@/lib/dashboard";
+import { StationSlot } from "@/lib/availability";
+import { combineDateAndTime, isOpenBetween, resolveEffectiveSchedule } from "@/lib/schedule";
+
+export interface SlotSelection {
+  slotId: string;
+  slotType: "AC" | "DC";
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+}
+
+type CellState = "free" | "booked" | "closed";
+
+interface SlotAvailabilityPickerProps {
+  date: Date;
+  slots: StationSlot[];
+  timeSlots: string[];
+  granularityMinutes: number;
+  bookings: BookingApiResponse[];
+  schedules: StationSchedule[];
+  exceptions: ScheduleException[];
+  selection: SlotSelection | null;
+  onSelect: (selection: SlotSelection) => void;
+  // Booking to ignore when marking cells as booked, e.g. the one being edited
+  excludeBookingId?: string;
+}
+
+const cellClassNames: Record<CellState, string> = {
+  free: "bg-success/20 hover:bg-success/40 cursor-pointer",
+  booked: "bg-destructive/60 cursor-not-allowed",
+  closed: "bg-muted cursor-not-allowed",
+};
+
+/**
+ * Grid of every slot at a station for one day, split into cells of the
+ * configured granularity. Staff drag across free cells on a slot to pick
+ * its start and end time.
+ */
+export function SlotAvailabilityPicker({
+  date,
+  slots,
+  timeSlots,
+  granularityMinutes,
+  bookings,
+  schedules,
+  exceptions,
+  selection,
+  onSelect,
+  excludeBookingId,
+}: SlotAvailabilityPickerProps) {
+  const [drag, setDrag] = useState<{ slotIndex: number; from: number; to: number } | null>(null);
+
+  const dayStart = startOfDay(date);
+  const now = new Date();
+  const effective = resolveEffectiveSchedule(
+    schedules,
+    exceptions,
+    dayStart,
+    addDays(dayStart, 1),
+    slots.map((slot) => slot.slotId)
+  );
+  const activeBookings = bookings.filter(
+    (booking) => isActiveBooking(booking) && booking.id !== excludeBookingId
+  );
+
+  const grid: CellState[][] = slots.map((slot) =>
+    timeSlots.map((time) => {
+      const cellStart = combineDateAndTime(dayStart, time);
+      const cellEnd = addMinutes(cellStart, granularityMinutes);
+      if (cellStart < now || !isOpenBetween(effective.slots[slot.slotId], cellStart, cellEnd)) {
+        return "closed";
+      }
+      const isBooked = activeBookings.some(
+        (booking) =>
+          booking.slotId === slot.slotId &&
+          new Date(booking.startTime) < cellEnd &&
+          new Date(booking.endTime) > cellStart
+      );
+      return isBooked ? "booked" : "free";
+    })
+  );
+
+  // The form's end time must be one of the time options, so a range can't
+  // end on the day's last cell
+  const lastSelectableIndex = timeSlots.length - 2;
+
+  const isRangeFree = (slotIndex: number, from: number, to: number) =>
+    grid[slotIndex]
+      .slice(Math.min(from, to), Math.max(from, to) + 1)
+      .every((state) => state === "free");
+
+  const commitDrag = () => {
+    if (!drag) return;
+    const start = Math.min(drag.from, drag.to);
+    const end = Math.max(drag.from, drag.to);
+    const slot = slots[drag.slotIndex];
+    setDrag(null);
+    onSelect({
+      slotId: slot.slotId,
+      slotType: slot.slotType,
+      startTime: timeSlots[start],
+      endTime: timeSlots[end + 1],
+    });
+  };
+
+  // Finish the drag even when the pointer is released outside the grid
+  useEffect(() => {
+    if (!drag) return;
+    window.addEventListener("mouseup", commitDrag);
+    return () => window.removeEventListener("mouseup", commitDrag);
+  });
+
+  const isCellSelected = (slotIndex: number, cellIndex: number) => {
+    if (drag) {
+      return (
+        drag.slotIndex === slotIndex &&
+        cellIndex >= Math.min(drag.from, drag.to) &&
+        cellIndex <= Math.max(drag.from, drag.to)
+      );
+    }
+    return (
+      selection?.slotId === slots[slotIndex].slotId &&
+      timeSlots[cellIndex] >= selection.startTime &&
+      timeSlots[cellIndex] < selection.endTime
+    );
+  };
+
+  if (slots.length === 0) {
+    return (
+      <div className="text-sm text-muted-foreground">
+        This station has no charging slots of the selected type.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto select-none">
+        <div className="inline-block min-w-full">
+          {/* Hour labels */}
+          <div className="flex items-end">
+            <div className="w-16 flex-shrink-0" />
+            {timeSlots.map((time) => (
+              <div key={time} className="w-4 flex-shrink-0 text-[10px] text-muted-foreground">
+                {time.endsWith(":00") && Number(time.slice(0, 2)) % 3 === 0 ? time.slice(0, 2) : ""}
+              </div>
+            ))}
+          </div>
+
+          {slots.map((slot, slotIndex) => (
+            <div key={slot.slotId} className="flex items-center">
+              <div className="w-16 flex-shrink-0 text-xs font-medium truncate pr-2">
+                {slot.slotId}
+              </div>
+              {timeSlots.map((time, cellIndex) => {
+                const state = grid[slotIndex][cellIndex];
+                return (
+                  <div
+                    key={time}
+                    title={`${slot.slotId} ${time} – ${state}`}
+                    className={cn(
+                      "w-4 h-6 flex-shrink-0 border-r border-b border-background",
+                      cellClassNames[state],
+                      isCellSelected(slotIndex, cellIndex) && "bg-accent hover:bg-accent"
+                    )}
+                    onMouseDown={() => {
+                      if (state !== "free" || cellIndex > lastSelectableIndex) return;
+                      setDrag({ slotIndex, from: cellIndex, to: cellIndex });
+                    }}
+                    onMouseEnter={() => {
+                      if (
+                        drag &&
+                        drag.slotIndex === slotIndex &&
+                        cellIndex <= lastSelectableIndex &&
+                        isRangeFree(slotIndex, drag.from, cellIndex)
+                      ) {
+                        setDrag({ ...drag, to: cellIndex });
+                      }
+                    }}
+                  />
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded-sm bg-success/20" /> Free
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded-sm bg-destructive/60" /> Booked
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded-sm bg-muted" /> Closed
+        </span>
+        <span className="flex items-center gap-1">
+          <span className="w-3 h-3 rounded-sm bg-accent" /> Selected
+        </span>
+      </div>
+    </div>
+  );
+}
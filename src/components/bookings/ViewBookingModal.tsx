@@ -1,5 +1,14 @@
-import { format } from "date-fns";
-import { Calendar, Clock, MapPin, User, FileText, AlertCircle } from "lucide-react";
+import {
+  Calendar,
+  Clock,
+  MapPin,
+  User,
+  FileText,
+  AlertCircle,
+  QrCode,
+  Printer,
+  Download,
+} from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -7,8 +16,23 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Booking } from "@/types/entities";
+import { useSettings } from "@/contexts/SettingsContext";
+import { useToast } from "@/hooks/use-toast";
+import { formatInTimezone } from "@/lib/settings";
+import { canModifyBooking } from "@/lib/bookingPolicy";
+import {
+  BOOKING_STATUS_BADGE_CLASSES,
+  formatBookingStatus,
+} from "@/lib/bookingStatus";
+import {
+  downloadBookingSlip,
+  getQrImageSrc,
+  printBookingSlip,
+} from "@/lib/bookingSlip";
+import { BookingLifecycleActions } from "./BookingLifecycleActions";
 
 interface ViewBookingModalProps {
   open: boolean;
@@ -17,13 +41,49 @@ interface ViewBookingModalProps {
 }
 
 export function ViewBookingModal({ open, onOpenChange, booking }: ViewBookingModalProps) {
+  const { rules } = useSettings();
+  const { toast } = useToast();
+
   if (!booking) return null;
 
+  const handlePrintSlip = () => {
+    try {
+      printBookingSlip(booking, rules.timezone);
+    } catch (error) {
+      console.error("Failed to print booking slip:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to print booking slip.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDownloadSlip = async () => {
+    try {
+      await downloadBookingSlip(booking, rules.timezone);
+    } catch (error) {
+      console.error("Failed to download booking slip:", error);
+      toast({
+        title: "Error",
+        description: "Failed to download booking slip. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const formatDateTime = (dateString: string) => {
-    const date = new Date(dateString);
     return {
-      date: format(date, "EEEE, MMMM do, yyyy"),
-      time: format(date, "h:mm a")
+      date: formatInTimezone(dateString, rules.timezone, {
+        weekday: "long",
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+      }),
+      time: formatInTimezone(dateString, rules.timezone, {
+        hour: "numeric",
+        minute: "2-digit",
+      }),
     };
   };
 
@@ -32,28 +92,6 @@ export function ViewBookingModal({ open, onOpenChange, booking }: ViewBookingMod
   const createdDateTime = formatDateTime(booking.createdAt);
   const updatedDateTime = formatDateTime(booking.updatedAt);
 
-  const getStatusColor = (status: Booking['status']) => {
-    switch (status) {
-      case 'PENDING':
-        return 'bg-warning/10 text-warning border-warning/20';
-      case 'APPROVED':
-        return 'bg-success/10 text-success border-success/20';
-      case 'COMPLETED':
-        return 'bg-accent/10 text-accent border-accent/20';
-      case 'CANCELLED':
-        return 'bg-muted text-muted-foreground border-muted/20';
-      default:
-        return 'bg-muted text-muted-foreground border-muted/20';
-    }
-  };
-
-  const canModifyBooking = () => {
-    const startTime = new Date(booking.startAt);
-    const now = new Date();
-    const hoursDiff = (startTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-    return hoursDiff >= 12 && booking.status === 'PENDING';
-  };
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
@@ -71,8 +109,8 @@ export function ViewBookingModal({ open, onOpenChange, booking }: ViewBookingMod
               <div className="text-sm text-muted-foreground">Booking ID</div>
               <div className="font-mono text-sm">{booking.id}</div>
             </div>
-            <Badge variant="outline" className={getStatusColor(booking.status)}>
-              {booking.status.toLowerCase()}
+            <Badge variant="outline" className={BOOKING_STATUS_BADGE_CLASSES[booking.status]}>
+              {formatBookingStatus(booking.status)}
             </Badge>
           </div>
 
@@ -157,9 +195,64 @@ export function ViewBookingModal({ open, onOpenChange, booking }: ViewBookingMod
                   {Math.round((new Date(booking.endAt).getTime() - new Date(booking.startAt).getTime()) / (1000 * 60))} minutes
                 </span>
               </div>
+              {booking.seriesId && (
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Recurring:</span>
+                  <span className="text-sm">Part of a recurring series</span>
+                </div>
+              )}
+              {booking.actualStartAt && (
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Checked In:</span>
+                  <span className="text-sm">
+                    {formatDateTime(booking.actualStartAt).date}, {formatDateTime(booking.actualStartAt).time}
+                  </span>
+                </div>
+              )}
+              {booking.actualEndAt && (
+                <div className="flex justify-between">
+                  <span className="text-sm text-muted-foreground">Finished:</span>
+                  <span className="text-sm">
+                    {formatDateTime(booking.actualEndAt).date}, {formatDateTime(booking.actualEndAt).time}
+                  </span>
+                </div>
+              )}
             </div>
           </div>
 
+          <BookingLifecycleActions
+            booking={booking}
+            layout="buttons"
+            onTransitioned={() => onOpenChange(false)}
+          />
+
+          {/* Booking QR */}
+          {booking.qrCodeBase64 && (
+            <div className="space-y-3">
+              <h4 className="font-medium flex items-center gap-2">
+                <QrCode className="w-4 h-4" />
+                Booking QR Code
+              </h4>
+              <div className="bg-muted/50 p-3 rounded-lg flex flex-col items-center gap-3">
+                <img
+                  src={getQrImageSrc(booking.qrCodeBase64)}
+                  alt={`QR code for booking ${booking.id}`}
+                  className="w-40 h-40 bg-white p-2 rounded"
+                />
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" className="gap-2" onClick={handlePrintSlip}>
+                    <Printer className="w-4 h-4" />
+                    Print Slip
+                  </Button>
+                  <Button variant="outline" size="sm" className="gap-2" onClick={handleDownloadSlip}>
+                    <Download className="w-4 h-4" />
+                    Download
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Notes */}
           {booking.notes && (
             <div className="space-y-3">
@@ -173,15 +266,26 @@ export function ViewBookingModal({ open, onOpenChange, booking }: ViewBookingMod
             </div>
           )}
 
-          {/* Cancellation Reason */}
-          {booking.cancelReason && (
+          {/* Cancellation */}
+          {(booking.cancelReason || booking.status === 'CANCELLED') && (
             <div className="space-y-3">
               <h4 className="font-medium flex items-center gap-2 text-destructive">
                 <AlertCircle className="w-4 h-4" />
-                Cancellation Reason
+                Cancellation
               </h4>
-              <div className="bg-destructive/10 p-3 rounded-lg border border-destructive/20">
-                <p className="text-sm text-destructive">{booking.cancelReason}</p>
+              <div className="bg-destructive/10 p-3 rounded-lg border border-destructive/20 space-y-2">
+                <p className="text-sm text-destructive">
+                  {booking.cancelReason || 'No reason recorded'}
+                </p>
+                {(booking.cancelledBy || booking.cancelledAt) && (
+                  <div className="text-xs text-muted-foreground">
+                    Cancelled
+                    {booking.cancelledBy && <> by <span className="font-medium">{booking.cancelledBy}</span></>}
+                    {booking.cancelledAt && (
+                      <> on {formatDateTime(booking.cancelledAt).date} at {formatDateTime(booking.cancelledAt).time}</>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -208,14 +312,14 @@ export function ViewBookingModal({ open, onOpenChange, booking }: ViewBookingMod
           </div>
 
           {/* Modification Rules */}
-          {!canModifyBooking() && booking.status === 'PENDING' && (
+          {!canModifyBooking(booking, rules) && booking.status === 'PENDING' && (
             <div className="bg-warning/10 p-3 rounded-lg border border-warning/20">
               <div className="flex items-start gap-2">
                 <AlertCircle className="w-4 h-4 text-warning mt-0.5" />
                 <div className="text-sm text-warning">
                   <div className="font-medium">Cannot Modify</div>
                   <div className="text-xs mt-1">
-                    Bookings can only be modified or cancelled with at least 12 hours notice.
+                    Bookings can only be modified or cancelled with at least {rules.modificationCutoffHours} hours notice.
                   </div>
                 </div>
               </div>
@@ -0,0 +1,313 @@
+import { useEffect, useState } from "react";
+import { format, isSameDay } from "date-fns";
+import {
+  Calendar,
+  Check,
+  Clock,
+  Hourglass,
+  Plug,
+  UserCheck,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { StatCard } from "@/components/dashboard/StatCard";
+import { ConfirmationDialog } from "@/components/bookings/ConfirmationDialog";
+import { useToast } from "@/hooks/use-toast";
+import { BookingApiResponse } from "@/types/entities";
+import { WebUser } from "@/types/auth";
+import { useApproveBooking, useBookings, useStations } from "@/services/queries";
+import {
+  buildSlotTimeline,
+  getOccupiedSlotCount,
+  isActiveBooking,
+} from "@/lib/dashboard";
+
+interface OperatorDashboardProps {
+  user: WebUser;
+  stationId: string;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Position of a time within the day as a percentage of the timeline width
+const dayOffsetPercent = (date: Date) =>
+  ((date.getHours() * 60 + date.getMinutes()) / MINUTES_PER_DAY) * 100;
+
+export function OperatorDashboard({ user, stationId }: OperatorDashboardProps) {
+  const [bookingToApprove, setBookingToApprove] =
+    useState<BookingApiResponse | null>(null);
+  const { toast } = useToast();
+
+  const bookingsQuery = useBookings(stationId);
+  const stationsQuery = useStations();
+  const approveBooking = useApproveBooking();
+  const bookings = bookingsQuery.data ?? [];
+  const station = stationsQuery.data?.find((s) => s.id === stationId);
+  const loading = bookingsQuery.isLoading || stationsQuery.isLoading;
+
+  const loadError = bookingsQuery.error || stationsQuery.error;
+  useEffect(() => {
+    if (!loadError) return;
+    console.error("Failed to load station dashboard:", loadError);
+    toast({
+      title: "Error",
+      description: "Failed to load station data. Please try again.",
+      variant: "destructive",
+    });
+  }, [loadError, toast]);
+
+  const handleApprove = async () => {
+    if (!bookingToApprove) return;
+
+    try {
+      await approveBooking.mutateAsync(bookingToApprove.id);
+      toast({
+        title: "Booking Approved",
+        description: `${bookingToApprove.evOwnerName}'s booking has been approved.`,
+      });
+    } catch (error) {
+      console.error("Failed to approve booking:", error);
+      toast({
+        title: "Error",
+        description: "Failed to approve booking. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setBookingToApprove(null);
+    }
+  };
+
+  const now = new Date();
+  const timeline = buildSlotTimeline(station, bookings, now);
+  const todaysBookings = timeline.flatMap((row) => row.bookings);
+  const nextArrival = todaysBookings
+    .filter((booking) => new Date(booking.startTime) > now)
+    .sort(
+      (a, b) =>
+        new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+    )[0];
+  const pendingApprovals = bookings
+    .filter(
+      (booking) =>
+        booking.status === "Pending" && new Date(booking.endTime) > now
+    )
+    .sort(
+      (a, b) =>
+        new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+    );
+  const totalSlots = station
+    ? station.acChargingSlots + station.dcChargingSlots
+    : timeline.length;
+  const occupiedSlots = station
+    ? getOccupiedSlotCount(station, bookings, now)
+    : bookings.filter(
+        (booking) =>
+          isActiveBooking(booking) &&
+          new Date(booking.startTime) <= now &&
+          new Date(booking.endTime) > now
+      ).length;
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">
+            {station?.stationName || "Station Dashboard"}
+          </h1>
+          <p className="text-muted-foreground">
+            Welcome back, {user.fullName}. Here's your station today.
+          </p>
+        </div>
+        <div className="text-right">
+          <div className="text-sm text-muted-foreground">Today</div>
+          <div className="text-2xl font-semibold">
+            {now.toLocaleDateString()}
+          </div>
+        </div>
+      </div>
+
+      {/* KPI Cards */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <StatCard
+          title="Today's Bookings"
+          value={todaysBookings.length}
+          subtitle={`${
+            todaysBookings.filter((b) => b.status === "Approved").length
+          } approved`}
+          icon={Calendar}
+          variant="accent"
+        />
+        <StatCard
+          title="Next Arrival"
+          value={
+            nextArrival ? format(new Date(nextArrival.startTime), "hh:mm a") : "—"
+          }
+          subtitle={
+            nextArrival
+              ? `${nextArrival.evOwnerName} • ${nextArrival.slotId || nextArrival.slotType}`
+              : "No more arrivals today"
+          }
+          icon={UserCheck}
+          variant="success"
+        />
+        <StatCard
+          title="Slots Occupied"
+          value={`${occupiedSlots}/${totalSlots}`}
+          subtitle="Charging right now"
+          icon={Plug}
+          variant={occupiedSlots >= totalSlots && totalSlots > 0 ? "warning" : "default"}
+        />
+        <StatCard
+          title="Pending Approvals"
+          value={pendingApprovals.length}
+          subtitle="Awaiting your review"
+          icon={Hourglass}
+          variant="warning"
+        />
+      </div>
+
+      {/* Slot Timeline */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5 text-accent" />
+            Today's Slot Timeline
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {loading ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Loading timeline...
+            </div>
+          ) : timeline.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Calendar className="w-8 h-8 mx-auto mb-2 opacity-50" />
+              <div>No charging slots configured for this station</div>
+            </div>
+          ) : (
+            <>
+              <div className="flex pl-[5.75rem] text-xs text-muted-foreground">
+                {[0, 6, 12, 18].map((hour) => (
+                  <div key={hour} className="flex-1">
+                    {`${hour.toString().padStart(2, "0")}:00`}
+                  </div>
+                ))}
+              </div>
+              {timeline.map((row) => (
+                <div key={row.slotId} className="flex items-center gap-3">
+                  <div className="w-20 shrink-0 text-sm">
+                    <div className="font-medium">{row.slotId}</div>
+                    {row.slotType && (
+                      <div className="text-xs text-muted-foreground">
+                        {row.slotType}
+                      </div>
+                    )}
+                  </div>
+                  <div className="relative h-8 flex-1 rounded-md border bg-muted/30">
+                    {row.bookings.map((booking) => {
+                      const start = new Date(booking.startTime);
+                      const end = new Date(booking.endTime);
+                      const left = dayOffsetPercent(start);
+                      const width = Math.max(
+                        (isSameDay(end, start) ? dayOffsetPercent(end) : 100) -
+                          left,
+                        1
+                      );
+
+                      return (
+                        <div
+                          key={booking.id}
+                          title={`${booking.evOwnerName} • ${format(
+                            start,
+                            "hh:mm a"
+                          )} - ${format(end, "hh:mm a")}`}
+                          className={`absolute top-1 bottom-1 rounded-sm ${
+                            booking.status === "Pending"
+                              ? "bg-warning/60"
+                              : "bg-success/60"
+                          }`}
+                          style={{ left: `${left}%`, width: `${width}%` }}
+                        />
+                      );
+                    })}
+                    <div
+                      className="absolute top-0 bottom-0 w-px bg-destructive"
+                      style={{ left: `${dayOffsetPercent(now)}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pending Approvals */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Hourglass className="w-5 h-5 text-warning" />
+            Pending Approvals
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!loading &&
+            pendingApprovals.map((booking) => (
+              <div
+                key={booking.id}
+                className="flex items-center justify-between p-3 rounded-lg border bg-card hover:bg-accent/5 transition-colors"
+              >
+                <div className="flex items-center gap-3">
+                  <div className="text-sm font-medium text-muted-foreground w-32">
+                    {format(new Date(booking.startTime), "MMM d, hh:mm a")}
+                  </div>
+                  <div>
+                    <div className="font-medium">{booking.evOwnerName}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {booking.evOwnerNIC} •{" "}
+                      {booking.slotId || `${booking.slotType} slot`}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge
+                    variant="outline"
+                    className="bg-warning/10 text-warning border-warning/20"
+                  >
+                    pending
+                  </Badge>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-1"
+                    onClick={() => setBookingToApprove(booking)}
+                  >
+                    <Check className="w-3 h-3" />
+                    Approve
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+          {!loading && pendingApprovals.length === 0 && (
+            <div className="text-center py-8 text-muted-foreground">
+              <Check className="w-8 h-8 mx-auto mb-2 opacity-50" />
+              <div>No bookings awaiting approval</div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ConfirmationDialog
+        open={!!bookingToApprove}
+        onOpenChange={(open) => !open && setBookingToApprove(null)}
+        title="Approve Booking"
+        description="Are you sure you want to approve this booking?"
+        onConfirm={handleApprove}
+        confirmText="Approve"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+export function StatCard({ 
+  title, 
+  value, 
+  subtitle, 
+  icon: Icon, 
+  variant = "default" 
+}: { 
+  title: string; 
+  value: string | number; 
+  subtitle: string; 
+  icon: React.ElementType;
+  variant?: "default" | "success" | "warning" | "accent";
+}) {
+  const variantClasses = {
+    default: "text-foreground",
+    success: "text-success",
+    warning: "text-warning", 
+    accent: "text-accent"
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        <Icon className={`h-4 w-4 ${variantClasses[variant]}`} />
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold">{value}</div>
+        <p className="text-xs text-muted-foreground">{subtitle}</p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useToast } from "@/hooks/use-toast";
+import { ExportColumn, ExportFormat, ExportSource, exportRows } from "@/lib/export";
+
+interface ExportDialogProps<T> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Plural name of what is exported, e.g. "bookings"
+  entityName: string;
+  columns: ExportColumn<T>[];
+  // Rows matching the page's current filters, in its current order
+  rowCount: number;
+  getRows: () => ExportSource<T>;
+}
+
+interface ExportPreferences {
+  format: ExportFormat;
+  columns: string[];
+}
+
+const getStorageKey = (entityName: string) => `ev_system_export_${entityName}`;
+
+const readPreferences = (entityName: string): ExportPreferences | null => {
+  try {
+    const stored = localStorage.getItem(getStorageKey(entityName));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Export the rows a list page is showing to CSV or Excel, with a choice of
+ * columns. The format and columns are remembered per page.
+ */
+export function ExportDialog<T>({
+  open,
+  onOpenChange,
+  entityName,
+  columns,
+  rowCount,
+  getRows,
+}: ExportDialogProps<T>) {
+  const { toast } = useToast();
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [rowsWritten, setRowsWritten] = useState<number | null>(null);
+  const isExporting = rowsWritten !== null;
+
+  useEffect(() => {
+    if (!open) return;
+    const preferences = readPreferences(entityName);
+    const allKeys = columns.map((column) => column.key);
+    const remembered = preferences?.columns.filter((key) => allKeys.includes(key));
+    setFormat(preferences?.format ?? "csv");
+    setSelectedKeys(remembered?.length ? remembered : allKeys);
+    // Columns are rebuilt on every render of the page; only reset on open
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, entityName]);
+
+  const toggleColumn = (key: string, checked: boolean) =>
+    setSelectedKeys((current) =>
+      checked ? [...current, key] : current.filter((item) => item !== key)
+    );
+
+  const handleExport = async () => {
+    const selectedColumns = columns.filter((column) => selectedKeys.includes(column.key));
+    localStorage.setItem(
+      getStorageKey(entityName),
+      JSON.stringify({ format, columns: selectedKeys } satisfies ExportPreferences)
+    );
+
+    try {
+      setRowsWritten(0);
+      const exported = await exportRows({
+        filename: entityName,
+        format,
+        columns: selectedColumns,
+        source: getRows(),
+        onProgress: setRowsWritten,
+      });
+      toast({
+        title: "Export Ready",
+        description: `Exported ${exported} ${entityName} to ${format.toUpperCase()}.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error(`Failed to export ${entityName}:`, error);
+      toast({
+        title: "Error",
+        description: `Failed to export ${entityName}. Please try again.`,
+        variant: "destructive",
+      });
+    } finally {
+      setRowsWritten(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isExporting && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Download className="w-5 h-5 text-accent" />
+            Export {entityName.charAt(0).toUpperCase() + entityName.slice(1)}
+          </DialogTitle>
+          <DialogDescription>
+            {rowCount} {entityName} matching the current filters, in the order
+            shown.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <RadioGroup
+              value={format}
+              onValueChange={(value) => setFormat(value as ExportFormat)}
+              className="flex gap-6"
+              disabled={isExporting}
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="csv" id="export-format-csv" />
+                <Label htmlFor="export-format-csv" className="font-normal">
+                  CSV
+                </Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="xlsx" id="export-format-xlsx" />
+                <Label htmlFor="export-format-xlsx" className="font-normal">
+                  Excel (.xlsx)
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Columns</Label>
+              <Button
+                type="button"
+                variant="link"
+                className="h-auto p-0 text-xs"
+                disabled={isExporting}
+                onClick={() =>
+                  setSelectedKeys(
+                    selectedKeys.length === columns.length
+                      ? []
+                      : columns.map((column) => column.key)
+                  )
+                }
+              >
+                {selectedKeys.length === columns.length ? "Clear all" : "Select all"}
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-2 rounded-md border p-3 max-h-60 overflow-y-auto">
+              {columns.map((column) => (
+                <div key={column.key} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`export-column-${column.key}`}
+                    checked={selectedKeys.includes(column.key)}
+                    disabled={isExporting}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                  />
+                  <Label
+                    htmlFor={`export-column-${column.key}`}
+                    className="font-normal text-sm"
+                  >
+                    {column.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {isExporting && (
+            <div className="space-y-1">
+              <Progress
+                value={rowCount > 0 ? Math.min(100, (rowsWritten / rowCount) * 100) : 0}
+                className="h-2"
+              />
+              <p className="text-xs text-muted-foreground">
+                Exported {rowsWritten} of {rowCount} {entityName}...
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isExporting}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="accent"
+            className="gap-2"
+            onClick={handleExport}
+            disabled={isExporting || selectedKeys.length === 0 || rowCount === 0}
+          >
+            {isExporting ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4" />
+            )}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
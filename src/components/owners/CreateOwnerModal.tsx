@@ -11,12 +11,12 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { EVOwner } from "@/types/entities";
-import { evOwnerApi } from "@/services/api";
+import { useCreateEvOwner } from "@/services/queries";
 
 interface CreateOwnerModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onOwnerCreated: (owner: EVOwner) => void;
+  onOwnerCreated?: (owner: EVOwner) => void;
 }
 
 export function CreateOwnerModal({
@@ -26,6 +26,7 @@ export function CreateOwnerModal({
 }: CreateOwnerModalProps) {
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const createEvOwner = useCreateEvOwner();
   const [formData, setFormData] = useState({
     nic: "",
     firstName: "",
@@ -82,7 +83,7 @@ export function CreateOwnerModal({
       };
 
       // Call API to create owner
-      const response = await evOwnerApi.createEvOwner(apiData);
+      const response = await createEvOwner.mutateAsync(apiData);
 
       // Create local owner object for state update
       const newOwner: EVOwner = {
@@ -101,7 +102,7 @@ export function CreateOwnerModal({
         updatedAt: new Date().toISOString(),
       };
 
-      onOwnerCreated(newOwner);
+      onOwnerCreated?.(newOwner);
 
       toast({
         title: "Success",
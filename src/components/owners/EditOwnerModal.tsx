@@ -12,13 +12,13 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { EVOwner } from "@/types/entities";
 import { Trash2 } from "lucide-react";
-import { evOwnerApi } from "@/services/api";
+import { useDeleteEvOwner, useUpdateEvOwner } from "@/services/queries";
 
 interface EditOwnerModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   owner: EVOwner | null;
-  onOwnerUpdated: (owner: EVOwner) => void;
+  onOwnerUpdated?: (owner: EVOwner) => void;
   onOwnerDeleted: (nic: string) => void;
 }
 
@@ -32,6 +32,8 @@ export function EditOwnerModal({
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const updateEvOwner = useUpdateEvOwner();
+  const deleteEvOwner = useDeleteEvOwner();
   const [formData, setFormData] = useState({
     nic: "",
     firstName: "",
@@ -99,7 +101,7 @@ export function EditOwnerModal({
       };
 
       // Call API to update owner
-      await evOwnerApi.updateEvOwner(owner.nic, apiData);
+      await updateEvOwner.mutateAsync({ nic: owner.nic, owner: apiData });
 
       // Create updated owner object for local state
       const updatedOwner: EVOwner = {
@@ -116,7 +118,7 @@ export function EditOwnerModal({
         updatedAt: new Date().toISOString(),
       };
 
-      onOwnerUpdated(updatedOwner);
+      onOwnerUpdated?.(updatedOwner);
 
       toast({
         title: "Success",
@@ -146,7 +148,7 @@ export function EditOwnerModal({
       setIsDeleting(true);
 
       // Call API to delete owner
-      await evOwnerApi.deleteEvOwner(owner.nic);
+      await deleteEvOwner.mutateAsync(owner.nic);
 
       toast({
         title: "Success",
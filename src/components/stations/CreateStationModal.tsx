@@ -39,8 +39,7 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { useToast } from "@/hooks/use-toast";
-import { Station } from "@/types/entities";
-import { stationApi } from "@/services/api";
+import { useCreateStation, useUnassignedOperators } from "@/services/queries";
 
 const stationSchema = z
   .object({
@@ -73,7 +72,6 @@ type StationFormData = z.infer<typeof stationSchema>;
 interface CreateStationModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onStationCreated: (station: Station) => void;
 }
 
 // Operator type for API response
@@ -86,14 +84,17 @@ interface Operator {
 export default function CreateStationModal({
   open,
   onOpenChange,
-  onStationCreated,
 }: CreateStationModalProps) {
   const [showLocationPicker, setShowLocationPicker] = useState(false);
   const [generatingQR, setGeneratingQR] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [operators, setOperators] = useState<Operator[]>([]);
-  const [operatorsLoading, setOperatorsLoading] = useState(false);
   const { toast } = useToast();
+  const createStation = useCreateStation();
+
+  // Unassigned operators, loaded while the modal is open
+  const operatorsQuery = useUnassignedOperators<Operator>(open);
+  const operators = operatorsQuery.data ?? [];
+  const operatorsLoading = operatorsQuery.isLoading;
 
   const form = useForm<StationFormData>({
     resolver: zodResolver(stationSchema),
@@ -117,29 +118,15 @@ export default function CreateStationModal({
   const dcSlots = form.watch("dcSlots");
   const totalSlots = acSlots + dcSlots;
 
-  // Fetch unassigned operators
   useEffect(() => {
-    const fetchOperators = async () => {
-      if (!open) return; // Only fetch when modal is open
-
-      try {
-        setOperatorsLoading(true);
-        const operatorsData = await stationApi.getUnassignedOperators();
-        setOperators(operatorsData);
-      } catch (error) {
-        console.error("Failed to fetch operators:", error);
-        toast({
-          title: "Warning",
-          description: "Failed to load available operators",
-          variant: "destructive",
-        });
-      } finally {
-        setOperatorsLoading(false);
-      }
-    };
-
-    fetchOperators();
-  }, [open, toast]);
+    if (!operatorsQuery.error) return;
+    console.error("Failed to fetch operators:", operatorsQuery.error);
+    toast({
+      title: "Warning",
+      description: "Failed to load available operators",
+      variant: "destructive",
+    });
+  }, [operatorsQuery.error, toast]);
 
   const onSubmit = async (data: StationFormData) => {
     try {
@@ -166,30 +153,7 @@ export default function CreateStationModal({
       };
 
       // Call the API
-      await stationApi.createStation(apiData);
-
-      // Create station object for local state update
-      const newStation: Station = {
-        id: `station-${Date.now()}`, // This will be replaced by actual ID from API later
-        name: data.name,
-        code: stationCode,
-        acSlots: data.acSlots,
-        dcSlots: data.dcSlots,
-        addressLine1: data.addressLine1,
-        city: data.city,
-        latitude: data.latitude,
-        longitude: data.longitude,
-        googlePlaceId: data.googlePlaceId,
-        operatorUserId:
-          data.operatorIds && data.operatorIds.length > 0
-            ? data.operatorIds[0]
-            : undefined,
-        status: "ACTIVE",
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      };
-
-      onStationCreated(newStation);
+      await createStation.mutateAsync(apiData);
 
       toast({
         title: "Station Created Successfully",
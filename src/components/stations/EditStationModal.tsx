@@ -41,7 +41,11 @@ import {
 } from "@/components/ui/popover";
 import { useToast } from "@/hooks/use-toast";
 import { Station } from "@/types/entities";
-import { stationApi } from "@/services/api";
+import {
+  useOperationalUsers,
+  useUnassignedOperators,
+  useUpdateStation,
+} from "@/services/queries";
 
 const stationSchema = z
   .object({
@@ -75,7 +79,6 @@ interface EditStationModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   station: Station | null;
-  onStationUpdated: (station: Station) => void;
 }
 
 // Operator type for API response
@@ -85,28 +88,23 @@ interface Operator {
   fullName: string;
 }
 
-// Station assignment data type
-interface StationAssignment {
-  id: string;
-  stationName: string;
-  stationCode: string;
-}
-
 export default function EditStationModal({
   open,
   onOpenChange,
   station,
-  onStationUpdated,
 }: EditStationModalProps) {
   const [hasActiveBookings] = useState(true); // Mock check for active bookings
-  const [operators, setOperators] = useState<Operator[]>([]);
-  const [allOperationalUsers, setAllOperationalUsers] = useState<Operator[]>(
-    []
-  );
-  const [operatorsLoading, setOperatorsLoading] = useState(false);
-  const [allStations, setAllStations] = useState<StationAssignment[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
+  const updateStation = useUpdateStation();
+
+  // Operators, loaded while the modal is open
+  const operatorsQuery = useUnassignedOperators<Operator>(open);
+  const operationalUsersQuery = useOperationalUsers<Operator>(open);
+  const operators = operatorsQuery.data ?? [];
+  const allOperationalUsers = operationalUsersQuery.data ?? [];
+  const operatorsLoading =
+    operatorsQuery.isLoading || operationalUsersQuery.isLoading;
 
   // Helper function to find operator by ID from both available and operational users
   const findOperatorById = (operatorId: string): Operator | undefined => {
@@ -154,39 +152,16 @@ export default function EditStationModal({
     },
   });
 
-  // Fetch operators and stations data
+  const loadError = operatorsQuery.error || operationalUsersQuery.error;
   useEffect(() => {
-    const fetchData = async () => {
-      if (!open) return; // Only fetch when modal is open
-
-      try {
-        setOperatorsLoading(true);
-
-        // Fetch both unassigned operators and all operational users
-        const [operatorsData, allOperationalData, stationsData] =
-          await Promise.all([
-            stationApi.getUnassignedOperators(),
-            stationApi.getOperationalUsers(),
-            stationApi.getAllStationsForAssignment(),
-          ]);
-
-        setOperators(operatorsData);
-        setAllOperationalUsers(allOperationalData);
-        setAllStations(stationsData);
-      } catch (error) {
-        console.error("Failed to fetch data:", error);
-        toast({
-          title: "Warning",
-          description: "Failed to load operators data",
-          variant: "destructive",
-        });
-      } finally {
-        setOperatorsLoading(false);
-      }
-    };
-
-    fetchData();
-  }, [open, station, toast]);
+    if (!loadError) return;
+    console.error("Failed to fetch data:", loadError);
+    toast({
+      title: "Warning",
+      description: "Failed to load operators data",
+      variant: "destructive",
+    });
+  }, [loadError, toast]);
 
   // Populate form when station data is available
   useEffect(() => {
@@ -262,39 +237,7 @@ export default function EditStationModal({
       };
 
       // Call the API to update the station
-      await stationApi.updateStation(station.id, apiData);
-
-      console.log(
-        "EditStationModal: Creating updated station object for local state"
-      );
-      const updatedStation: Station = {
-        ...station,
-        ...data,
-        operatorIds: data.operatorIds || [],
-        updatedAt: new Date().toISOString(),
-      };
-      console.log("EditStationModal: Updated station created", updatedStation);
-
-      console.log("EditStationModal: Calling onStationUpdated");
-      onStationUpdated(updatedStation);
-
-      // Refresh operators data after successful update
-      try {
-        console.log("EditStationModal: Refreshing operators data after update");
-        const [operatorsData, allOperationalData] = await Promise.all([
-          stationApi.getUnassignedOperators(),
-          stationApi.getOperationalUsers(),
-        ]);
-        setOperators(operatorsData);
-        setAllOperationalUsers(allOperationalData);
-        console.log("EditStationModal: Operators data refreshed successfully");
-      } catch (refreshError) {
-        console.error(
-          "EditStationModal: Failed to refresh operators data",
-          refreshError
-        );
-        // Don't show error to user as the main update was successful
-      }
+      await updateStation.mutateAsync({ stationId: station.id, station: apiData });
 
       toast({
         title: "Station Updated Successfully",
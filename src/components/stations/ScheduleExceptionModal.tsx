@@ -1,8 +1,18 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Calendar, Clock, Plus, Trash2, AlertTriangle, Save } from "lucide-react";
+import { DateRange } from "react-day-picker";
+import { eachDayOfInterval, format, parseISO, startOfDay } from "date-fns";
+import {
+  Calendar as CalendarIcon,
+  Clock,
+  Plus,
+  Trash2,
+  AlertTriangle,
+  Save,
+  Pencil,
+} from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -25,9 +35,17 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Calendar } from "@/components/ui/calendar";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ConfirmationDialog } from "@/components/bookings/ConfirmationDialog";
 import { useToast } from "@/hooks/use-toast";
 import { Station, ScheduleException } from "@/types/entities";
+import {
+  useDeleteScheduleException,
+  useSaveScheduleException,
+  useScheduleExceptions,
+} from "@/services/queries";
 
 const scheduleExceptionSchema = z.object({
   date: z.string().min(1, "Date is required"),
@@ -45,27 +63,8 @@ interface ScheduleExceptionModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   station: Station | null;
-  onExceptionCreated: (exception: ScheduleException) => void;
 }
 
-// Mock existing exceptions
-const mockExceptions: ScheduleException[] = [
-  {
-    stationId: "station-1",
-    date: "2024-01-25",
-    windows: [],
-    note: "Maintenance day - Station closed"
-  },
-  {
-    stationId: "station-1", 
-    date: "2024-12-25",
-    windows: [
-      { start: "10:00", end: "15:00", availableSlots: 2 }
-    ],
-    note: "Christmas Day - Limited hours"
-  }
-];
-
 // Special day templates
 const exceptionTemplates = [
   {
@@ -96,15 +95,36 @@ const exceptionTemplates = [
   }
 ];
 
-export default function ScheduleExceptionModal({ 
-  open, 
-  onOpenChange, 
+const toDateKey = (date: Date) => format(date, "yyyy-MM-dd");
+const formatDateList = (dates: string[]) =>
+  dates.map(date => format(parseISO(date), "MMM d")).join(", ");
+
+// Dates saved at once when applying to a range, so long ranges don't flood
+// the server with requests
+const BULK_SAVE_BATCH_SIZE = 5;
+
+export default function ScheduleExceptionModal({
+  open,
+  onOpenChange,
   station,
-  onExceptionCreated 
 }: ScheduleExceptionModalProps) {
   const [windows, setWindows] = useState<Array<{start: string, end: string, availableSlots: number}>>([]);
-  const [existingExceptions] = useState<ScheduleException[]>(mockExceptions);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isBulkMode, setIsBulkMode] = useState(false);
+  const [bulkRange, setBulkRange] = useState<DateRange | undefined>();
+  // Dates from the last range apply that failed to save
+  const [failedDates, setFailedDates] = useState<string[]>([]);
+  const [pendingDelete, setPendingDelete] = useState<ScheduleException | null>(null);
   const { toast } = useToast();
+  const saveScheduleException = useSaveScheduleException();
+  const deleteScheduleException = useDeleteScheduleException();
+
+  // The station's saved exceptions, loaded while the modal is open
+  const exceptionsQuery = useScheduleExceptions(open ? station?.id : undefined);
+  const existingExceptions = [...(exceptionsQuery.data ?? [])].sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+  const isLoading = exceptionsQuery.isLoading;
 
   const form = useForm<ScheduleExceptionFormData>({
     resolver: zodResolver(scheduleExceptionSchema),
@@ -115,8 +135,43 @@ export default function ScheduleExceptionModal({
     },
   });
 
+  useEffect(() => {
+    if (!exceptionsQuery.error) return;
+    console.error("Failed to load schedule exceptions:", exceptionsQuery.error);
+    toast({
+      title: "Error",
+      description: "Failed to load schedule exceptions",
+      variant: "destructive",
+    });
+  }, [exceptionsQuery.error, toast]);
+
   const selectedDate = form.watch("date");
   const existingException = existingExceptions.find(ex => ex.date === selectedDate);
+  const bulkDates =
+    bulkRange?.from
+      ? eachDayOfInterval({ start: bulkRange.from, end: bulkRange.to ?? bulkRange.from }).map(toDateKey)
+      : [];
+  const bulkReplacedCount = existingExceptions.filter(ex => bulkDates.includes(ex.date)).length;
+
+  const resetForm = () => {
+    form.reset({ date: "", note: "", windows: [] });
+    setWindows([]);
+    setBulkRange(undefined);
+    setFailedDates([]);
+  };
+
+  const selectDate = (date: Date | undefined) => {
+    if (!date) return;
+    const dateKey = toDateKey(date);
+    const exception = existingExceptions.find(ex => ex.date === dateKey);
+
+    form.setValue("date", dateKey, { shouldValidate: true });
+    // Editing an existing exception starts from its saved values
+    if (exception) {
+      setWindows(exception.windows.map(window => ({ ...window })));
+      form.setValue("note", exception.note ?? "");
+    }
+  };
 
   const addTimeWindow = () => {
     const totalSlots = station ? station.acSlots + station.dcSlots : 1;
@@ -128,7 +183,7 @@ export default function ScheduleExceptionModal({
   };
 
   const updateTimeWindow = (index: number, field: string, value: string | number) => {
-    setWindows(windows.map((window, i) => 
+    setWindows(windows.map((window, i) =>
       i === index ? { ...window, [field]: value } : window
     ));
   };
@@ -144,55 +199,130 @@ export default function ScheduleExceptionModal({
 
     setWindows(templateWindows);
     form.setValue("note", template.note);
-    
+
     toast({
       title: "Template Applied",
       description: `${template.name} template has been applied.`,
     });
   };
 
-  const onSubmit = async (data: ScheduleExceptionFormData) => {
+  const saveExceptions = async (dates: string[], note: string | undefined) => {
     if (!station) return;
 
     try {
-      const exception: ScheduleException = {
-        stationId: station.id,
-        date: data.date,
-        windows: windows,
-        note: data.note || undefined
-      };
+      setIsSaving(true);
+      const failed: string[] = [];
+      for (let i = 0; i < dates.length; i += BULK_SAVE_BATCH_SIZE) {
+        const batch = dates.slice(i, i + BULK_SAVE_BATCH_SIZE);
+        const results = await Promise.allSettled(
+          batch.map(date =>
+            saveScheduleException.mutateAsync({
+              stationId: station.id,
+              exception: {
+                stationId: station.id,
+                date,
+                windows,
+                note: note || undefined
+              }
+            })
+          )
+        );
+        results.forEach((result, index) => {
+          if (result.status === "rejected") {
+            console.error(`Failed to save schedule exception for ${batch[index]}:`, result.reason);
+            failed.push(batch[index]);
+          }
+        });
+      }
+
+      setFailedDates(failed);
+      if (failed.length > 0) {
+        toast({
+          title: "Some Exceptions Not Saved",
+          description: `${dates.length - failed.length} saved, ${failed.length} failed: ${formatDateList(failed)}.`,
+          variant: "destructive",
+        });
+        return;
+      }
 
-      onExceptionCreated(exception);
-      
       toast({
-        title: "Schedule Exception Created",
-        description: `Special schedule for ${new Date(data.date).toLocaleDateString()} has been saved.`,
+        title: "Schedule Exception Saved",
+        description:
+          dates.length === 1
+            ? `Special schedule for ${format(parseISO(dates[0]), "PPP")} has been saved.`
+            : `Special schedule has been applied to ${dates.length} dates.`,
       });
-
-      onOpenChange(false);
-      form.reset();
-      setWindows([]);
+      resetForm();
     } catch (error) {
+      console.error("Failed to save schedule exceptions:", error);
       toast({
-        title: "Error Creating Exception",
+        title: "Error Saving Exception",
         description: "Please try again later.",
         variant: "destructive",
       });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onSubmit = async (data: ScheduleExceptionFormData) => {
+    await saveExceptions([data.date], data.note);
+  };
+
+  const handleBulkApply = async () => {
+    await saveExceptions(bulkDates, form.getValues("note"));
+  };
+
+  const handleRetryFailed = async () => {
+    await saveExceptions(failedDates, form.getValues("note"));
+  };
+
+  const handleDeleteException = async () => {
+    if (!station || !pendingDelete) return;
+
+    try {
+      await deleteScheduleException.mutateAsync({
+        stationId: station.id,
+        date: pendingDelete.date
+      });
+      if (selectedDate === pendingDelete.date) {
+        resetForm();
+      }
+      toast({
+        title: "Exception Deleted",
+        description: `${format(parseISO(pendingDelete.date), "PPP")} now follows the weekly schedule.`,
+      });
+    } catch (error) {
+      console.error("Failed to delete schedule exception:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete schedule exception",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingDelete(null);
     }
   };
 
   if (!station) return null;
 
-  const isDateInPast = selectedDate && new Date(selectedDate) < new Date();
+  const isDateInPast = selectedDate && parseISO(selectedDate) < startOfDay(new Date());
   const totalAvailableSlots = windows.reduce((sum, window) => sum + window.availableSlots, 0);
+  const exceptionDates = existingExceptions.map(ex => parseISO(ex.date));
+  const closedDates = existingExceptions
+    .filter(ex => ex.windows.length === 0)
+    .map(ex => parseISO(ex.date));
+  const upcomingExceptions = existingExceptions.filter(
+    ex => parseISO(ex.date) >= startOfDay(new Date())
+  );
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
-            <Calendar className="w-5 h-5" />
-            Schedule Exception: {station.name}
+            <CalendarIcon className="w-5 h-5" />
+            Schedule Exceptions: {station.name}
           </DialogTitle>
           <DialogDescription>
             Create special schedules for holidays, maintenance, or other exceptions.
@@ -203,32 +333,101 @@ export default function ScheduleExceptionModal({
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-              {/* Left Column - Date & Templates */}
+              {/* Left Column - Calendar & Templates */}
               <div className="space-y-4">
                 <Card>
                   <CardHeader>
-                    <CardTitle className="text-lg">Exception Date</CardTitle>
+                    <CardTitle className="text-lg flex items-center justify-between">
+                      Exception Date
+                      <div className="flex items-center gap-2">
+                        <Label htmlFor="bulk-mode" className="text-xs font-normal">
+                          Date range
+                        </Label>
+                        <Switch
+                          id="bulk-mode"
+                          checked={isBulkMode}
+                          onCheckedChange={(checked) => {
+                            setIsBulkMode(checked);
+                            setBulkRange(undefined);
+                            setFailedDates([]);
+                          }}
+                        />
+                      </div>
+                    </CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-4">
-                    <FormField
-                      control={form.control}
-                      name="date"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Select Date *</FormLabel>
-                          <FormControl>
-                            <Input 
-                              type="date"
-                              min={new Date().toISOString().split('T')[0]}
-                              {...field} 
-                            />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                    {isBulkMode ? (
+                      <Calendar
+                        mode="range"
+                        selected={bulkRange}
+                        onSelect={setBulkRange}
+                        modifiers={{ exception: exceptionDates, closed: closedDates }}
+                        modifiersClassNames={{
+                          exception: "border border-accent text-accent font-semibold",
+                          closed: "border border-destructive text-destructive",
+                        }}
+                        className="p-0 pointer-events-auto"
+                      />
+                    ) : (
+                      <FormField
+                        control={form.control}
+                        name="date"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormControl>
+                              <Calendar
+                                mode="single"
+                                selected={field.value ? parseISO(field.value) : undefined}
+                                onSelect={selectDate}
+                                modifiers={{ exception: exceptionDates, closed: closedDates }}
+                                modifiersClassNames={{
+                                  exception: "border border-accent text-accent font-semibold",
+                                  closed: "border border-destructive text-destructive",
+                                }}
+                                className="p-0 pointer-events-auto"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    <div className="flex gap-3 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <span className="w-3 h-3 rounded-sm border border-accent" /> Special hours
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <span className="w-3 h-3 rounded-sm border border-destructive" /> Closed
+                      </span>
+                    </div>
 
-                    {isDateInPast && (
+                    {isBulkMode && bulkDates.length > 0 && (
+                      <div className="text-sm text-muted-foreground">
+                        {bulkDates.length} date{bulkDates.length !== 1 ? "s" : ""} selected
+                        {bulkReplacedCount > 0 && ` (${bulkReplacedCount} existing will be replaced)`}
+                      </div>
+                    )}
+
+                    {isBulkMode && failedDates.length > 0 && (
+                      <Alert className="border-destructive/20 bg-destructive/5">
+                        <AlertTriangle className="w-4 h-4" />
+                        <AlertDescription className="space-y-2">
+                          <p>Not saved: {formatDateList(failedDates)}</p>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            disabled={isSaving}
+                            onClick={handleRetryFailed}
+                          >
+                            Retry {failedDates.length} Date{failedDates.length !== 1 ? "s" : ""}
+                          </Button>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    {!isBulkMode && isDateInPast && (
                       <Alert className="border-warning/20 bg-warning/5">
                         <AlertTriangle className="w-4 h-4" />
                         <AlertDescription>
@@ -237,11 +436,11 @@ export default function ScheduleExceptionModal({
                       </Alert>
                     )}
 
-                    {existingException && (
+                    {!isBulkMode && existingException && (
                       <Alert className="border-accent/20 bg-accent/5">
-                        <AlertTriangle className="w-4 h-4" />
+                        <Pencil className="w-4 h-4" />
                         <AlertDescription>
-                          An exception already exists for this date and will be replaced.
+                          Editing the existing exception for this date. Saving will replace it.
                         </AlertDescription>
                       </Alert>
                     )}
@@ -337,7 +536,7 @@ export default function ScheduleExceptionModal({
                             </Button>
                           </div>
                         ))}
-                        
+
                         {/* Summary */}
                         <div className="bg-muted/30 p-4 rounded-lg">
                           <div className="grid grid-cols-3 gap-4 text-sm">
@@ -398,6 +597,63 @@ export default function ScheduleExceptionModal({
                     />
                   </CardContent>
                 </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Upcoming Exceptions</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {isLoading ? (
+                      <div className="text-sm text-muted-foreground">Loading exceptions...</div>
+                    ) : upcomingExceptions.length > 0 ? (
+                      upcomingExceptions.map((exception) => (
+                        <div
+                          key={exception.date}
+                          className="flex items-center justify-between gap-4 p-3 border rounded-lg"
+                        >
+                          <div className="min-w-0">
+                            <div className="font-medium text-sm">
+                              {format(parseISO(exception.date), "EEE, MMM d, yyyy")}
+                            </div>
+                            <div className="text-xs text-muted-foreground truncate">
+                              {exception.windows.length > 0
+                                ? exception.windows.map(w => `${w.start}–${w.end}`).join(", ")
+                                : "Closed all day"}
+                              {exception.note && ` • ${exception.note}`}
+                            </div>
+                          </div>
+                          <div className="flex gap-2 flex-shrink-0">
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => {
+                                setIsBulkMode(false);
+                                selectDate(parseISO(exception.date));
+                              }}
+                            >
+                              <Pencil className="w-3 h-3 mr-1" />
+                              Edit
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setPendingDelete(exception)}
+                              className="text-destructive hover:text-destructive"
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))
+                    ) : (
+                      <div className="text-sm text-muted-foreground">
+                        No upcoming exceptions. The weekly schedule applies to every date.
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
               </div>
             </div>
 
@@ -408,20 +664,47 @@ export default function ScheduleExceptionModal({
                 variant="outline"
                 onClick={() => {
                   onOpenChange(false);
-                  form.reset();
-                  setWindows([]);
+                  resetForm();
                 }}
               >
                 Cancel
               </Button>
-              <Button type="submit" variant="accent" disabled={!selectedDate}>
-                <Save className="w-4 h-4 mr-2" />
-                Save Exception
-              </Button>
+              {isBulkMode ? (
+                <Button
+                  type="button"
+                  variant="accent"
+                  disabled={bulkDates.length === 0 || isSaving}
+                  onClick={handleBulkApply}
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  {isSaving
+                    ? "Applying..."
+                    : `Apply to ${bulkDates.length} Date${bulkDates.length !== 1 ? "s" : ""}`}
+                </Button>
+              ) : (
+                <Button type="submit" variant="accent" disabled={!selectedDate || isSaving}>
+                  <Save className="w-4 h-4 mr-2" />
+                  {isSaving ? "Saving..." : "Save Exception"}
+                </Button>
+              )}
             </div>
           </form>
         </Form>
+
+        <ConfirmationDialog
+          open={!!pendingDelete}
+          onOpenChange={(open) => !open && setPendingDelete(null)}
+          title="Delete Exception"
+          description={
+            pendingDelete
+              ? `Remove the exception for ${format(parseISO(pendingDelete.date), "PPP")}? The regular weekly schedule will apply again.`
+              : ""
+          }
+          confirmText="Delete"
+          destructive
+          onConfirm={handleDeleteException}
+        />
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
@@ -11,7 +11,8 @@ import {
   BarChart3,
   Save,
   User,
-  Car
+  Car,
+  RefreshCw
 } from "lucide-react";
 import {
   Dialog,
@@ -41,6 +42,10 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
 import { Station, StationSchedule, Booking } from "@/types/entities";
+import { useQueryClient } from "@tanstack/react-query";
+import { ConflictError } from "@/services/api";
+import { useUpdateWeeklyTemplate, weeklyTemplateQuery } from "@/services/queries";
+import { validateWeeklySchedule } from "@/lib/schedule";
 
 // Extended StationSchedule interface to include specific slot availability
 interface ExtendedStationSchedule extends Omit<StationSchedule, 'windows'> {
@@ -56,7 +61,6 @@ interface StationScheduleModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   station: Station | null;
-  onScheduleUpdated: (stationId: string, schedules: StationSchedule[]) => void;
 }
 
 // Mock approved bookings for the station (more comprehensive data)
@@ -147,38 +151,10 @@ const mockApprovedBookings: Booking[] = [
   }
 ];
 
-// Mock current schedules with selected slots
-const mockSchedules: ExtendedStationSchedule[] = [
-  {
-    stationId: "station-1",
-    weekday: 1, // Monday
-    windows: [
-      { 
-        start: "08:00", 
-        end: "12:00", 
-        availableSlots: 2,
-        selectedSlots: ['AC-1', 'DC-1']
-      },
-      { 
-        start: "13:00", 
-        end: "18:00", 
-        availableSlots: 4,
-        selectedSlots: ['AC-1', 'AC-2', 'DC-1', 'DC-2']
-      },
-    ]
-  },
-  {
-    stationId: "station-1", 
-    weekday: 2, // Tuesday
-    windows: [
-      { 
-        start: "08:00", 
-        end: "18:00", 
-        availableSlots: 4,
-        selectedSlots: ['AC-1', 'AC-2', 'DC-1', 'DC-2']
-      },
-    ]
-  },
+// Slot IDs shown in the editor, e.g. ['AC-1', 'AC-2', 'DC-1']
+const getStationSlotIds = (station: Station) => [
+  ...Array.from({ length: station.acSlots }, (_, i) => `AC-${i + 1}`),
+  ...Array.from({ length: station.dcSlots }, (_, i) => `DC-${i + 1}`),
 ];
 
 const weekdays = [
@@ -228,14 +204,19 @@ export default function StationScheduleModal({
   open, 
   onOpenChange, 
   station,
-  onScheduleUpdated 
 }: StationScheduleModalProps) {
-  const [schedules, setSchedules] = useState<ExtendedStationSchedule[]>(mockSchedules);
+  const [schedules, setSchedules] = useState<ExtendedStationSchedule[]>([]);
+  const [scheduleVersion, setScheduleVersion] = useState<string | null>(null);
+  const [isLoadingSchedule, setIsLoadingSchedule] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [hasConflict, setHasConflict] = useState(false);
   const [selectedDay, setSelectedDay] = useState<number>(1);
   const [activeTab, setActiveTab] = useState("bookings");
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   const [selectedSlot, setSelectedSlot] = useState<string>("");
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const updateWeeklyTemplate = useUpdateWeeklyTemplate();
 
   // Ensure a stable first slot selection when station becomes available
   useEffect(() => {
@@ -246,6 +227,44 @@ export default function StationScheduleModal({
     }
   }, [station, selectedSlot]);
 
+  const loadSchedule = async (target: Station) => {
+    try {
+      setIsLoadingSchedule(true);
+      setHasConflict(false);
+      const template = await queryClient.fetchQuery(weeklyTemplateQuery(target.id));
+      const allSlotIds = getStationSlotIds(target);
+      setSchedules(
+        template.schedules.map((schedule) => ({
+          ...schedule,
+          windows: schedule.windows.map((window) => ({
+            ...window,
+            selectedSlots: window.selectedSlots ?? allSlotIds,
+          })),
+        }))
+      );
+      setScheduleVersion(template.version);
+    } catch (error) {
+      console.error("Failed to load station schedule:", error);
+      setSchedules([]);
+      setScheduleVersion(null);
+      toast({
+        title: "Error",
+        description: "Failed to load station schedule",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingSchedule(false);
+    }
+  };
+
+  // Load the saved weekly template whenever the modal opens
+  useEffect(() => {
+    if (open && station) {
+      loadSchedule(station);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, station?.id]);
+
   if (!station) return null;
 
   // Generate slot options based on station capacity
@@ -398,13 +417,61 @@ export default function StationScheduleModal({
     });
   };
 
-  const saveSchedules = () => {
-    onScheduleUpdated(station.id, schedules);
-    toast({
-      title: "Schedules Updated",
-      description: "Station availability schedules have been saved successfully.",
-    });
-    onOpenChange(false);
+  const scheduleErrors = validateWeeklySchedule(
+    schedules,
+    slotOptions.map((slot) => slot.id)
+  );
+
+  const getWindowErrors = (weekday: number, windowIndex: number) =>
+    scheduleErrors.filter(
+      (error) => error.weekday === weekday && error.windowIndex === windowIndex
+    );
+
+  const saveSchedules = async () => {
+    if (scheduleErrors.length > 0) {
+      const day = weekdays[scheduleErrors[0].weekday];
+      setSelectedDay(day.id);
+      setActiveTab("weekly");
+      toast({
+        title: "Invalid Schedule",
+        description: `${day.name}: ${scheduleErrors[0].message}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const saved = await updateWeeklyTemplate.mutateAsync({
+        stationId: station.id,
+        schedules,
+        version: scheduleVersion,
+      });
+      setScheduleVersion(saved.version);
+      toast({
+        title: "Schedules Updated",
+        description: "Station availability schedules have been saved successfully.",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        setHasConflict(true);
+        toast({
+          title: "Schedule Changed",
+          description: error.message,
+          variant: "destructive",
+        });
+        return;
+      }
+      console.error("Failed to save station schedule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save station schedule. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const getTotalWeeklySlots = () => {
@@ -591,6 +658,7 @@ export default function StationScheduleModal({
                 <CardContent className="space-y-2">
                   {weekdays.map((day) => {
                     const hasSchedule = schedules.some(s => s.weekday === day.id);
+                    const hasErrors = scheduleErrors.some(e => e.weekday === day.id);
                     const isSelected = selectedDay === day.id;
                     
                     return (
@@ -600,7 +668,12 @@ export default function StationScheduleModal({
                         className="w-full justify-between"
                         onClick={() => setSelectedDay(day.id)}
                       >
-                        <span>{day.name}</span>
+                        <span className="flex items-center gap-2">
+                          {day.name}
+                          {hasErrors && (
+                            <AlertCircle className="w-4 h-4 text-destructive" />
+                          )}
+                        </span>
                         {hasSchedule && (
                           <Badge variant="secondary" className="ml-2">
                             {schedules.find(s => s.weekday === day.id)?.windows.length || 0}
@@ -647,7 +720,11 @@ export default function StationScheduleModal({
                     </CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-4">
-                    {currentDaySchedule?.windows.length ? (
+                    {isLoadingSchedule ? (
+                      <div className="text-center py-8 text-muted-foreground">
+                        Loading schedule...
+                      </div>
+                    ) : currentDaySchedule?.windows.length ? (
                       currentDaySchedule.windows.map((window, index) => (
                          <div key={index} className="p-4 border rounded-lg space-y-4">
                            <div className="grid grid-cols-2 gap-4">
@@ -668,6 +745,16 @@ export default function StationScheduleModal({
                                />
                              </div>
                            </div>
+
+                           {getWindowErrors(selectedDay, index).map((error) => (
+                             <div
+                               key={error.message}
+                               className="flex items-center gap-2 text-sm text-destructive"
+                             >
+                               <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                               {error.message}
+                             </div>
+                           ))}
                            
                            {/* Slot Selection */}
                            <div>
@@ -962,14 +1049,41 @@ export default function StationScheduleModal({
           </TabsContent>
         </Tabs>
 
+        {hasConflict && (
+          <Alert variant="destructive">
+            <AlertCircle className="w-4 h-4" />
+            <AlertDescription className="flex items-center justify-between gap-4">
+              <span>
+                Someone else saved changes to this schedule after you opened
+                it. Reload the latest version to continue; your unsaved edits
+                will be discarded.
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => loadSchedule(station)}
+              >
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Reload Latest
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Action Buttons */}
         <div className="flex justify-end gap-3 pt-4 border-t">
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
-          <Button variant="accent" onClick={saveSchedules}>
+          <Button
+            variant="accent"
+            onClick={saveSchedules}
+            disabled={
+              isLoadingSchedule || isSaving || hasConflict || !scheduleVersion
+            }
+          >
             <Save className="w-4 h-4 mr-2" />
-            Save Schedules
+            {isSaving ? "Saving..." : "Save Schedules"}
           </Button>
         </div>
       </DialogContent>
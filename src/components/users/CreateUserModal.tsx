@@ -18,12 +18,12 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { WebUser, UserRole } from "@/types/auth";
 import { Shield, MapPin } from "lucide-react";
-import { userApi } from "@/services/api";
+import { useCreateOperationalUser } from "@/services/queries";
 
 interface CreateUserModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onUserCreated: (user: WebUser) => void;
+  onUserCreated?: (user: WebUser) => void;
   availableStations?: Array<{ id: string; name: string; code?: string }>;
   loading?: boolean;
 }
@@ -36,6 +36,7 @@ export function CreateUserModal({
   loading = false,
 }: CreateUserModalProps) {
   const { toast } = useToast();
+  const createOperationalUser = useCreateOperationalUser();
   const [formData, setFormData] = useState({
     firstName: "",
     lastName: "",
@@ -124,7 +125,7 @@ export function CreateUserModal({
       };
 
       // Call the API
-      const response = await userApi.createOperationalUser(apiData);
+      const response = await createOperationalUser.mutateAsync(apiData);
 
       // Create user object for the parent component (for UI updates)
       const newUser: WebUser = {
@@ -139,7 +140,7 @@ export function CreateUserModal({
         updatedAt: new Date().toISOString(),
       };
 
-      onUserCreated(newUser);
+      onUserCreated?.(newUser);
 
       toast({
         title: "Success",
@@ -0,0 +1,42 @@
+import React, { createContext, useContext, useState } from "react";
+import { BusinessRules, SettingsContextType } from "@/types/settings";
+import { settingsApi } from "@/services/api";
+import { useBusinessRules, useUpdateBusinessRules } from "@/services/queries";
+import { useAuth } from "@/contexts/AuthContext";
+
+const SettingsContext = createContext<SettingsContextType | undefined>(
+  undefined
+);
+
+export function SettingsProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  // Loaded once someone signs in and again for each new user; until then
+  // the last locally saved rules apply
+  const rulesQuery = useBusinessRules(user?.email);
+  const [storedRules] = useState(() => settingsApi.getCachedBusinessRules());
+  const updateBusinessRules = useUpdateBusinessRules();
+
+  const updateRules = async (nextRules: BusinessRules) => {
+    await updateBusinessRules.mutateAsync(nextRules);
+  };
+
+  const value: SettingsContextType = {
+    rules: rulesQuery.data ?? storedRules,
+    isLoading: rulesQuery.isLoading,
+    updateRules,
+  };
+
+  return (
+    <SettingsContext.Provider value={value}>
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+export function useSettings() {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error("useSettings must be used within a SettingsProvider");
+  }
+  return context;
+}
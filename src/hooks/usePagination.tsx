@@ -1,10 +1,64 @@
 import { useState, useMemo } from "react";
+import {
+  QueryKey,
+  keepPreviousData,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { PaginatedResponse, PaginationParams } from "@/types/entities";
 
 export interface PaginationOptions {
   itemsPerPage?: number;
   initialPage?: number;
 }
 
+// Page numbers, ranges and navigation flags for DataPagination
+const getPaginationState = (
+  totalItems: number,
+  currentPage: number,
+  itemsPerPage: number
+) => {
+  const totalPages = Math.ceil(totalItems / itemsPerPage);
+
+  // Calculate start and end indices
+  const startIndex = (currentPage - 1) * itemsPerPage;
+  const endIndex = startIndex + itemsPerPage;
+
+  // Calculate page numbers for pagination display
+  const getPageNumbers = () => {
+    const pageNumbers = [];
+    const showPages = 5; // Show 5 page numbers at a time
+    
+    let startPage = Math.max(1, currentPage - Math.floor(showPages / 2));
+    let endPage = Math.min(totalPages, startPage + showPages - 1);
+    
+    // Adjust start page if we're near the end
+    if (endPage - startPage + 1 < showPages) {
+      startPage = Math.max(1, endPage - showPages + 1);
+    }
+    
+    for (let i = startPage; i <= endPage; i++) {
+      pageNumbers.push(i);
+    }
+    
+    return pageNumbers;
+  };
+
+  return {
+    totalItems,
+    totalPages,
+    currentPage,
+    itemsPerPage,
+    hasNextPage: currentPage < totalPages,
+    hasPreviousPage: currentPage > 1,
+    startIndex: startIndex + 1,
+    endIndex: Math.min(endIndex, totalItems),
+    pageNumbers: getPageNumbers(),
+    showEllipsisStart: currentPage > 3,
+    showEllipsisEnd: currentPage < totalPages - 2,
+  };
+};
+
 export function usePagination<T>(
   items: T[], 
   options: PaginationOptions = {}
@@ -14,49 +68,12 @@ export function usePagination<T>(
   const [currentPage, setCurrentPage] = useState(initialPage);
   
   const paginatedData = useMemo(() => {
-    const totalItems = items.length;
-    const totalPages = Math.ceil(totalItems / itemsPerPage);
-    
-    // Calculate start and end indices
     const startIndex = (currentPage - 1) * itemsPerPage;
-    const endIndex = startIndex + itemsPerPage;
-    
-    // Get current page items
-    const currentItems = items.slice(startIndex, endIndex);
-    
-    // Calculate page numbers for pagination display
-    const getPageNumbers = () => {
-      const pageNumbers = [];
-      const showPages = 5; // Show 5 page numbers at a time
-      
-      let startPage = Math.max(1, currentPage - Math.floor(showPages / 2));
-      let endPage = Math.min(totalPages, startPage + showPages - 1);
-      
-      // Adjust start page if we're near the end
-      if (endPage - startPage + 1 < showPages) {
-        startPage = Math.max(1, endPage - showPages + 1);
-      }
-      
-      for (let i = startPage; i <= endPage; i++) {
-        pageNumbers.push(i);
-      }
-      
-      return pageNumbers;
-    };
 
     return {
-      currentItems,
-      totalItems,
-      totalPages,
-      currentPage,
-      itemsPerPage,
-      hasNextPage: currentPage < totalPages,
-      hasPreviousPage: currentPage > 1,
-      startIndex: startIndex + 1,
-      endIndex: Math.min(endIndex, totalItems),
-      pageNumbers: getPageNumbers(),
-      showEllipsisStart: currentPage > 3,
-      showEllipsisEnd: currentPage < totalPages - 2,
+      // Get current page items
+      currentItems: items.slice(startIndex, startIndex + itemsPerPage),
+      ...getPaginationState(items.length, currentPage, itemsPerPage),
     };
   }, [items, currentPage, itemsPerPage]);
 
@@ -97,4 +114,92 @@ export function usePagination<T>(
     goToLastPage,
     resetToFirstPage,
   };
-}
\ No newline at end of file
+}
+
+export interface ServerPaginationOptions<T> {
+  itemsPerPage?: number;
+  sort?: string;
+  filters?: Record<string, string | undefined>;
+  // Used instead of `filters` and `sort` when the backend returns the whole list
+  clientFilter?: (item: T) => boolean;
+  clientSort?: (a: T, b: T) => number;
+}
+
+/**
+ * Pagination driven by a paged list endpoint. Each page is cached under
+ * `queryKey` plus its params, and the server's total drives DataPagination.
+ * If the backend ignores paging and returns everything, the list is cached
+ * once under `queryKey` + "all" and filtered, sorted and sliced locally.
+ */
+export function useServerPagination<T>(
+  queryKey: QueryKey,
+  fetchPage: (params: PaginationParams) => Promise<PaginatedResponse<T>>,
+  options: ServerPaginationOptions<T> = {}
+) {
+  const { itemsPerPage = 10, sort, filters, clientFilter, clientSort } = options;
+  const queryClient = useQueryClient();
+
+  const filterKey = JSON.stringify(filters ?? {});
+  const pageQueryKey = `${filterKey}|${sort ?? ""}|${itemsPerPage}`;
+
+  // Tagged with the query it belongs to, so changing the query starts on page 1
+  const [page, setPage] = useState({ pageQueryKey, page: 1 });
+  const currentPage = page.pageQueryKey === pageQueryKey ? page.page : 1;
+
+  const params: PaginationParams = {
+    page: currentPage,
+    limit: itemsPerPage,
+    sort,
+    filters: filters ?? {},
+  };
+  const fullListKey = [...queryKey, "all"];
+  const isFullList = queryClient.getQueryData(fullListKey) !== undefined;
+
+  const query = useQuery({
+    queryKey: isFullList ? fullListKey : [...queryKey, params],
+    queryFn: async () => {
+      const result = await fetchPage(params);
+      // Remember that this endpoint isn't paginating, so page and filter
+      // changes reuse the full list instead of refetching it
+      if (!result.serverPaginated) queryClient.setQueryData(fullListKey, result);
+      return result;
+    },
+    placeholderData: keepPreviousData,
+  });
+  const response = query.data;
+
+  let localItems: T[] | null = null;
+  if (response && !response.serverPaginated) {
+    localItems = clientFilter ? response.items.filter(clientFilter) : response.items;
+    if (clientSort) localItems = [...localItems].sort(clientSort);
+  }
+
+  const totalItems = localItems ? localItems.length : response?.total ?? 0;
+  const startIndex = (currentPage - 1) * itemsPerPage;
+  const currentItems = localItems
+    ? localItems.slice(startIndex, startIndex + itemsPerPage)
+    : response?.items ?? [];
+
+  const goToPage = (target: number) => {
+    const totalPages = Math.ceil(totalItems / itemsPerPage);
+    if (target >= 1 && target <= totalPages) {
+      setPage({ pageQueryKey, page: target });
+    }
+  };
+
+  return {
+    currentItems,
+    ...getPaginationState(totalItems, currentPage, itemsPerPage),
+    // Every loaded item: the whole list in fallback mode, otherwise this page
+    loadedItems: response?.items ?? [],
+    isServerPaginated: response?.serverPaginated ?? true,
+    isLoading: query.isLoading,
+    error: query.error,
+    goToPage,
+    goToNextPage: () => goToPage(currentPage + 1),
+    goToPreviousPage: () => goToPage(currentPage - 1),
+    goToFirstPage: () => goToPage(1),
+    goToLastPage: () => goToPage(Math.ceil(totalItems / itemsPerPage)),
+    resetToFirstPage: () => setPage({ pageQueryKey, page: 1 }),
+  };
+}
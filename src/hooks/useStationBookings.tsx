@@ -0,0 +1,28 @@
+import { useCallback } from "react";
+import { UseQueryResult, useQueries } from "@tanstack/react-query";
+import { BookingApiResponse } from "@/types/entities";
+import { bookingsQuery } from "@/services/queries";
+
+/**
+ * Bookings at several stations, loaded per station so each list is shared
+ * with the single-station booking queries. Stations still loading or that
+ * fail to load contribute no bookings.
+ */
+export function useStationBookings(stationIds: string[], enabled = true) {
+  // Stable so the combined result only changes when the data does
+  const combine = useCallback(
+    (results: UseQueryResult<BookingApiResponse[]>[]) => ({
+      bookings: results.flatMap((result) => result.data ?? []),
+      isLoading: results.some((result) => result.isLoading),
+    }),
+    []
+  );
+
+  return useQueries({
+    queries: stationIds.map((stationId) => ({
+      ...bookingsQuery(stationId),
+      enabled,
+    })),
+    combine,
+  });
+}
@@ -0,0 +1,56 @@
+import { useCallback } from "react";
+import { UseQueryResult, useQueries } from "@tanstack/react-query";
+import { ScheduleException, StationSchedule } from "@/types/entities";
+import { StationScheduleData } from "@/lib/availability";
+import {
+  scheduleExceptionsQuery,
+  useScheduleExceptions,
+  useWeeklySchedule,
+  weeklyScheduleQuery,
+} from "@/services/queries";
+
+/**
+ * Load the weekly template and exceptions for a station. Either part that
+ * fails to load is left empty, which booking validation treats as no
+ * restriction.
+ */
+export function useStationSchedule(stationId: string | undefined): StationScheduleData {
+  const { data: schedules } = useWeeklySchedule(stationId);
+  const { data: exceptions } = useScheduleExceptions(stationId);
+
+  return { schedules: schedules ?? [], exceptions: exceptions ?? [] };
+}
+
+// The same for several stations at once, keyed by station ID
+export function useStationSchedules(
+  stationIds: string[]
+): Record<string, StationScheduleData> {
+  const stationKey = stationIds.join(",");
+
+  // Stable so the combined record only changes when the data does
+  const combine = useCallback(
+    (results: UseQueryResult<unknown>[]) =>
+      Object.fromEntries(
+        stationKey
+          .split(",")
+          .filter(Boolean)
+          .map((stationId, index) => [
+            stationId,
+            {
+              schedules: (results[index * 2].data ?? []) as StationSchedule[],
+              exceptions: (results[index * 2 + 1].data ??
+                []) as ScheduleException[],
+            },
+          ])
+      ),
+    [stationKey]
+  );
+
+  return useQueries({
+    queries: stationIds.flatMap((stationId) => [
+      weeklyScheduleQuery(stationId),
+      scheduleExceptionsQuery(stationId),
+    ]),
+    combine,
+  });
+}
@@ -0,0 +1,66 @@
+import { useEffect, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
+
+interface ViewParamOptions<T> {
+  // Load an item that isn't in `items`, e.g. one on another page
+  fetchItem?: (id: string) => Promise<T | null | undefined>;
+  // Wait for the list before deciding the item needs fetching
+  isLoading?: boolean;
+}
+
+/**
+ * Open an item referenced by the `?view=<id>` query parameter once the list
+ * has loaded, then drop the parameter so closing the modal doesn't reopen it.
+ * Items missing from the list are fetched with `fetchItem` when given; the
+ * parameter is only dropped once the item is found or the fetch has failed.
+ */
+export function useViewParam<T>(
+  items: T[],
+  getId: (item: T) => string | undefined,
+  onView: (item: T) => void,
+  options: ViewParamOptions<T> = {}
+) {
+  const { fetchItem, isLoading = false } = options;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const viewId = searchParams.get("view");
+  // The ID being fetched, so re-renders don't start the fetch again
+  const fetchingId = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!viewId || fetchingId.current === viewId) return;
+
+    const dropParam = () =>
+      setSearchParams(
+        (current) => {
+          const nextParams = new URLSearchParams(current);
+          nextParams.delete("view");
+          return nextParams;
+        },
+        { replace: true }
+      );
+
+    const item = items.find((i) => getId(i) === viewId);
+    if (item) {
+      onView(item);
+      dropParam();
+      return;
+    }
+
+    if (!fetchItem) {
+      if (items.length > 0) dropParam();
+      return;
+    }
+    if (isLoading) return;
+
+    fetchingId.current = viewId;
+    fetchItem(viewId)
+      .then((fetched) => {
+        if (fetched) onView(fetched);
+      })
+      .catch((error) => console.error("Failed to load item to view:", error))
+      .finally(() => {
+        fetchingId.current = null;
+        dropParam();
+      });
+  }, [viewId, items, getId, onView, fetchItem, isLoading, setSearchParams]);
+}
@@ -0,0 +1,48 @@
+import { useMemo } from "react";
+import { useSettings } from "@/contexts/SettingsContext";
+import {
+  useBookings,
+  useStationsForAssignment,
+  useWaitlist,
+} from "@/services/queries";
+import { useStationSchedules } from "@/hooks/useStationSchedule";
+import { MatchedWaitlistEntry, matchWaitlist } from "@/lib/waitlist";
+
+/**
+ * Waiting entries in priority order, each matched against current bookings
+ * and opening hours. Scoped to one station when `stationId` is given.
+ */
+export function useWaitlistMatches(stationId?: string, enabled = true) {
+  const { rules } = useSettings();
+  const waitlistQuery = useWaitlist(stationId, enabled);
+  const stationsQuery = useStationsForAssignment(enabled);
+  const bookingsQuery = useBookings(stationId, enabled);
+
+  const entries = waitlistQuery.data;
+  const stations = stationsQuery.data;
+  const bookings = bookingsQuery.data;
+  const stationIds = useMemo(
+    () =>
+      [...new Set((entries ?? []).map((entry) => entry.stationId))].sort(),
+    [entries]
+  );
+  const schedules = useStationSchedules(stationIds);
+
+  const matches: MatchedWaitlistEntry[] = useMemo(
+    () =>
+      matchWaitlist(entries ?? [], {
+        stations: stations ?? [],
+        bookings: bookings ?? [],
+        schedules,
+        rules,
+      }),
+    [entries, stations, bookings, schedules, rules]
+  );
+
+  return {
+    matches,
+    isLoading:
+      waitlistQuery.isLoading || stationsQuery.isLoading || bookingsQuery.isLoading,
+    error: waitlistQuery.error,
+  };
+}
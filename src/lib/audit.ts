@@ -0,0 +1,92 @@
+import { AuditLogEntry, AuditLogFilters } from "@/types/entities";
+
+export interface AuditChangeRow {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Flatten an audit `changes` payload into field-level before/after rows.
+ * Accepts either `{ before: {...}, after: {...} }` snapshots or per-field
+ * `{ field: { from, to } }` entries; anything else is shown as a new value.
+ */
+export function getAuditChangeRows(
+  changes: AuditLogEntry["changes"]
+): AuditChangeRow[] {
+  if (!changes) return [];
+
+  if (isRecord(changes.before) || isRecord(changes.after)) {
+    const before = isRecord(changes.before) ? changes.before : {};
+    const after = isRecord(changes.after) ? changes.after : {};
+    const fields = Array.from(
+      new Set([...Object.keys(before), ...Object.keys(after)])
+    );
+
+    return fields
+      .filter(
+        (field) => JSON.stringify(before[field]) !== JSON.stringify(after[field])
+      )
+      .map((field) => ({ field, before: before[field], after: after[field] }));
+  }
+
+  return Object.entries(changes).map(([field, value]) => {
+    if (isRecord(value) && ("from" in value || "to" in value)) {
+      return { field, before: value.from, after: value.to };
+    }
+    return { field, after: value };
+  });
+}
+
+export const formatAuditValue = (value: unknown) => {
+  if (value === undefined) return "—";
+  if (value === null) return "null";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Route that opens the affected entity in its list page.
+ */
+export function getAuditEntityLink(entry: AuditLogEntry): string {
+  const view = `?view=${encodeURIComponent(entry.entityId)}`;
+
+  switch (entry.entityType) {
+    case "Booking":
+      return `/bookings${view}`;
+    case "EVOwner":
+      return `/owners${view}`;
+    case "Station":
+      return `/stations${view}`;
+    case "WebUser":
+      return `/users${view}`;
+    case "Waitlist":
+      return `/waitlist${view}`;
+  }
+}
+
+export function filterAuditLogs(
+  entries: AuditLogEntry[],
+  filters: AuditLogFilters
+): AuditLogEntry[] {
+  const actor = filters.actor?.trim().toLowerCase();
+  const from = filters.dateFrom ? new Date(filters.dateFrom) : null;
+  const to = filters.dateTo ? new Date(filters.dateTo) : null;
+
+  return entries.filter((entry) => {
+    const timestamp = new Date(entry.timestamp);
+
+    return (
+      (!filters.entityType || entry.entityType === filters.entityType) &&
+      (!filters.action || entry.action === filters.action) &&
+      (!actor ||
+        entry.actorName?.toLowerCase().includes(actor) ||
+        entry.actorId?.toLowerCase().includes(actor)) &&
+      (!from || timestamp >= from) &&
+      (!to || timestamp <= to)
+    );
+  });
+}
@@ -0,0 +1,164 @@
+import { addMinutes } from "date-fns";
+import {
+  BookingApiResponse,
+  ScheduleException,
+  StationApiResponse,
+  StationSchedule,
+} from "@/types/entities";
+import { isActiveBooking } from "@/lib/dashboard";
+import { isOpenBetween, resolveEffectiveSchedule } from "@/lib/schedule";
+
+export interface StationSlot {
+  slotId: string;
+  slotType: "AC" | "DC";
+}
+
+export type SlotState = "free" | "occupied" | "closed";
+
+export interface SlotOccupancy {
+  slotId: string;
+  slotType: "AC" | "DC";
+  state: SlotState;
+  booking?: BookingApiResponse; // Set when the slot is occupied
+}
+
+export interface StationAvailability {
+  stationId: string;
+  isOpen: boolean;
+  slots: SlotOccupancy[];
+  totalSlots: number;
+  availableSlots: number;
+  occupiedSlots: number;
+}
+
+export interface StationScheduleData {
+  schedules: StationSchedule[];
+  exceptions: ScheduleException[];
+}
+
+// Slot IDs from the API, numbered like the schedule editor when missing
+const getSlotIds = (ids: string[] | undefined, count: number, type: "AC" | "DC") =>
+  Array.isArray(ids) && ids.length > 0
+    ? ids
+    : Array.from({ length: count }, (_, i) => `${type}-${i + 1}`);
+
+// Every AC and DC slot of a station
+export const getStationSlots = (station: StationApiResponse): StationSlot[] => [
+  ...getSlotIds(station.acSlots, Number(station.acChargingSlots ?? 0), "AC").map(
+    (slotId) => ({ slotId, slotType: "AC" as const })
+  ),
+  ...getSlotIds(station.dcSlots, Number(station.dcChargingSlots ?? 0), "DC").map(
+    (slotId) => ({ slotId, slotType: "DC" as const })
+  ),
+];
+
+/**
+ * Per-slot occupancy of a station at a moment in time. Slots are closed when
+ * the station is inactive or the slot is outside its effective schedule. Pending and approved
+ * bookings occupy their slot; bookings without a slot ID take the first free
+ * slot of their type.
+ */
+export function getStationAvailability(
+  station: StationApiResponse,
+  bookings: BookingApiResponse[],
+  schedule: StationScheduleData = { schedules: [], exceptions: [] },
+  at: Date = new Date()
+): StationAvailability {
+  const slots: SlotOccupancy[] = getStationSlots(station).map((slot) => ({
+    ...slot,
+    state: "free" as SlotState,
+  }));
+
+  const effective = resolveEffectiveSchedule(
+    schedule.schedules,
+    schedule.exceptions,
+    at,
+    addMinutes(at, 1),
+    slots.map((slot) => slot.slotId)
+  );
+
+  slots.forEach((slot) => {
+    if (station.status !== "Active" || !isOpenBetween(effective.slots[slot.slotId], at)) {
+      slot.state = "closed";
+    }
+  });
+
+  const current = bookings.filter(
+    (booking) =>
+      booking.stationId === station.id &&
+      isActiveBooking(booking) &&
+      new Date(booking.startTime) <= at &&
+      new Date(booking.endTime) > at
+  );
+
+  // Bookings with a slot ID first, so unassigned ones fill the remaining slots
+  [...current]
+    .sort((a, b) => Number(!a.slotId) - Number(!b.slotId))
+    .forEach((booking) => {
+      const slot =
+        slots.find((s) => s.slotId === booking.slotId) ??
+        slots.find((s) => s.slotType === booking.slotType && !s.booking);
+      if (slot && !slot.booking) {
+        slot.booking = booking;
+        slot.state = "occupied";
+      }
+    });
+
+  const occupiedSlots = slots.filter((s) => s.state === "occupied").length;
+  const availableSlots = slots.filter((s) => s.state === "free").length;
+
+  return {
+    stationId: station.id,
+    isOpen: slots.some((s) => s.state !== "closed"),
+    slots,
+    totalSlots: slots.length,
+    availableSlots,
+    occupiedSlots,
+  };
+}
+
+// A booking, or a hold on a slot, that takes capacity for a time range
+export type SlotReservation = Pick<
+  BookingApiResponse,
+  "stationId" | "slotId" | "slotType" | "startTime" | "endTime"
+>;
+
+/**
+ * First slot of the given type that is open and unreserved for the whole of
+ * [startAt, endAt), or null when none is. `reservations` should only hold
+ * active bookings; ones without a slot ID still use up a slot of their type.
+ */
+export function findFreeSlot(
+  station: StationApiResponse,
+  slotType: "AC" | "DC",
+  startAt: Date,
+  endAt: Date,
+  reservations: SlotReservation[],
+  schedule: StationScheduleData = { schedules: [], exceptions: [] }
+): string | null {
+  const slots = getStationSlots(station);
+  const effective = resolveEffectiveSchedule(
+    schedule.schedules,
+    schedule.exceptions,
+    startAt,
+    endAt,
+    slots.map((slot) => slot.slotId)
+  );
+  const taken = reservations.filter(
+    (reservation) =>
+      reservation.stationId === station.id &&
+      new Date(reservation.startTime) < endAt &&
+      new Date(reservation.endTime) > startAt
+  );
+  const freeSlots = slots.filter(
+    (slot) =>
+      slot.slotType === slotType &&
+      isOpenBetween(effective.slots[slot.slotId], startAt, endAt) &&
+      !taken.some((reservation) => reservation.slotId === slot.slotId)
+  );
+  const unassigned = taken.filter(
+    (reservation) => !reservation.slotId && reservation.slotType === slotType
+  ).length;
+
+  return freeSlots[unassigned]?.slotId ?? null;
+}
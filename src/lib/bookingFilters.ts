@@ -0,0 +1,170 @@
+import { endOfDay, parseISO, startOfDay } from "date-fns";
+import {
+  Booking,
+  BookingFilters,
+  BookingSort,
+  PaginationParams,
+} from "@/types/entities";
+import { toApiBookingStatus } from "@/lib/bookingStatus";
+
+export const DEFAULT_BOOKING_SORT: BookingSort = {
+  field: "startAt",
+  direction: "desc",
+};
+
+const BOOKING_STATUSES: Booking["status"][] = [
+  "PENDING",
+  "APPROVED",
+  "IN_PROGRESS",
+  "COMPLETED",
+  "NO_SHOW",
+  "CANCELLED",
+];
+
+// Query string keys for each filter
+const QUERY_KEYS: Record<keyof BookingFilters, string> = {
+  search: "q",
+  status: "status",
+  stationId: "station",
+  ownerNIC: "owner",
+  type: "type",
+  dateFrom: "from",
+  dateTo: "to",
+};
+
+// API field each sort field orders by when the server sorts
+const API_SORT_FIELDS: Record<BookingSort["field"], string> = {
+  startAt: "startTime",
+  createdAt: "createdAt",
+  station: "stationName",
+};
+
+export function matchesBookingFilters(
+  booking: Booking,
+  filters: BookingFilters
+): boolean {
+  const search = filters.search?.trim().toLowerCase();
+  const ownerNIC = filters.ownerNIC?.trim().toLowerCase();
+  const from = filters.dateFrom ? startOfDay(parseISO(filters.dateFrom)) : null;
+  const to = filters.dateTo ? endOfDay(parseISO(filters.dateTo)) : null;
+  const startAt = new Date(booking.startAt);
+
+  return (
+    (!search ||
+      booking.ownerNIC.toLowerCase().includes(search) ||
+      booking.ownerName?.toLowerCase().includes(search) ||
+      booking.stationName?.toLowerCase().includes(search)) &&
+    (!filters.status || booking.status === filters.status) &&
+    (!filters.stationId || booking.stationId === filters.stationId) &&
+    (!ownerNIC || booking.ownerNIC.toLowerCase().includes(ownerNIC)) &&
+    (!filters.type || booking.chargingSlot?.type === filters.type) &&
+    (!from || startAt >= from) &&
+    (!to || startAt <= to)
+  );
+}
+
+export function filterBookings(
+  bookings: Booking[],
+  filters: BookingFilters
+): Booking[] {
+  return bookings.filter((booking) => matchesBookingFilters(booking, filters));
+}
+
+export function compareBookings(a: Booking, b: Booking, sort: BookingSort): number {
+  const direction = sort.direction === "asc" ? 1 : -1;
+
+  switch (sort.field) {
+    case "station":
+      return direction * (a.stationName ?? "").localeCompare(b.stationName ?? "");
+    case "createdAt":
+      return (
+        direction *
+        (new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+      );
+    default:
+      return (
+        direction * (new Date(a.startAt).getTime() - new Date(b.startAt).getTime())
+      );
+  }
+}
+
+export function sortBookings(bookings: Booking[], sort: BookingSort): Booking[] {
+  return [...bookings].sort((a, b) => compareBookings(a, b, sort));
+}
+
+// Filters and sort as params for the paged bookings endpoint
+export function toBookingPageParams(
+  filters: BookingFilters,
+  sort: BookingSort
+): Pick<PaginationParams, "filters" | "sort"> {
+  return {
+    filters: {
+      search: filters.search?.trim() || undefined,
+      status: filters.status ? toApiBookingStatus(filters.status) : undefined,
+      stationId: filters.stationId,
+      ownerNIC: filters.ownerNIC?.trim() || undefined,
+      slotType: filters.type,
+      dateFrom: filters.dateFrom,
+      dateTo: filters.dateTo,
+    },
+    sort: `${API_SORT_FIELDS[sort.field]}:${sort.direction}`,
+  };
+}
+
+/**
+ * Read booking filters and sort from the query string, ignoring values that
+ * aren't valid so hand-edited links still load.
+ */
+export function parseBookingQuery(params: URLSearchParams): {
+  filters: BookingFilters;
+  sort: BookingSort;
+} {
+  const get = (key: keyof BookingFilters) =>
+    params.get(QUERY_KEYS[key]) || undefined;
+  const status = get("status") as Booking["status"];
+  const type = get("type");
+  const [field, direction] = (params.get("sort") ?? "").split(":");
+
+  return {
+    filters: {
+      search: get("search"),
+      status: BOOKING_STATUSES.includes(status) ? status : undefined,
+      stationId: get("stationId"),
+      ownerNIC: get("ownerNIC"),
+      type: type === "AC" || type === "DC" ? type : undefined,
+      dateFrom: get("dateFrom"),
+      dateTo: get("dateTo"),
+    },
+    sort:
+      ["startAt", "createdAt", "station"].includes(field) &&
+      (direction === "asc" || direction === "desc")
+        ? { field: field as BookingSort["field"], direction }
+        : DEFAULT_BOOKING_SORT,
+  };
+}
+
+// Write filters and sort into the query string, keeping unrelated params
+export function toBookingQuery(
+  current: URLSearchParams,
+  filters: BookingFilters,
+  sort: BookingSort
+): URLSearchParams {
+  const params = new URLSearchParams(current);
+
+  (Object.keys(QUERY_KEYS) as (keyof BookingFilters)[]).forEach((key) => {
+    const value = filters[key];
+    if (value) params.set(QUERY_KEYS[key], value);
+    else params.delete(QUERY_KEYS[key]);
+  });
+
+  if (
+    sort.field === DEFAULT_BOOKING_SORT.field &&
+    sort.direction === DEFAULT_BOOKING_SORT.direction
+  ) {
+    params.delete("sort");
+  } else {
+    params.set("sort", `${sort.field}:${sort.direction}`);
+  }
+
+  return params;
+}
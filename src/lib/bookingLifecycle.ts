@@ -0,0 +1,118 @@
+import { addMinutes, format, subMinutes } from "date-fns";
+import { UserRole } from "@/types/auth";
+import { Booking } from "@/types/entities";
+import { BusinessRules } from "@/types/settings";
+import { isBeforeModificationCutoff } from "@/lib/bookingPolicy";
+
+export type BookingTransition =
+  | "approve"
+  | "cancel"
+  | "checkIn"
+  | "markNoShow"
+  | "complete";
+
+interface TransitionRule {
+  from: Booking["status"][];
+  to: Booking["status"];
+  label: string;
+  roles: UserRole[];
+  // Why the transition can't happen yet, or null when it can
+  blockedReason?: (booking: Booking, rules: BusinessRules, now: Date) => string | null;
+}
+
+// How early before the booked start an owner may check in
+const CHECK_IN_OPENS_MINUTES = 30;
+
+// Latest moment an owner can check in before counting as a no-show
+export const getNoShowDeadline = (booking: Booking, rules: BusinessRules) =>
+  addMinutes(new Date(booking.startAt), rules.noShowGraceMinutes);
+
+/**
+ * Allowed booking status changes. Back office manages reservations;
+ * checking in happens at the charger, so only station operators do it.
+ */
+export const BOOKING_TRANSITIONS: Record<BookingTransition, TransitionRule> = {
+  approve: {
+    from: ["PENDING"],
+    to: "APPROVED",
+    label: "Approve",
+    roles: ["Backoffice", "StationOperator"],
+  },
+  cancel: {
+    from: ["PENDING", "APPROVED"],
+    to: "CANCELLED",
+    label: "Cancel",
+    roles: ["Backoffice", "StationOperator"],
+    blockedReason: (booking, rules, now) =>
+      isBeforeModificationCutoff(booking.startAt, rules, now)
+        ? null
+        : `Cancellations need ${rules.modificationCutoffHours} hours notice`,
+  },
+  checkIn: {
+    from: ["APPROVED"],
+    to: "IN_PROGRESS",
+    label: "Check In",
+    roles: ["StationOperator"],
+    blockedReason: (booking, _rules, now) => {
+      const opensAt = subMinutes(new Date(booking.startAt), CHECK_IN_OPENS_MINUTES);
+      if (now < opensAt) return `Check-in opens at ${format(opensAt, "MMM d, HH:mm")}`;
+      if (now >= new Date(booking.endAt)) return "The booked time has ended";
+      return null;
+    },
+  },
+  markNoShow: {
+    from: ["APPROVED"],
+    to: "NO_SHOW",
+    label: "No-Show",
+    roles: ["Backoffice", "StationOperator"],
+    blockedReason: (booking, rules, now) => {
+      const deadline = getNoShowDeadline(booking, rules);
+      return now < deadline
+        ? `Can be marked as a no-show after ${format(deadline, "MMM d, HH:mm")}`
+        : null;
+    },
+  },
+  complete: {
+    from: ["IN_PROGRESS"],
+    to: "COMPLETED",
+    label: "Complete",
+    roles: ["Backoffice", "StationOperator"],
+  },
+};
+
+export interface AvailableTransition {
+  transition: BookingTransition;
+  to: Booking["status"];
+  label: string;
+  blockedReason: string | null;
+}
+
+/**
+ * Transitions a role may take from the booking's current status. Ones that
+ * are allowed but not yet possible carry the reason they are blocked.
+ */
+export function getBookingTransitions(
+  booking: Booking,
+  role: UserRole | undefined,
+  rules: BusinessRules,
+  now = new Date()
+): AvailableTransition[] {
+  return (Object.keys(BOOKING_TRANSITIONS) as BookingTransition[])
+    .filter((transition) => {
+      const rule = BOOKING_TRANSITIONS[transition];
+      return rule.from.includes(booking.status) && !!role && rule.roles.includes(role);
+    })
+    .map((transition) => {
+      const rule = BOOKING_TRANSITIONS[transition];
+      return {
+        transition,
+        to: rule.to,
+        label: rule.label,
+        blockedReason: rule.blockedReason?.(booking, rules, now) ?? null,
+      };
+    });
+}
+
+// Statuses a booking never leaves
+export const isTerminalBookingStatus = (status: Booking["status"]) =>
+  status === "COMPLETED" || status === "NO_SHOW" || status === "CANCELLED";
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { StationSchedule } from "@/types/entities";
+import { DEFAULT_BUSINESS_RULES } from "@/lib/settings";
+import { validateBooking } from "@/lib/bookingPolicy";
+
+// Sunday 1 June 2025, noon
+const now = new Date(2025, 5, 1, 12, 0);
+const at = (day: number, hour: number, minute = 0) =>
+  new Date(2025, 5, day, hour, minute);
+
+const weekly = (
+  weekday: StationSchedule["weekday"],
+  start: string,
+  end: string
+): StationSchedule => ({
+  stationId: "station-1",
+  weekday,
+  windows: [{ start, end, availableSlots: 0 }],
+});
+
+const context = { rules: DEFAULT_BUSINESS_RULES, now };
+const codes = (violations: ReturnType<typeof validateBooking>) =>
+  violations.map((violation) => violation.code);
+
+describe("validateBooking", () => {
+  it("allows a booking inside the station's opening hours", () => {
+    const violations = validateBooking(
+      { startAt: at(2, 10), endAt: at(2, 12) },
+      { ...context, schedules: [weekly(1, "08:00", "18:00")] }
+    );
+    expect(violations).toEqual([]);
+  });
+
+  it("treats a station without a schedule as always open", () => {
+    const violations = validateBooking({ startAt: at(2, 2), endAt: at(2, 4) }, context);
+    expect(violations).toEqual([]);
+  });
+
+  it("rejects an end time before the start and a start in the past", () => {
+    const violations = validateBooking({ startAt: at(1, 10), endAt: at(1, 9) }, context);
+    expect(codes(violations)).toEqual(["END_BEFORE_START", "START_IN_PAST"]);
+  });
+
+  it("rejects bookings beyond the booking window", () => {
+    const violations = validateBooking({ startAt: at(20, 10), endAt: at(20, 11) }, context);
+    expect(codes(violations)).toEqual(["OUTSIDE_BOOKING_WINDOW"]);
+  });
+
+  it("reports a date closed by an exception", () => {
+    const violations = validateBooking(
+      { startAt: at(2, 10), endAt: at(2, 12) },
+      {
+        ...context,
+        schedules: [weekly(1, "08:00", "18:00")],
+        exceptions: [{ stationId: "station-1", date: "2025-06-02", windows: [] }],
+      }
+    );
+    expect(codes(violations)).toEqual(["STATION_CLOSED"]);
+  });
+
+  it("allows a booking in an overnight window that started the night before", () => {
+    const violations = validateBooking(
+      { startAt: at(2, 1), endAt: at(2, 3) },
+      { ...context, schedules: [weekly(0, "22:00", "06:00")] }
+    );
+    expect(violations).toEqual([]);
+  });
+
+  it("reports a booking outside the opening hours", () => {
+    const violations = validateBooking(
+      { startAt: at(2, 17), endAt: at(2, 19) },
+      { ...context, schedules: [weekly(1, "08:00", "18:00")] }
+    );
+    expect(violations).toEqual([
+      {
+        code: "OUTSIDE_SCHEDULE",
+        field: "startTime",
+        message: "Outside station opening hours (08:00–18:00)",
+      },
+    ]);
+  });
+
+  it("rejects bookings for deactivated owners and inactive stations", () => {
+    const violations = validateBooking(
+      { startAt: at(2, 10), endAt: at(2, 12) },
+      { ...context, owner: { status: "Deactivated" }, station: { status: "INACTIVE" } }
+    );
+    expect(codes(violations)).toEqual(["OWNER_DEACTIVATED", "STATION_INACTIVE"]);
+  });
+});
@@ -0,0 +1,208 @@
+import { addDays, endOfDay, format, startOfDay } from "date-fns";
+import { ScheduleException, StationSchedule } from "@/types/entities";
+import { BusinessRules } from "@/types/settings";
+import { isOpenBetween, resolveEffectiveSchedule } from "@/lib/schedule";
+
+export type PolicyViolationCode =
+  | "END_BEFORE_START"
+  | "START_IN_PAST"
+  | "OUTSIDE_BOOKING_WINDOW"
+  | "SESSION_TOO_LONG"
+  | "MODIFICATION_CUTOFF"
+  | "STATION_INACTIVE"
+  | "STATION_CLOSED"
+  | "OUTSIDE_SCHEDULE"
+  | "OWNER_DEACTIVATED";
+
+// Booking form fields a violation is reported against
+export type PolicyViolationField =
+  | "ownerNIC"
+  | "stationId"
+  | "date"
+  | "startTime"
+  | "endTime";
+
+export interface PolicyViolation {
+  code: PolicyViolationCode;
+  field: PolicyViolationField;
+  message: string;
+}
+
+export interface ProposedBooking {
+  startAt: Date;
+  endAt: Date;
+}
+
+export interface BookingPolicyContext {
+  rules: BusinessRules;
+  now?: Date;
+  // Accepts both entity ("ACTIVE") and API ("Active") station statuses
+  station?: { status: string } | null;
+  owner?: { status: "Active" | "Deactivated" } | null;
+  schedules?: StationSchedule[];
+  exceptions?: ScheduleException[];
+  // Start time of the booking being edited, checked against the cutoff
+  originalStartAt?: string | Date;
+}
+
+const MS_PER_HOUR = 1000 * 60 * 60;
+
+// Hours from `now` until the given start time (negative once it has passed)
+export const getHoursUntil = (startAt: string | Date, now = new Date()) =>
+  (new Date(startAt).getTime() - now.getTime()) / MS_PER_HOUR;
+
+/**
+ * Whether a booking starting at `startAt` can still be modified or cancelled
+ * under the configured notice period.
+ */
+export const isBeforeModificationCutoff = (
+  startAt: string | Date,
+  rules: BusinessRules,
+  now = new Date()
+) => getHoursUntil(startAt, now) >= rules.modificationCutoffHours;
+
+// Last moment a new booking may start under the booking window
+export const getBookingWindowEnd = (rules: BusinessRules, now = new Date()) =>
+  endOfDay(addDays(now, rules.bookingWindowDays));
+
+// Whether a calendar day can be picked for a new booking
+export const isDateWithinBookingWindow = (
+  date: Date,
+  rules: BusinessRules,
+  now = new Date()
+) => date >= startOfDay(now) && date <= getBookingWindowEnd(rules, now);
+
+const isStationActive = (status: string) =>
+  status === "ACTIVE" || status === "Active";
+
+/**
+ * Validate a proposed booking against the business rules, station status,
+ * station schedule and owner status. Returns every violation found; an empty
+ * list means the booking is allowed.
+ */
+export function validateBooking(
+  booking: ProposedBooking,
+  context: BookingPolicyContext
+): PolicyViolation[] {
+  const {
+    rules,
+    now = new Date(),
+    station,
+    owner,
+    schedules = [],
+    exceptions = [],
+    originalStartAt,
+  } = context;
+  const violations: PolicyViolation[] = [];
+
+  if (owner?.status === "Deactivated") {
+    violations.push({
+      code: "OWNER_DEACTIVATED",
+      field: "ownerNIC",
+      message: "This EV owner is deactivated and cannot make bookings",
+    });
+  }
+
+  if (station && !isStationActive(station.status)) {
+    violations.push({
+      code: "STATION_INACTIVE",
+      field: "stationId",
+      message: "This station is deactivated and not accepting bookings",
+    });
+  }
+
+  if (
+    originalStartAt &&
+    !isBeforeModificationCutoff(originalStartAt, rules, now)
+  ) {
+    violations.push({
+      code: "MODIFICATION_CUTOFF",
+      field: "date",
+      message: `Bookings can only be modified at least ${rules.modificationCutoffHours} hours before they start`,
+    });
+  }
+
+  if (booking.endAt <= booking.startAt) {
+    violations.push({
+      code: "END_BEFORE_START",
+      field: "endTime",
+      message: "End time must be after start time",
+    });
+  } else if (
+    (booking.endAt.getTime() - booking.startAt.getTime()) / MS_PER_HOUR >
+    rules.maxSessionHours
+  ) {
+    violations.push({
+      code: "SESSION_TOO_LONG",
+      field: "endTime",
+      message: `Sessions cannot exceed ${rules.maxSessionHours} hours`,
+    });
+  }
+
+  if (booking.startAt < now) {
+    violations.push({
+      code: "START_IN_PAST",
+      field: "startTime",
+      message: "Start time must be in the future",
+    });
+  } else if (booking.startAt > getBookingWindowEnd(rules, now)) {
+    violations.push({
+      code: "OUTSIDE_BOOKING_WINDOW",
+      field: "date",
+      message: `Bookings can only be made up to ${rules.bookingWindowDays} days in advance`,
+    });
+  } else if (
+    originalStartAt &&
+    !isBeforeModificationCutoff(booking.startAt, rules, now)
+  ) {
+    violations.push({
+      code: "MODIFICATION_CUTOFF",
+      field: "startTime",
+      message: `The new start time must be at least ${rules.modificationCutoffHours} hours from now`,
+    });
+  }
+
+  // Opening hours on the start date, including windows carried over from
+  // the night before
+  const day = resolveEffectiveSchedule(
+    schedules,
+    exceptions,
+    startOfDay(booking.startAt),
+    endOfDay(booking.startAt)
+  );
+  if (day.open.length === 0) {
+    violations.push({
+      code: "STATION_CLOSED",
+      field: "date",
+      message: "The station is closed on this date",
+    });
+  } else if (
+    booking.endAt > booking.startAt &&
+    !isOpenBetween(
+      resolveEffectiveSchedule(schedules, exceptions, booking.startAt, booking.endAt).open,
+      booking.startAt,
+      booking.endAt
+    )
+  ) {
+    violations.push({
+      code: "OUTSIDE_SCHEDULE",
+      field: "startTime",
+      message: `Outside station opening hours (${day.open
+        .map((interval) => `${format(interval.start, "HH:mm")}–${format(interval.end, "HH:mm")}`)
+        .join(", ")})`,
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Whether an existing booking can still be modified or cancelled.
+ */
+export const canModifyBooking = (
+  booking: { startAt: string; status: string },
+  rules: BusinessRules,
+  now = new Date()
+) =>
+  isBeforeModificationCutoff(booking.startAt, rules, now) &&
+  booking.status === "PENDING";
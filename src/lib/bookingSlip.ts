@@ -0,0 +1,132 @@
+import { Booking } from "@/types/entities";
+import { formatInTimezone } from "@/lib/settings";
+import { formatBookingStatus } from "@/lib/bookingStatus";
+
+// The API sends bare base64 PNG data, but tolerate a full data URL too
+export const getQrImageSrc = (qrCodeBase64: string) =>
+  qrCodeBase64.startsWith("data:")
+    ? qrCodeBase64
+    : `data:image/png;base64,${qrCodeBase64}`;
+
+// Label/value lines printed under the QR code
+const getSlipLines = (booking: Booking, timezone: string): [string, string][] => {
+  const date = formatInTimezone(booking.startAt, timezone, {
+    weekday: "short",
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+  const time = (value: string) =>
+    formatInTimezone(value, timezone, { hour: "2-digit", minute: "2-digit" });
+
+  return [
+    ["Booking ID", booking.id],
+    ["EV Owner", `${booking.ownerName ?? ""} (${booking.ownerNIC})`.trim()],
+    ["Station", booking.stationName || booking.stationId],
+    [
+      "Slot",
+      booking.chargingSlot
+        ? `${booking.chargingSlot.type} · ${booking.chargingSlot.slotId ?? booking.chargingSlot.slotNumber}`
+        : "Auto-assigned",
+    ],
+    ["Date", date],
+    ["Time", `${time(booking.startAt)} – ${time(booking.endAt)} (${timezone})`],
+    ["Status", formatBookingStatus(booking.status)],
+  ];
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(
+    /[&<>"']/g,
+    (char) =>
+      ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[char]
+  );
+
+/**
+ * Open the booking confirmation slip in a new window and print it.
+ */
+export const printBookingSlip = (booking: Booking, timezone: string) => {
+  const slipWindow = window.open("", "_blank", "width=480,height=720");
+  if (!slipWindow) throw new Error("The print window was blocked by the browser");
+
+  const rows = getSlipLines(booking, timezone)
+    .map(
+      ([label, value]) =>
+        `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`
+    )
+    .join("");
+
+  slipWindow.document.write(`<!doctype html>
+<html>
+  <head>
+    <title>Booking ${escapeHtml(booking.id)}</title>
+    <style>
+      body { font-family: system-ui, sans-serif; margin: 32px; color: #111; }
+      h1 { font-size: 20px; margin: 0 0 16px; }
+      img { display: block; width: 220px; height: 220px; margin: 0 auto 24px; }
+      table { width: 100%; border-collapse: collapse; font-size: 14px; }
+      th { text-align: left; color: #555; font-weight: 500; padding: 6px 12px 6px 0; white-space: nowrap; }
+      td { padding: 6px 0; }
+      p { margin-top: 24px; font-size: 12px; color: #555; }
+    </style>
+  </head>
+  <body onload="window.print()">
+    <h1>EV Charging Booking Confirmation</h1>
+    ${booking.qrCodeBase64 ? `<img src="${escapeHtml(getQrImageSrc(booking.qrCodeBase64))}" alt="Booking QR code" />` : ""}
+    <table>${rows}</table>
+    <p>Show this QR code to the station operator when you arrive.</p>
+  </body>
+</html>`);
+  slipWindow.document.close();
+  slipWindow.focus();
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to load the booking QR code"));
+    image.src = src;
+  });
+
+/**
+ * Render the confirmation slip to a PNG and download it.
+ */
+export const downloadBookingSlip = async (booking: Booking, timezone: string) => {
+  const lines = getSlipLines(booking, timezone);
+  const width = 480;
+  const qrSize = booking.qrCodeBase64 ? 240 : 0;
+  const lineHeight = 26;
+  const height = 72 + qrSize + 24 + lines.length * lineHeight + 32;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported in this browser");
+
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  context.fillStyle = "#111111";
+  context.font = "600 20px system-ui, sans-serif";
+  context.fillText("EV Charging Booking Confirmation", 24, 44);
+
+  if (booking.qrCodeBase64) {
+    const qr = await loadImage(getQrImageSrc(booking.qrCodeBase64));
+    context.drawImage(qr, (width - qrSize) / 2, 72, qrSize, qrSize);
+  }
+
+  lines.forEach(([label, value], index) => {
+    const y = 72 + qrSize + 24 + index * lineHeight + 16;
+    context.fillStyle = "#555555";
+    context.font = "14px system-ui, sans-serif";
+    context.fillText(label, 24, y);
+    context.fillStyle = "#111111";
+    context.fillText(value, 132, y, width - 156);
+  });
+
+  const link = document.createElement("a");
+  link.href = canvas.toDataURL("image/png");
+  link.download = `booking-${booking.id}.png`;
+  link.click();
+};
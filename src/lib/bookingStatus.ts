@@ -0,0 +1,40 @@
+import { Booking, BookingApiResponse } from "@/types/entities";
+
+// Badge colors per booking status
+export const BOOKING_STATUS_BADGE_CLASSES: Record<Booking["status"], string> = {
+  PENDING: "bg-warning/10 text-warning border-warning/20",
+  APPROVED: "bg-success/10 text-success border-success/20",
+  IN_PROGRESS: "bg-primary/10 text-primary border-primary/20",
+  COMPLETED: "bg-accent/10 text-accent border-accent/20",
+  NO_SHOW: "bg-destructive/10 text-destructive border-destructive/20",
+  CANCELLED: "bg-muted text-muted-foreground border-muted/20",
+};
+
+// Stronger variant of the badge colors for timeline bars
+export const BOOKING_STATUS_BAR_CLASSES: Record<Booking["status"], string> = {
+  PENDING: "bg-warning/20 text-warning border-warning",
+  APPROVED: "bg-success/20 text-success border-success",
+  IN_PROGRESS: "bg-primary/20 text-primary border-primary",
+  COMPLETED: "bg-accent/20 text-accent border-accent",
+  NO_SHOW: "bg-destructive/20 text-destructive border-destructive",
+  CANCELLED: "bg-muted text-muted-foreground border-muted-foreground/40",
+};
+
+// "IN_PROGRESS" -> "in progress", for badges and summaries
+export const formatBookingStatus = (status: Booking["status"]) =>
+  status.toLowerCase().replace(/_/g, " ");
+
+// "IN_PROGRESS" -> "InProgress", the casing the API uses
+export const toApiBookingStatus = (
+  status: Booking["status"]
+): BookingApiResponse["status"] =>
+  status
+    .split("_")
+    .map((word) => word.charAt(0) + word.slice(1).toLowerCase())
+    .join("") as BookingApiResponse["status"];
+
+// "InProgress" -> "IN_PROGRESS"
+export const fromApiBookingStatus = (
+  status: BookingApiResponse["status"]
+): Booking["status"] =>
+  status.replace(/([a-z])([A-Z])/g, "$1_$2").toUpperCase() as Booking["status"];
@@ -0,0 +1,38 @@
+import { Booking, BookingApiResponse } from "@/types/entities";
+import { fromApiBookingStatus } from "@/lib/bookingStatus";
+
+// Transform API response to local Booking interface
+export const transformBookingApiResponse = (
+  apiBooking: BookingApiResponse
+): Booking => {
+  return {
+    id: apiBooking.id,
+    ownerNIC: apiBooking.evOwnerNIC,
+    ownerId: apiBooking.evOwnerId,
+    ownerName: apiBooking.evOwnerName,
+    stationId: apiBooking.stationId,
+    stationName: apiBooking.stationName
+      ?.replace(/Charging Station/gi, "")
+      .trim(),
+    chargingSlot: apiBooking.slotId
+      ? {
+          type: apiBooking.slotType,
+          slotNumber: parseInt(apiBooking.slotId.replace(/\D/g, "")) || 0,
+          slotId: apiBooking.slotId,
+        }
+      : undefined,
+    status: fromApiBookingStatus(apiBooking.status),
+    startAt: apiBooking.startTime,
+    endAt: apiBooking.endTime,
+    actualStartAt: apiBooking.actualStartTime,
+    actualEndAt: apiBooking.actualEndTime,
+    createdByUserId: "", // Not provided in API response
+    createdAt: apiBooking.createdAt,
+    updatedAt: apiBooking.updatedAt,
+    qrCodeBase64: apiBooking.qrCodeBase64,
+    cancelReason: apiBooking.cancellationReason,
+    cancelledBy: apiBooking.cancelledByName,
+    cancelledAt: apiBooking.cancelledAt,
+    seriesId: apiBooking.seriesId,
+  };
+};
@@ -0,0 +1,170 @@
+import { UserRole } from "@/types/auth";
+import { Booking } from "@/types/entities";
+import { BusinessRules } from "@/types/settings";
+import { BOOKING_TRANSITIONS } from "@/lib/bookingLifecycle";
+import { formatBookingStatus } from "@/lib/bookingStatus";
+
+// What a scanned booking QR code tells us; only the ID is guaranteed
+export interface CheckInPayload {
+  bookingId: string;
+  stationId?: string;
+  ownerNIC?: string;
+  startTime?: string;
+}
+
+export interface CheckInCheck {
+  key: "status" | "station" | "owner" | "time";
+  label: string;
+  passed: boolean;
+  detail: string;
+}
+
+interface CheckInContext {
+  role: UserRole | undefined;
+  assignedStationId?: string;
+  // NIC read off the owner's ID card at the charger
+  presentedNIC?: string;
+  rules: BusinessRules;
+  now?: Date;
+}
+
+const pickString = (source: Record<string, unknown>, keys: string[]) => {
+  for (const key of keys) {
+    const value = source[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return undefined;
+};
+
+/**
+ * Decode scanned QR text. Accepts the backend's JSON payload (in either key
+ * casing), a URL carrying a `bookingId` parameter, or a bare booking ID.
+ * Returns null when nothing usable is found.
+ */
+export function parseCheckInPayload(raw: string): CheckInPayload | null {
+  const text = raw.trim();
+  if (!text) return null;
+
+  if (text.startsWith("{")) {
+    try {
+      const data = JSON.parse(text) as Record<string, unknown>;
+      const bookingId = pickString(data, ["bookingId", "BookingId", "id", "Id"]);
+      if (!bookingId) return null;
+      return {
+        bookingId,
+        stationId: pickString(data, ["stationId", "StationId"]),
+        ownerNIC: pickString(data, ["evOwnerNIC", "EvOwnerNIC", "ownerNIC", "nic", "NIC"]),
+        startTime: pickString(data, ["startTime", "StartTime"]),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  if (/^https?:\/\//i.test(text)) {
+    try {
+      const url = new URL(text);
+      const bookingId =
+        url.searchParams.get("bookingId") ?? url.pathname.split("/").filter(Boolean).pop();
+      return bookingId ? { bookingId } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  return /^\S+$/.test(text) ? { bookingId: text } : null;
+}
+
+const sameNIC = (a: string, b: string) =>
+  a.trim().toUpperCase() === b.trim().toUpperCase();
+
+/**
+ * Verify a scanned booking can be checked in here and now: it must be
+ * approved, belong to this station, match the owner's NIC and be inside its
+ * check-in window. Every check is returned so failures can be shown together.
+ */
+export function verifyCheckIn(
+  booking: Booking,
+  payload: CheckInPayload,
+  context: CheckInContext
+): CheckInCheck[] {
+  const { role, assignedStationId, presentedNIC, rules, now = new Date() } = context;
+  const checks: CheckInCheck[] = [];
+
+  checks.push(
+    booking.status === "APPROVED"
+      ? { key: "status", label: "Status", passed: true, detail: "Booking is approved" }
+      : {
+          key: "status",
+          label: "Status",
+          passed: false,
+          detail: `Booking is ${formatBookingStatus(booking.status)}`,
+        }
+  );
+
+  const stationName = booking.stationName || booking.stationId;
+  if (payload.stationId && payload.stationId !== booking.stationId) {
+    checks.push({
+      key: "station",
+      label: "Station",
+      passed: false,
+      detail: "QR code was issued for a different station",
+    });
+  } else if (role === "StationOperator" && booking.stationId !== assignedStationId) {
+    checks.push({
+      key: "station",
+      label: "Station",
+      passed: false,
+      detail: `Booked at ${stationName}, not your station`,
+    });
+  } else {
+    checks.push({ key: "station", label: "Station", passed: true, detail: stationName });
+  }
+
+  if (payload.ownerNIC && !sameNIC(payload.ownerNIC, booking.ownerNIC)) {
+    checks.push({
+      key: "owner",
+      label: "Owner NIC",
+      passed: false,
+      detail: "QR code does not match the booking's owner",
+    });
+  } else if (!presentedNIC?.trim()) {
+    checks.push({
+      key: "owner",
+      label: "Owner NIC",
+      passed: false,
+      detail: "Enter the NIC from the owner's ID card",
+    });
+  } else if (!sameNIC(presentedNIC, booking.ownerNIC)) {
+    checks.push({
+      key: "owner",
+      label: "Owner NIC",
+      passed: false,
+      detail: "NIC does not match the booking",
+    });
+  } else {
+    checks.push({ key: "owner", label: "Owner NIC", passed: true, detail: booking.ownerNIC });
+  }
+
+  const timeBlocked = BOOKING_TRANSITIONS.checkIn.blockedReason?.(booking, rules, now) ?? null;
+  if (
+    payload.startTime &&
+    new Date(payload.startTime).getTime() !== new Date(booking.startAt).getTime()
+  ) {
+    checks.push({
+      key: "time",
+      label: "Time window",
+      passed: false,
+      detail: "Booking was rescheduled after this QR code was issued",
+    });
+  } else {
+    checks.push({
+      key: "time",
+      label: "Time window",
+      passed: !timeBlocked,
+      detail: timeBlocked ?? "Within the check-in window",
+    });
+  }
+
+  return checks;
+}
@@ -0,0 +1,149 @@
+import { addDays, endOfDay, isSameDay, startOfDay } from "date-fns";
+import {
+  BookingApiResponse,
+  DashboardStats,
+  StationApiResponse,
+} from "@/types/entities";
+
+// Bookings that still hold a slot (finished ones free it up)
+export const isActiveBooking = (booking: BookingApiResponse) =>
+  booking.status === "Pending" ||
+  booking.status === "Approved" ||
+  booking.status === "InProgress";
+
+/**
+ * Aggregate dashboard KPIs from raw booking and station lists.
+ * Used when the backend does not expose a stats endpoint.
+ */
+export function aggregateDashboardStats(
+  bookings: BookingApiResponse[],
+  stations: StationApiResponse[],
+  now: Date = new Date()
+): DashboardStats {
+  const bookingWindowEnd = endOfDay(addDays(startOfDay(now), 7));
+
+  const pendingReservations = bookings.filter((booking) => {
+    const startTime = new Date(booking.startTime);
+    return (
+      booking.status === "Pending" &&
+      startTime >= now &&
+      startTime <= bookingWindowEnd
+    );
+  }).length;
+
+  const approvedFutureReservations = bookings.filter(
+    (booking) =>
+      booking.status === "Approved" && new Date(booking.startTime) >= now
+  ).length;
+
+  const activeStationList = stations.filter(
+    (station) => station.status === "Active"
+  );
+  const activeStationIds = new Set(activeStationList.map((s) => s.id));
+
+  const total = activeStationList.reduce(
+    (sum, station) =>
+      sum + station.acChargingSlots + station.dcChargingSlots,
+    0
+  );
+
+  // Count each physical slot once, even when it has several bookings today
+  const bookedSlots = new Set(
+    bookings
+      .filter(
+        (booking) =>
+          isActiveBooking(booking) &&
+          activeStationIds.has(booking.stationId) &&
+          isSameDay(new Date(booking.startTime), now)
+      )
+      .map(
+        (booking) =>
+          `${booking.stationId}:${booking.slotId ?? `${booking.slotType}-${booking.id}`}`
+      )
+  );
+
+  return {
+    pendingReservations,
+    approvedFutureReservations,
+    activeStations: activeStationList.length,
+    deactivatedStations: stations.length - activeStationList.length,
+    sameDayCapacity: {
+      total,
+      booked: Math.min(bookedSlots.size, total),
+    },
+  };
+}
+
+/**
+ * Number of slots at a station that are occupied by a booking at the given time.
+ */
+export function getOccupiedSlotCount(
+  station: StationApiResponse,
+  bookings: BookingApiResponse[],
+  at: Date = new Date()
+): number {
+  const occupied = new Set(
+    bookings
+      .filter(
+        (booking) =>
+          booking.stationId === station.id &&
+          isActiveBooking(booking) &&
+          new Date(booking.startTime) <= at &&
+          new Date(booking.endTime) > at
+      )
+      .map((booking) => booking.slotId ?? booking.id)
+  );
+
+  return Math.min(
+    occupied.size,
+    station.acChargingSlots + station.dcChargingSlots
+  );
+}
+
+export interface SlotTimelineRow {
+  slotId: string;
+  slotType: "AC" | "DC" | null;
+  bookings: BookingApiResponse[];
+}
+
+/**
+ * Group a station's bookings for one day by charging slot, keeping every
+ * configured AC/DC slot as a row even when it has nothing booked.
+ */
+export function buildSlotTimeline(
+  station: StationApiResponse | undefined,
+  bookings: BookingApiResponse[],
+  day: Date = new Date()
+): SlotTimelineRow[] {
+  const rows = new Map<string, SlotTimelineRow>();
+
+  station?.acSlots.forEach((slotId) =>
+    rows.set(slotId, { slotId, slotType: "AC", bookings: [] })
+  );
+  station?.dcSlots.forEach((slotId) =>
+    rows.set(slotId, { slotId, slotType: "DC", bookings: [] })
+  );
+
+  bookings
+    .filter(
+      (booking) =>
+        isActiveBooking(booking) && isSameDay(new Date(booking.startTime), day)
+    )
+    .sort(
+      (a, b) =>
+        new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+    )
+    .forEach((booking) => {
+      const slotId = booking.slotId ?? "Unassigned";
+      if (!rows.has(slotId)) {
+        rows.set(slotId, {
+          slotId,
+          slotType: booking.slotId ? booking.slotType : null,
+          bookings: [],
+        });
+      }
+      rows.get(slotId).bookings.push(booking);
+    });
+
+  return Array.from(rows.values());
+}
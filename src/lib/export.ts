@@ -0,0 +1,341 @@
+import { PaginatedResponse, PaginationParams } from "@/types/entities";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export type ExportValue = string | number | null | undefined;
+
+export interface ExportColumn<T> {
+  key: string;
+  label: string;
+  value: (row: T) => ExportValue;
+}
+
+// Rows already loaded, or pages of rows fetched as the export goes
+export type ExportSource<T> = T[] | AsyncIterable<T[]>;
+
+interface ExportOptions<T> {
+  filename: string; // Without extension; the date is appended
+  format: ExportFormat;
+  columns: ExportColumn<T>[];
+  source: ExportSource<T>;
+  onProgress?: (rowsWritten: number) => void;
+}
+
+// Rows written between yields to the browser
+const CHUNK_SIZE = 500;
+// Rows requested per page when fetching a paged list for export
+const EXPORT_PAGE_SIZE = 200;
+
+// Let the browser paint and handle input between chunks
+const yieldToBrowser = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+async function* toChunks<T>(source: ExportSource<T>): AsyncIterable<T[]> {
+  if (!Array.isArray(source)) {
+    yield* source;
+    return;
+  }
+  for (let start = 0; start < source.length; start += CHUNK_SIZE) {
+    yield source.slice(start, start + CHUNK_SIZE);
+  }
+}
+
+/**
+ * Every row of a paged list endpoint, one page at a time. When the backend
+ * ignores paging and returns the whole list, `clientFilter` and `clientSort`
+ * narrow and order it the same way the table does.
+ */
+export async function* fetchAllPages<T>(
+  fetchPage: (params: PaginationParams) => Promise<PaginatedResponse<T>>,
+  params: Pick<PaginationParams, "sort" | "filters">,
+  clientFilter?: (item: T) => boolean,
+  clientSort?: (a: T, b: T) => number
+): AsyncIterable<T[]> {
+  for (let page = 1; ; page++) {
+    const result = await fetchPage({ ...params, page, limit: EXPORT_PAGE_SIZE });
+    if (!result.serverPaginated) {
+      const items = clientFilter ? result.items.filter(clientFilter) : result.items;
+      yield clientSort ? [...items].sort(clientSort) : items;
+      return;
+    }
+    yield result.items;
+    if (result.items.length === 0 || page * EXPORT_PAGE_SIZE >= result.total) return;
+  }
+}
+
+/**
+ * A date/time as "yyyy-MM-dd HH:mm" in the given timezone, which sorts
+ * correctly and is recognised by spreadsheets.
+ */
+export const formatExportDateTime = (
+  value: string | Date | undefined,
+  timezone: string
+) => {
+  if (!value) return "";
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return "";
+
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+  return `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}`;
+};
+
+// CSV
+
+const escapeCsv = (value: ExportValue) => {
+  if (value === null || value === undefined) return "";
+  let text = String(value);
+  // Stop spreadsheets running text as a formula; signed numbers and phone
+  // numbers are left alone
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text) && !/^[+-]?[\d\s]+$/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const createCsvWriter = () => {
+  // Byte order mark so Excel reads the file as UTF-8
+  const parts: string[] = ["\uFEFF"];
+  return {
+    write: (rows: ExportValue[][]) =>
+      parts.push(rows.map((row) => row.map(escapeCsv).join(",")).join("\r\n") + "\r\n"),
+    finish: () => new Blob(parts, { type: "text/csv;charset=utf-8" }),
+  };
+};
+
+// XLSX: a single-sheet workbook of inline strings, zipped without compression
+
+const escapeXml = (text: string) =>
+  text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const toXlsxCell = (value: ExportValue, style?: number) => {
+  const styleAttr = style ? ` s="${style}"` : "";
+  if (value === null || value === undefined || value === "") return `<c${styleAttr}/>`;
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c${styleAttr}><v>${value}</v></c>`;
+  }
+  return `<c t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(
+    String(value)
+  )}</t></is></c>`;
+};
+
+const XLSX_STATIC_FILES: Record<string, string> = {
+  "[Content_Types].xml":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    "</Types>",
+  "_rels/.rels":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    "</Relationships>",
+  "xl/workbook.xml":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets><sheet name="Export" sheetId="1" r:id="rId1"/></sheets>' +
+    "</workbook>",
+  "xl/_rels/workbook.xml.rels":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+    "</Relationships>",
+  // Style 1 is the bold header row
+  "xl/styles.xml":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+    "</styleSheet>",
+};
+
+let crcTable: Uint32Array | null = null;
+
+const updateCrc32 = (crc: number, bytes: Uint8Array) => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let c = ~crc;
+  for (let i = 0; i < bytes.length; i++) c = crcTable[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return ~c >>> 0;
+};
+
+interface ZipEntry {
+  name: Uint8Array;
+  chunks: Uint8Array[];
+  size: number;
+  crc: number;
+}
+
+// Uncompressed ("stored") ZIP archive of the given entries
+const buildZip = (entries: ZipEntry[]) => {
+  const parts: BlobPart[] = [];
+  const centralDirectory: BlobPart[] = [];
+  let offset = 0;
+  let centralSize = 0;
+
+  const header = (signature: number, fieldsLength: number, name: Uint8Array) => {
+    const view = new DataView(new ArrayBuffer(fieldsLength + name.length));
+    view.setUint32(0, signature, true);
+    new Uint8Array(view.buffer).set(name, fieldsLength);
+    return view;
+  };
+
+  entries.forEach((entry) => {
+    const local = header(0x04034b50, 30, entry.name);
+    local.setUint16(4, 20, true); // Version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // Stored
+    local.setUint32(14, entry.crc, true);
+    local.setUint32(18, entry.size, true);
+    local.setUint32(22, entry.size, true);
+    local.setUint16(26, entry.name.length, true);
+    parts.push(local.buffer, ...entry.chunks);
+
+    const central = header(0x02014b50, 46, entry.name);
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint32(16, entry.crc, true);
+    central.setUint32(20, entry.size, true);
+    central.setUint32(24, entry.size, true);
+    central.setUint16(28, entry.name.length, true);
+    central.setUint32(42, offset, true);
+    centralDirectory.push(central.buffer);
+
+    offset += local.byteLength + entry.size;
+    centralSize += central.byteLength;
+  });
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end.buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+};
+
+const createXlsxWriter = () => {
+  const encoder = new TextEncoder();
+  const toEntry = (name: string): ZipEntry => ({
+    name: encoder.encode(name),
+    chunks: [],
+    size: 0,
+    crc: 0,
+  });
+  const append = (entry: ZipEntry, text: string) => {
+    const bytes = encoder.encode(text);
+    entry.chunks.push(bytes);
+    entry.size += bytes.length;
+    entry.crc = updateCrc32(entry.crc, bytes);
+  };
+
+  const sheet = toEntry("xl/worksheets/sheet1.xml");
+  append(
+    sheet,
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<sheetViews><sheetView workbookViewId="0">' +
+      '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+      "</sheetView></sheetViews><sheetData>"
+  );
+  let isHeader = true;
+
+  return {
+    write: (rows: ExportValue[][]) => {
+      append(
+        sheet,
+        rows
+          .map(
+            (row) =>
+              `<row>${row.map((value) => toXlsxCell(value, isHeader ? 1 : undefined)).join("")}</row>`
+          )
+          .join("")
+      );
+      isHeader = false;
+    },
+    finish: () => {
+      append(sheet, "</sheetData></worksheet>");
+      const files = Object.entries(XLSX_STATIC_FILES).map(([name, content]) => {
+        const entry = toEntry(name);
+        append(entry, content);
+        return entry;
+      });
+      return buildZip([...files, sheet]);
+    },
+  };
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Write the rows to a CSV or XLSX file and download it, a chunk at a time so
+ * large exports don't block the page. Resolves to the number of rows.
+ */
+export async function exportRows<T>({
+  filename,
+  format,
+  columns,
+  source,
+  onProgress,
+}: ExportOptions<T>): Promise<number> {
+  const writer = format === "csv" ? createCsvWriter() : createXlsxWriter();
+  writer.write([columns.map((column) => column.label)]);
+
+  let rowsWritten = 0;
+  for await (const chunk of toChunks(source)) {
+    writer.write(chunk.map((row) => columns.map((column) => column.value(row))));
+    rowsWritten += chunk.length;
+    onProgress?.(rowsWritten);
+    await yieldToBrowser();
+  }
+
+  downloadBlob(
+    writer.finish(),
+    `${filename}-${new Date().toISOString().slice(0, 10)}.${format}`
+  );
+  return rowsWritten;
+}
@@ -0,0 +1,100 @@
+import { Booking, EvOwnerApiResponse, Station } from "@/types/entities";
+import { WebUser } from "@/types/auth";
+import { ExportColumn, formatExportDateTime } from "@/lib/export";
+import { formatBookingStatus } from "@/lib/bookingStatus";
+
+// Columns offered when exporting each list page. Times are written in the
+// configured timezone.
+
+export const getBookingExportColumns = (timezone: string): ExportColumn<Booking>[] => [
+  { key: "id", label: "Booking ID", value: (b) => b.id },
+  { key: "ownerName", label: "Owner", value: (b) => b.ownerName },
+  { key: "ownerNIC", label: "Owner NIC", value: (b) => b.ownerNIC },
+  { key: "stationName", label: "Station", value: (b) => b.stationName ?? b.stationId },
+  { key: "slotType", label: "Slot Type", value: (b) => b.chargingSlot?.type },
+  { key: "slotId", label: "Slot", value: (b) => b.chargingSlot?.slotId },
+  { key: "status", label: "Status", value: (b) => formatBookingStatus(b.status) },
+  { key: "startAt", label: "Start", value: (b) => formatExportDateTime(b.startAt, timezone) },
+  { key: "endAt", label: "End", value: (b) => formatExportDateTime(b.endAt, timezone) },
+  {
+    key: "actualStartAt",
+    label: "Checked In",
+    value: (b) => formatExportDateTime(b.actualStartAt, timezone),
+  },
+  {
+    key: "actualEndAt",
+    label: "Finished",
+    value: (b) => formatExportDateTime(b.actualEndAt, timezone),
+  },
+  { key: "cancelReason", label: "Cancellation Reason", value: (b) => b.cancelReason },
+  { key: "cancelledBy", label: "Cancelled By", value: (b) => b.cancelledBy },
+  {
+    key: "createdAt",
+    label: "Created",
+    value: (b) => formatExportDateTime(b.createdAt, timezone),
+  },
+];
+
+export const getOwnerExportColumns = (
+  timezone: string
+): ExportColumn<EvOwnerApiResponse>[] => [
+  { key: "nic", label: "NIC", value: (o) => o.nic },
+  { key: "fullName", label: "Name", value: (o) => o.fullName },
+  { key: "email", label: "Email", value: (o) => o.email },
+  { key: "phone", label: "Phone", value: (o) => o.phone },
+  { key: "address", label: "Address", value: (o) => o.address },
+  { key: "vehicleModel", label: "Vehicle Model", value: (o) => o.vehicleModel },
+  { key: "licensePlate", label: "License Plate", value: (o) => o.licensePlate },
+  { key: "status", label: "Status", value: (o) => o.status },
+  {
+    key: "createdAt",
+    label: "Registered",
+    value: (o) => formatExportDateTime(o.createdAt, timezone),
+  },
+  {
+    key: "updatedAt",
+    label: "Last Updated",
+    value: (o) => formatExportDateTime(o.updatedAt, timezone),
+  },
+];
+
+export const getStationExportColumns = (timezone: string): ExportColumn<Station>[] => [
+  { key: "code", label: "Code", value: (s) => s.code },
+  { key: "name", label: "Name", value: (s) => s.name },
+  { key: "addressLine1", label: "Address", value: (s) => s.addressLine1 },
+  { key: "city", label: "City", value: (s) => s.city },
+  { key: "latitude", label: "Latitude", value: (s) => s.latitude },
+  { key: "longitude", label: "Longitude", value: (s) => s.longitude },
+  { key: "acSlots", label: "AC Slots", value: (s) => s.acSlots },
+  { key: "dcSlots", label: "DC Slots", value: (s) => s.dcSlots },
+  { key: "status", label: "Status", value: (s) => s.status.toLowerCase() },
+  {
+    key: "createdAt",
+    label: "Created",
+    value: (s) => formatExportDateTime(s.createdAt, timezone),
+  },
+];
+
+export const getUserExportColumns = (
+  timezone: string,
+  stationNames: Record<string, string>
+): ExportColumn<WebUser>[] => [
+  { key: "fullName", label: "Name", value: (u) => u.fullName },
+  { key: "email", label: "Email", value: (u) => u.email },
+  { key: "phone", label: "Phone", value: (u) => u.phone },
+  { key: "role", label: "Role", value: (u) => u.role },
+  {
+    key: "assignedStation",
+    label: "Assigned Station",
+    value: (u) =>
+      u.assignedStationId
+        ? stationNames[u.assignedStationId] ?? u.assignedStationId
+        : "",
+  },
+  { key: "status", label: "Status", value: (u) => u.status },
+  {
+    key: "createdAt",
+    label: "Created",
+    value: (u) => formatExportDateTime(u.createdAt, timezone),
+  },
+];
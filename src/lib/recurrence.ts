@@ -0,0 +1,156 @@
+import { addDays, format, startOfDay } from "date-fns";
+import { Booking, BookingApiResponse } from "@/types/entities";
+import { isActiveBooking } from "@/lib/dashboard";
+import { BusinessRules } from "@/types/settings";
+import {
+  BookingPolicyContext,
+  isBeforeModificationCutoff,
+  validateBooking,
+} from "@/lib/bookingPolicy";
+
+export type RecurrenceFrequency = "daily" | "weekly";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  weekdays: number[]; // 0 = Sunday; only used by weekly rules
+  endType: "until" | "count";
+  until?: Date;
+  count?: number;
+}
+
+// Upper bound on the bookings one series can create
+export const MAX_OCCURRENCES = 52;
+
+// How far ahead expansion looks for matching days before giving up
+const MAX_SCAN_DAYS = 366;
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Days a recurring booking falls on. The first booking date is always
+ * included; later days follow the rule until its end date or count, or
+ * MAX_OCCURRENCES.
+ */
+export function expandRecurrence(firstDate: Date, rule: RecurrenceRule): Date[] {
+  const start = startOfDay(firstDate);
+  const until = rule.endType === "until" && rule.until ? startOfDay(rule.until) : null;
+  const limit = Math.min(
+    rule.endType === "count" ? Math.max(rule.count ?? 0, 0) : MAX_OCCURRENCES,
+    MAX_OCCURRENCES
+  );
+  const days: Date[] = [];
+
+  for (let offset = 0; offset < MAX_SCAN_DAYS && days.length < limit; offset++) {
+    const day = addDays(start, offset);
+    if (until && day > until) break;
+    if (
+      offset === 0 ||
+      rule.frequency === "daily" ||
+      rule.weekdays.includes(day.getDay())
+    ) {
+      days.push(day);
+    }
+  }
+  return days;
+}
+
+// Short summary, e.g. "Weekly on Mon, Wed until Mar 31" or "Daily, 10 times"
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const repeat =
+    rule.frequency === "daily"
+      ? "Daily"
+      : `Weekly on ${[...rule.weekdays]
+          .sort((a, b) => a - b)
+          .map((day) => WEEKDAY_NAMES[day])
+          .join(", ")}`;
+  return rule.endType === "until" && rule.until
+    ? `${repeat} until ${format(rule.until, "MMM d, yyyy")}`
+    : `${repeat}, ${rule.count ?? 0} time${rule.count === 1 ? "" : "s"}`;
+}
+
+export interface ProposedOccurrence {
+  startAt: Date;
+  endAt: Date;
+  // Set when rescheduling an existing booking in the series
+  bookingId?: string;
+  originalStartAt?: string;
+}
+
+export interface CheckedOccurrence extends ProposedOccurrence {
+  conflicts: string[];
+}
+
+interface OccurrenceCheckContext extends Omit<BookingPolicyContext, "originalStartAt"> {
+  slotId: string;
+  // The station's existing bookings
+  bookings: BookingApiResponse[];
+}
+
+/**
+ * Check each occurrence of a series against the booking policy and the
+ * station's existing bookings on the chosen slot. Occurrences with an empty
+ * conflict list can be booked.
+ */
+export function checkOccurrences(
+  occurrences: ProposedOccurrence[],
+  context: OccurrenceCheckContext
+): CheckedOccurrence[] {
+  const { slotId, bookings, ...policyContext } = context;
+  const seriesIds = new Set(occurrences.map((item) => item.bookingId).filter(Boolean));
+  const others = bookings.filter(
+    (booking) =>
+      isActiveBooking(booking) &&
+      booking.slotId === slotId &&
+      !seriesIds.has(booking.id)
+  );
+
+  return occurrences.map((occurrence) => {
+    const conflicts = validateBooking(
+      { startAt: occurrence.startAt, endAt: occurrence.endAt },
+      { ...policyContext, originalStartAt: occurrence.originalStartAt }
+    ).map((violation) => violation.message);
+
+    const overlapping = others.find(
+      (booking) =>
+        new Date(booking.startTime) < occurrence.endAt &&
+        new Date(booking.endTime) > occurrence.startAt
+    );
+    if (overlapping) {
+      conflicts.push(
+        `${slotId} is booked by ${overlapping.evOwnerName} from ${format(
+          new Date(overlapping.startTime),
+          "HH:mm"
+        )} to ${format(new Date(overlapping.endTime), "HH:mm")}`
+      );
+    }
+
+    return { ...occurrence, conflicts };
+  });
+}
+
+/**
+ * Bookings in the same series as `booking` that can still be changed:
+ * pending or approved and outside the modification cutoff, in start order.
+ */
+export function getUpcomingSeriesBookings(
+  booking: Booking,
+  bookings: Booking[],
+  rules: BusinessRules,
+  now = new Date()
+): Booking[] {
+  if (!booking.seriesId) return [];
+  return bookings
+    .filter(
+      (item) =>
+        item.seriesId === booking.seriesId &&
+        (item.status === "PENDING" || item.status === "APPROVED") &&
+        isBeforeModificationCutoff(item.startAt, rules, now)
+    )
+    .sort((a, b) => new Date(a.startAt).getTime() - new Date(b.startAt).getTime());
+}
+
+// Client-side ID tying the bookings of one series together
+export const createSeriesId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `series-${Date.now()}-${Math.random().toString(36).slice(2)}`;
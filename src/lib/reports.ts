@@ -0,0 +1,245 @@
+import {
+  addDays,
+  differenceInMinutes,
+  eachDayOfInterval,
+  endOfDay,
+  format,
+  isWithinInterval,
+  max as maxDate,
+  min as minDate,
+  startOfDay,
+} from "date-fns";
+import { BookingApiResponse, StationApiResponse } from "@/types/entities";
+import { StationScheduleData, getStationSlots } from "@/lib/availability";
+import { resolveEffectiveSchedule } from "@/lib/schedule";
+
+export interface ReportRange {
+  from: Date;
+  to: Date;
+}
+
+export interface BookingsPerDayPoint {
+  date: string;
+  pending: number;
+  approved: number;
+  inProgress: number;
+  completed: number;
+  noShow: number;
+  cancelled: number;
+}
+
+export interface StatusRatioPoint {
+  status: BookingApiResponse["status"];
+  count: number;
+}
+
+export interface StationUtilizationPoint {
+  stationId: string;
+  stationName: string;
+  bookedHours: number;
+  scheduledHours: number;
+  utilization: number; // percentage 0-100
+}
+
+export interface SlotTypeDemandPoint {
+  slotType: "AC" | "DC";
+  bookings: number;
+  hours: number;
+}
+
+const MINUTES_PER_HOUR = 60;
+
+const roundHours = (minutes: number) =>
+  Math.round((minutes / MINUTES_PER_HOUR) * 10) / 10;
+
+export const getReportDays = (range: ReportRange) =>
+  eachDayOfInterval({ start: startOfDay(range.from), end: startOfDay(range.to) });
+
+export const isBookingInRange = (
+  booking: BookingApiResponse,
+  range: ReportRange
+) =>
+  isWithinInterval(new Date(booking.startTime), {
+    start: startOfDay(range.from),
+    end: endOfDay(range.to),
+  });
+
+// Series each API status is counted under in the per-day chart
+const PER_DAY_STATUS_KEYS: Record<
+  BookingApiResponse["status"],
+  keyof Omit<BookingsPerDayPoint, "date">
+> = {
+  Pending: "pending",
+  Approved: "approved",
+  InProgress: "inProgress",
+  Completed: "completed",
+  NoShow: "noShow",
+  Cancelled: "cancelled",
+};
+
+/**
+ * Count bookings per start day, split by status.
+ */
+export function getBookingsPerDay(
+  bookings: BookingApiResponse[],
+  range: ReportRange
+): BookingsPerDayPoint[] {
+  const points = new Map<string, BookingsPerDayPoint>(
+    getReportDays(range).map((day) => [
+      format(day, "yyyy-MM-dd"),
+      {
+        date: format(day, "MMM d"),
+        pending: 0,
+        approved: 0,
+        inProgress: 0,
+        completed: 0,
+        noShow: 0,
+        cancelled: 0,
+      },
+    ])
+  );
+
+  bookings.forEach((booking) => {
+    const point = points.get(format(new Date(booking.startTime), "yyyy-MM-dd"));
+    if (point) {
+      point[PER_DAY_STATUS_KEYS[booking.status]] += 1;
+    }
+  });
+
+  return Array.from(points.values());
+}
+
+/**
+ * Booking counts per status within the range.
+ */
+export function getStatusRatios(
+  bookings: BookingApiResponse[],
+  range: ReportRange
+): StatusRatioPoint[] {
+  const statuses: BookingApiResponse["status"][] = [
+    "Pending",
+    "Approved",
+    "InProgress",
+    "Completed",
+    "NoShow",
+    "Cancelled",
+  ];
+  const inRange = bookings.filter((booking) => isBookingInRange(booking, range));
+
+  return statuses.map((status) => ({
+    status,
+    count: inRange.filter((booking) => booking.status === status).length,
+  }));
+}
+
+/**
+ * Scheduled slot-minutes for a station over the range, with date exceptions
+ * applied over the weekly template. Stations without a schedule are treated
+ * as open 24/7 on every slot.
+ */
+export function getScheduledMinutes(
+  station: StationApiResponse,
+  schedule: StationScheduleData,
+  range: ReportRange
+): number {
+  const slotIds = getStationSlots(station).map((slot) => slot.slotId);
+  const effective = resolveEffectiveSchedule(
+    schedule.schedules,
+    schedule.exceptions,
+    startOfDay(range.from),
+    addDays(startOfDay(range.to), 1),
+    slotIds
+  );
+
+  return slotIds.reduce(
+    (sum, slotId) =>
+      sum +
+      effective.slots[slotId].reduce(
+        (slotSum, interval) => slotSum + differenceInMinutes(interval.end, interval.start),
+        0
+      ),
+    0
+  );
+}
+
+/**
+ * Booked hours ÷ scheduled hours per station. Cancelled bookings are ignored
+ * and bookings are clipped to the report range.
+ */
+export function getStationUtilization(
+  bookings: BookingApiResponse[],
+  stations: StationApiResponse[],
+  schedulesByStation: Record<string, StationScheduleData>,
+  range: ReportRange
+): StationUtilizationPoint[] {
+  const rangeStart = startOfDay(range.from);
+  const rangeEnd = endOfDay(range.to);
+
+  return stations.map((station) => {
+    const bookedMinutes = bookings
+      .filter(
+        (booking) =>
+          booking.stationId === station.id && booking.status !== "Cancelled"
+      )
+      .reduce((sum, booking) => {
+        const start = maxDate([new Date(booking.startTime), rangeStart]);
+        const end = minDate([new Date(booking.endTime), rangeEnd]);
+        return end > start ? sum + differenceInMinutes(end, start) : sum;
+      }, 0);
+
+    const scheduledMinutes = getScheduledMinutes(
+      station,
+      schedulesByStation[station.id] ?? { schedules: [], exceptions: [] },
+      range
+    );
+
+    return {
+      stationId: station.id,
+      stationName: station.stationName,
+      bookedHours: roundHours(bookedMinutes),
+      scheduledHours: roundHours(scheduledMinutes),
+      utilization:
+        scheduledMinutes > 0
+          ? Math.min(Math.round((bookedMinutes / scheduledMinutes) * 100), 100)
+          : 0,
+    };
+  });
+}
+
+/**
+ * Bookings and charging hours requested per slot type.
+ */
+export function getSlotTypeDemand(
+  bookings: BookingApiResponse[],
+  range: ReportRange
+): SlotTypeDemandPoint[] {
+  const inRange = bookings.filter(
+    (booking) =>
+      isBookingInRange(booking, range) && booking.status !== "Cancelled"
+  );
+
+  return (["AC", "DC"] as const).map((slotType) => {
+    const ofType = inRange.filter((booking) => booking.slotType === slotType);
+    return {
+      slotType,
+      bookings: ofType.length,
+      hours: roundHours(
+        ofType.reduce(
+          (sum, booking) =>
+            sum +
+            differenceInMinutes(
+              new Date(booking.endTime),
+              new Date(booking.startTime)
+            ),
+          0
+        )
+      ),
+    };
+  });
+}
+
+// Default report range: the last 30 days including today
+export const getDefaultReportRange = (): ReportRange => ({
+  from: addDays(startOfDay(new Date()), -29),
+  to: startOfDay(new Date()),
+});
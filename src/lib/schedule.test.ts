@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { StationSchedule } from "@/types/entities";
+import { isOpenBetween, resolveEffectiveSchedule } from "@/lib/schedule";
+
+// Sunday 1 June 2025 is weekday 0
+const at = (day: number, hour: number, minute = 0) =>
+  new Date(2025, 5, day, hour, minute);
+
+const weekly = (
+  weekday: StationSchedule["weekday"],
+  start: string,
+  end: string
+): StationSchedule => ({
+  stationId: "station-1",
+  weekday,
+  windows: [{ start, end, availableSlots: 0 }],
+});
+
+describe("resolveEffectiveSchedule", () => {
+  it("treats a station without a schedule as always open", () => {
+    const effective = resolveEffectiveSchedule([], [], at(2, 0), at(3, 0));
+    expect(effective.alwaysOpen).toBe(true);
+    expect(effective.open).toEqual([{ start: at(2, 0), end: at(3, 0) }]);
+  });
+
+  it("carries an overnight window from the day before the range", () => {
+    const effective = resolveEffectiveSchedule(
+      [weekly(0, "22:00", "06:00")],
+      [],
+      at(2, 0),
+      at(2, 12)
+    );
+    expect(effective.alwaysOpen).toBe(false);
+    expect(effective.open).toEqual([{ start: at(2, 0), end: at(2, 6) }]);
+  });
+
+  it("runs a window past midnight into the next day", () => {
+    const effective = resolveEffectiveSchedule(
+      [weekly(1, "20:00", "02:00")],
+      [],
+      at(2, 12),
+      at(3, 12)
+    );
+    expect(effective.open).toEqual([{ start: at(2, 20), end: at(3, 2) }]);
+  });
+
+  it("merges a 00:00–23:59 template into one continuous interval", () => {
+    const schedules = ([0, 1, 2, 3, 4, 5, 6] as const).map((weekday) =>
+      weekly(weekday, "00:00", "23:59")
+    );
+    const effective = resolveEffectiveSchedule(schedules, [], at(2, 6), at(5, 18));
+    expect(effective.alwaysOpen).toBe(false);
+    expect(effective.open).toEqual([{ start: at(2, 6), end: at(5, 18) }]);
+  });
+
+  it("merges overlapping and touching windows", () => {
+    const schedules: StationSchedule[] = [
+      {
+        stationId: "station-1",
+        weekday: 1,
+        windows: [
+          { start: "08:00", end: "12:00", availableSlots: 0 },
+          { start: "11:00", end: "14:00", availableSlots: 0 },
+          { start: "14:00", end: "16:00", availableSlots: 0 },
+          { start: "18:00", end: "20:00", availableSlots: 0 },
+        ],
+      },
+    ];
+    const effective = resolveEffectiveSchedule(schedules, [], at(2, 0), at(3, 0));
+    expect(effective.open).toEqual([
+      { start: at(2, 8), end: at(2, 16) },
+      { start: at(2, 18), end: at(2, 20) },
+    ]);
+  });
+
+  it("lets a date exception override the weekly template", () => {
+    const effective = resolveEffectiveSchedule(
+      [weekly(1, "08:00", "18:00"), weekly(2, "08:00", "18:00")],
+      [
+        {
+          stationId: "station-1",
+          date: "2025-06-02",
+          windows: [{ start: "10:00", end: "12:00", availableSlots: 0 }],
+        },
+        { stationId: "station-1", date: "2025-06-03", windows: [] },
+      ],
+      at(2, 0),
+      at(4, 0)
+    );
+    expect(effective.open).toEqual([{ start: at(2, 10), end: at(2, 12) }]);
+  });
+
+  it("resolves opening hours per slot from the selected slots", () => {
+    const schedules: StationSchedule[] = [
+      {
+        stationId: "station-1",
+        weekday: 1,
+        windows: [
+          { start: "08:00", end: "12:00", availableSlots: 1, selectedSlots: ["AC-2"] },
+          { start: "12:00", end: "18:00", availableSlots: 0 },
+        ],
+      },
+    ];
+    const effective = resolveEffectiveSchedule(schedules, [], at(2, 0), at(3, 0), [
+      "AC-1",
+      "AC-2",
+    ]);
+    expect(effective.slots["AC-1"]).toEqual([{ start: at(2, 12), end: at(2, 18) }]);
+    expect(effective.slots["AC-2"]).toEqual([{ start: at(2, 8), end: at(2, 18) }]);
+  });
+});
+
+describe("isOpenBetween", () => {
+  const intervals = [{ start: at(2, 8), end: at(2, 18) }];
+
+  it("checks a moment against the interval, excluding its end", () => {
+    expect(isOpenBetween(intervals, at(2, 8))).toBe(true);
+    expect(isOpenBetween(intervals, at(2, 18))).toBe(false);
+  });
+
+  it("requires one interval to cover the whole range", () => {
+    expect(isOpenBetween(intervals, at(2, 10), at(2, 18))).toBe(true);
+    expect(isOpenBetween(intervals, at(2, 17), at(2, 19))).toBe(false);
+  });
+});
@@ -0,0 +1,275 @@
+import { addDays, eachDayOfInterval, format, startOfDay } from "date-fns";
+import { ScheduleException, StationSchedule } from "@/types/entities";
+
+export type ScheduleWindow = StationSchedule["windows"][number];
+
+export interface WindowInterval {
+  start: Date;
+  end: Date;
+  availableSlots: number;
+}
+
+const toMinutes = (time: string) => {
+  const [hour, minute] = time.split(":").map(Number);
+  return hour * 60 + minute;
+};
+
+// Combine a calendar date with an HH:mm time
+export const combineDateAndTime = (date: Date, time: string) => {
+  const combined = new Date(date);
+  const [hour, minute] = time.split(":");
+  combined.setHours(parseInt(hour), parseInt(minute), 0, 0);
+  return combined;
+};
+
+/**
+ * Opening windows that apply on a given day: the exception for that date if
+ * one exists, otherwise the weekly template. Returns null when the station
+ * has no schedule at all (treated as open around the clock).
+ */
+export const getWindowsForDay = (
+  day: Date,
+  schedules: StationSchedule[],
+  exceptions: ScheduleException[]
+): ScheduleWindow[] | null => {
+  const exception = exceptions.find(
+    (item) => item.date === format(day, "yyyy-MM-dd")
+  );
+  if (exception) return exception.windows;
+  if (schedules.length === 0) return null;
+  return schedules.find((item) => item.weekday === day.getDay())?.windows ?? [];
+};
+
+/**
+ * Concrete start/end times of a day's windows. "23:59" means end of day and
+ * windows ending at or before their start run past midnight.
+ */
+export const getWindowIntervals = (
+  day: Date,
+  windows: ScheduleWindow[]
+): WindowInterval[] => {
+  const dayStart = startOfDay(day);
+
+  return windows.map((window) => {
+    let end =
+      window.end === "23:59"
+        ? addDays(dayStart, 1)
+        : combineDateAndTime(dayStart, window.end);
+    if (window.end !== "23:59" && toMinutes(window.end) <= toMinutes(window.start)) {
+      end = combineDateAndTime(addDays(dayStart, 1), window.end);
+    }
+    return {
+      start: combineDateAndTime(dayStart, window.start),
+      end,
+      availableSlots: window.availableSlots,
+    };
+  });
+};
+
+export interface OpenInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface EffectiveSchedule {
+  from: Date;
+  to: Date;
+  // No template or exception applies in the range: open around the clock
+  alwaysOpen: boolean;
+  // Station-level opening hours, whichever slots are open
+  open: OpenInterval[];
+  // Opening hours per slot ID
+  slots: Record<string, OpenInterval[]>;
+}
+
+// A window without a schedule behind it covers the whole day and every slot
+const ALL_DAY_WINDOW: ScheduleWindow = { start: "00:00", end: "23:59", availableSlots: 0 };
+
+// Windows with selected slots cover those; otherwise the first `availableSlots`
+const windowCoversSlot = (window: ScheduleWindow, slotIds: string[], slotId: string) =>
+  window.selectedSlots?.length
+    ? window.selectedSlots.includes(slotId)
+    : !window.availableSlots || slotIds.indexOf(slotId) < window.availableSlots;
+
+// Sort and join intervals that overlap or touch, e.g. consecutive 24/7 days
+const mergeIntervals = (intervals: OpenInterval[]) =>
+  [...intervals]
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .reduce<OpenInterval[]>((merged, interval) => {
+      const last = merged[merged.length - 1];
+      if (last && interval.start <= last.end) {
+        if (interval.end > last.end) last.end = interval.end;
+      } else {
+        merged.push({ ...interval });
+      }
+      return merged;
+    }, []);
+
+const clipIntervals = (intervals: OpenInterval[], from: Date, to: Date) =>
+  intervals
+    .filter((interval) => interval.end > from && interval.start < to)
+    .map((interval) => ({
+      start: interval.start < from ? from : interval.start,
+      end: interval.end > to ? to : interval.end,
+    }));
+
+/**
+ * Concrete opening hours of a station between `from` and `to`, after
+ * applying date exceptions over the weekly template. Windows running past
+ * midnight (including from the day before `from`) are carried into the next
+ * day, and adjacent windows are merged so a "00:00–23:59" template reads as
+ * one continuous interval.
+ */
+export function resolveEffectiveSchedule(
+  schedules: StationSchedule[],
+  exceptions: ScheduleException[],
+  from: Date,
+  to: Date,
+  slotIds: string[] = []
+): EffectiveSchedule {
+  const days = eachDayOfInterval({
+    start: addDays(startOfDay(from), -1),
+    end: startOfDay(to),
+  });
+  let alwaysOpen = true;
+
+  const entries = days.flatMap((day) => {
+    const windows = getWindowsForDay(day, schedules, exceptions);
+    if (windows !== null && day >= startOfDay(from)) alwaysOpen = false;
+    const resolved = windows ?? [ALL_DAY_WINDOW];
+    return getWindowIntervals(day, resolved).map((interval, index) => ({
+      window: resolved[index],
+      interval: { start: interval.start, end: interval.end },
+    }));
+  });
+
+  const resolve = (items: typeof entries) =>
+    clipIntervals(mergeIntervals(items.map((item) => item.interval)), from, to);
+
+  return {
+    from,
+    to,
+    alwaysOpen,
+    open: resolve(entries),
+    slots: Object.fromEntries(
+      slotIds.map((slotId) => [
+        slotId,
+        resolve(entries.filter((entry) => windowCoversSlot(entry.window, slotIds, slotId))),
+      ])
+    ),
+  };
+}
+
+// Whether one interval covers all of [start, end]; pass only `start` for a moment
+export const isOpenBetween = (
+  intervals: OpenInterval[],
+  start: Date,
+  end: Date = start
+) =>
+  intervals.some((interval) =>
+    start.getTime() === end.getTime()
+      ? start >= interval.start && start < interval.end
+      : start >= interval.start && end <= interval.end
+  );
+
+export interface ScheduleWindowError {
+  weekday: number;
+  windowIndex: number;
+  message: string;
+}
+
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+// Any Sunday works as the reference week for comparing weekly windows
+const REFERENCE_SUNDAY = new Date(2024, 0, 7);
+
+/**
+ * Check a weekly template for empty windows and for windows that overlap in
+ * time on a shared slot, including windows running past midnight into the
+ * next day (and from Saturday into Sunday). Windows without selected slots
+ * cover every slot.
+ */
+export function validateWeeklySchedule(
+  schedules: StationSchedule[],
+  allSlotIds: string[]
+): ScheduleWindowError[] {
+  const errors: ScheduleWindowError[] = [];
+  const weekEnd = addDays(REFERENCE_SUNDAY, 7);
+
+  const entries = schedules.flatMap((schedule) =>
+    getWindowIntervals(
+      addDays(REFERENCE_SUNDAY, schedule.weekday),
+      schedule.windows
+    ).map((interval, windowIndex) => {
+      const window = schedule.windows[windowIndex];
+      return {
+        weekday: schedule.weekday,
+        windowIndex,
+        window,
+        interval,
+        slotIds: window.selectedSlots?.length
+          ? window.selectedSlots
+          : allSlotIds,
+      };
+    })
+  );
+
+  entries.forEach((entry) => {
+    if (entry.window.start === entry.window.end) {
+      errors.push({
+        weekday: entry.weekday,
+        windowIndex: entry.windowIndex,
+        message: "End time must differ from start time",
+      });
+    }
+  });
+
+  // Saturday windows that run into Sunday also overlap the start of the week
+  const wrapped = entries
+    .filter((entry) => entry.interval.end > weekEnd)
+    .map((entry) => ({
+      ...entry,
+      interval: {
+        ...entry.interval,
+        start: addDays(entry.interval.start, -7),
+        end: addDays(entry.interval.end, -7),
+      },
+    }));
+  const candidates = [...entries, ...wrapped];
+
+  entries.forEach((entry) => {
+    candidates.forEach((other) => {
+      const isSameWindow =
+        other.weekday === entry.weekday &&
+        other.windowIndex === entry.windowIndex;
+      if (isSameWindow) return;
+
+      const overlapsInTime =
+        entry.interval.start < other.interval.end &&
+        other.interval.start < entry.interval.end;
+      const sharedSlots = entry.slotIds.filter((slotId) =>
+        other.slotIds.includes(slotId)
+      );
+
+      if (overlapsInTime && sharedSlots.length > 0) {
+        errors.push({
+          weekday: entry.weekday,
+          windowIndex: entry.windowIndex,
+          message: `Overlaps ${WEEKDAY_NAMES[other.weekday]} ${
+            other.window.start
+          }–${other.window.end} on ${sharedSlots.join(", ")}`,
+        });
+      }
+    });
+  });
+
+  return errors;
+}
@@ -0,0 +1,45 @@
+import { BusinessRules } from "@/types/settings";
+
+export const DEFAULT_BUSINESS_RULES: BusinessRules = {
+  bookingWindowDays: 7,
+  modificationCutoffHours: 12,
+  maxSessionHours: 4,
+  slotGranularityMinutes: 30,
+  noShowGraceMinutes: 15,
+  timezone: "Asia/Colombo",
+  cancellationReasons: [
+    "Requested by EV owner",
+    "Station maintenance",
+    "Station outage",
+    "Duplicate booking",
+    "Scheduling conflict",
+  ],
+};
+
+export const SLOT_GRANULARITY_OPTIONS = [15, 30, 60];
+
+// HH:mm options for a day at the configured granularity
+export const getTimeSlots = (granularityMinutes: number) =>
+  Array.from({ length: Math.floor((24 * 60) / granularityMinutes) }, (_, i) => {
+    const minutes = i * granularityMinutes;
+    const hour = Math.floor(minutes / 60);
+    const minute = minutes % 60;
+    return `${hour.toString().padStart(2, "0")}:${minute
+      .toString()
+      .padStart(2, "0")}`;
+  });
+
+// Timezones offered in the settings form, falling back to the default
+export const getSupportedTimezones = (): string[] => {
+  const intl = Intl as typeof Intl & {
+    supportedValuesOf?: (key: string) => string[];
+  };
+  return intl.supportedValuesOf?.("timeZone") ?? [DEFAULT_BUSINESS_RULES.timezone];
+};
+
+// Format a date/time in the configured timezone
+export const formatInTimezone = (
+  value: string | Date,
+  timezone: string,
+  options: Intl.DateTimeFormatOptions
+) => new Date(value).toLocaleString([], { ...options, timeZone: timezone });
@@ -0,0 +1,199 @@
+import { addMinutes, isSameDay } from "date-fns";
+import { BookingApiResponse, StationApiResponse } from "@/types/entities";
+import { BusinessRules } from "@/types/settings";
+import {
+  StationScheduleData,
+  findFreeSlot,
+  getStationSlots,
+} from "@/lib/availability";
+import { BookingPolicyContext, validateBooking } from "@/lib/bookingPolicy";
+import { isActiveBooking } from "@/lib/dashboard";
+
+const EARTH_RADIUS_KM = 6371;
+// How far either side of the requested start to look for another time
+const MAX_TIME_SHIFT_MINUTES = 24 * 60;
+
+type Coordinates = Pick<StationApiResponse, "latitude" | "longitude">;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two stations in kilometres, or null when
+ * either has no usable coordinates.
+ */
+export function getDistanceKm(from: Coordinates, to: Coordinates): number | null {
+  const lat1 = parseFloat(from.latitude);
+  const lon1 = parseFloat(from.longitude);
+  const lat2 = parseFloat(to.latitude);
+  const lon2 = parseFloat(to.longitude);
+  if ([lat1, lon1, lat2, lon2].some((value) => !Number.isFinite(value))) return null;
+
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+export interface SuggestionRequest {
+  stationId: string;
+  slotType: "AC" | "DC";
+  startAt: Date;
+  endAt: Date;
+}
+
+export interface Suggestion {
+  stationId: string;
+  slotId: string;
+  startAt: Date;
+  endAt: Date;
+}
+
+export interface StationSuggestion extends Suggestion {
+  stationName: string;
+  distanceKm: number | null;
+}
+
+interface SuggestionContext extends Pick<BookingPolicyContext, "owner"> {
+  bookings: BookingApiResponse[];
+  rules: BusinessRules;
+  now?: Date;
+  limit?: number;
+}
+
+export interface NearbyStation {
+  station: StationApiResponse;
+  distanceKm: number | null;
+}
+
+/**
+ * Other active stations with a slot of the requested type in order of
+ * distance from the requested station, nearest first. Stations without
+ * coordinates go last.
+ */
+export function getNearbyStations(
+  request: Pick<SuggestionRequest, "stationId" | "slotType">,
+  stations: StationApiResponse[]
+): NearbyStation[] {
+  const origin = stations.find((station) => station.id === request.stationId);
+  return stations
+    .filter(
+      (station) =>
+        station.id !== request.stationId &&
+        station.status === "Active" &&
+        getStationSlots(station).some((slot) => slot.slotType === request.slotType)
+    )
+    .map((station) => ({
+      station,
+      distanceKm: origin ? getDistanceKm(origin, station) : null,
+    }))
+    .sort(
+      (a, b) =>
+        (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity) ||
+        a.station.stationName.localeCompare(b.station.stationName)
+    );
+}
+
+/**
+ * Stations that can take the requested time on a slot of the same type,
+ * nearest first. Each must pass the booking policy, including the booking
+ * window and its own opening hours.
+ */
+export function suggestAlternativeStations(
+  request: SuggestionRequest,
+  context: SuggestionContext & {
+    stations: StationApiResponse[];
+    schedules: Record<string, StationScheduleData>;
+  }
+): StationSuggestion[] {
+  const { stations, schedules, bookings, rules, owner, now = new Date(), limit = 3 } =
+    context;
+  const reservations = bookings.filter(isActiveBooking);
+  const suggestions: StationSuggestion[] = [];
+
+  for (const { station, distanceKm } of getNearbyStations(request, stations)) {
+    if (suggestions.length >= limit) break;
+    const schedule = schedules[station.id] ?? { schedules: [], exceptions: [] };
+    const violations = validateBooking(
+      { startAt: request.startAt, endAt: request.endAt },
+      { rules, now, station, owner, ...schedule }
+    );
+    if (violations.length > 0) continue;
+
+    const slotId = findFreeSlot(
+      station,
+      request.slotType,
+      request.startAt,
+      request.endAt,
+      reservations,
+      schedule
+    );
+    if (!slotId) continue;
+
+    suggestions.push({
+      stationId: station.id,
+      stationName: station.stationName,
+      slotId,
+      startAt: request.startAt,
+      endAt: request.endAt,
+      distanceKm,
+    });
+  }
+
+  return suggestions;
+}
+
+/**
+ * The free windows of the same length at the requested station closest to
+ * the requested start, earlier or later, on a slot of the same type. Each
+ * stays within one day and passes the booking policy; suggestions don't
+ * overlap each other.
+ */
+export function suggestAlternativeTimes(
+  request: SuggestionRequest,
+  context: SuggestionContext & {
+    station: StationApiResponse;
+    schedule: StationScheduleData;
+  }
+): Suggestion[] {
+  const { station, schedule, bookings, rules, owner, now = new Date(), limit = 3 } =
+    context;
+  const reservations = bookings.filter(isActiveBooking);
+  const step = rules.slotGranularityMinutes;
+  const suggestions: Suggestion[] = [];
+
+  for (
+    let shift = step;
+    shift <= MAX_TIME_SHIFT_MINUTES && suggestions.length < limit;
+    shift += step
+  ) {
+    for (const offset of [-shift, shift]) {
+      if (suggestions.length >= limit) break;
+      const startAt = addMinutes(request.startAt, offset);
+      const endAt = addMinutes(request.endAt, offset);
+      if (!isSameDay(startAt, endAt)) continue;
+      if (suggestions.some((item) => item.startAt < endAt && item.endAt > startAt)) {
+        continue;
+      }
+
+      const violations = validateBooking(
+        { startAt, endAt },
+        { rules, now, station, owner, ...schedule }
+      );
+      if (violations.length > 0) continue;
+
+      const slotId = findFreeSlot(
+        station,
+        request.slotType,
+        startAt,
+        endAt,
+        reservations,
+        schedule
+      );
+      if (slotId) suggestions.push({ stationId: station.id, slotId, startAt, endAt });
+    }
+  }
+
+  return suggestions.sort((a, b) => a.startAt.getTime() - b.startAt.getTime());
+}
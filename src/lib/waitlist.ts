@@ -0,0 +1,99 @@
+import {
+  BookingApiResponse,
+  StationApiResponse,
+  WaitlistEntry,
+} from "@/types/entities";
+import { BusinessRules } from "@/types/settings";
+import {
+  SlotReservation,
+  StationScheduleData,
+  findFreeSlot,
+} from "@/lib/availability";
+import { isActiveBooking } from "@/lib/dashboard";
+import { validateBooking } from "@/lib/bookingPolicy";
+
+const PRIORITY_RANK: Record<WaitlistEntry["priority"], number> = {
+  High: 0,
+  Normal: 1,
+};
+
+// High priority first, then first come, first served
+export const sortWaitlist = (entries: WaitlistEntry[]) =>
+  [...entries].sort(
+    (a, b) =>
+      PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] ||
+      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+
+export type WaitlistMatch =
+  | { state: "ready"; slotId: string }
+  | { state: "full" }
+  | { state: "blocked"; reason: string }
+  | { state: "expired" };
+
+export interface MatchedWaitlistEntry {
+  entry: WaitlistEntry;
+  match: WaitlistMatch;
+}
+
+interface WaitlistMatchContext {
+  stations: StationApiResponse[];
+  bookings: BookingApiResponse[];
+  schedules: Record<string, StationScheduleData>;
+  rules: BusinessRules;
+  now?: Date;
+}
+
+/**
+ * Match waiting entries against current capacity in priority order. Each
+ * entry that fits is given a free slot of its type, and that slot is held
+ * for it so lower-priority entries for the same time aren't offered it too.
+ */
+export function matchWaitlist(
+  entries: WaitlistEntry[],
+  context: WaitlistMatchContext
+): MatchedWaitlistEntry[] {
+  const { stations, bookings, schedules, rules, now = new Date() } = context;
+  const reservations: SlotReservation[] = bookings.filter(isActiveBooking);
+
+  return sortWaitlist(entries.filter((entry) => entry.status === "Waiting")).map(
+    (entry): MatchedWaitlistEntry => {
+      const startAt = new Date(entry.startTime);
+      const endAt = new Date(entry.endTime);
+      if (startAt <= now) return { entry, match: { state: "expired" } };
+
+      const station = stations.find((item) => item.id === entry.stationId);
+      if (!station) {
+        return { entry, match: { state: "blocked", reason: "Station not found" } };
+      }
+
+      const schedule = schedules[station.id] ?? { schedules: [], exceptions: [] };
+      const violation = validateBooking(
+        { startAt, endAt },
+        { rules, now, station, ...schedule }
+      )[0];
+      if (violation) {
+        return { entry, match: { state: "blocked", reason: violation.message } };
+      }
+
+      const slotId = findFreeSlot(
+        station,
+        entry.slotType,
+        startAt,
+        endAt,
+        reservations,
+        schedule
+      );
+      if (!slotId) return { entry, match: { state: "full" } };
+
+      reservations.push({
+        stationId: station.id,
+        slotId,
+        slotType: entry.slotType,
+        startTime: entry.startTime,
+        endTime: entry.endTime,
+      });
+      return { entry, match: { state: "ready", slotId } };
+    }
+  );
+}
@@ -0,0 +1,473 @@
+import { Fragment, useEffect, useState } from "react";
+import { Link, Navigate } from "react-router-dom";
+import { endOfDay, format, startOfDay } from "date-fns";
+import { DateRange } from "react-day-picker";
+import {
+  Calendar as CalendarIcon,
+  ChevronDown,
+  ChevronRight,
+  Download,
+  ExternalLink,
+  FileText,
+  Filter,
+  Search,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { DataPagination } from "@/components/ui/data-pagination";
+import { useAuth } from "@/contexts/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { usePagination } from "@/hooks/usePagination";
+import { AuditLogEntry } from "@/types/entities";
+import { useAuditLogs } from "@/services/queries";
+import { exportLocalAuditLog } from "@/services/auditService";
+import {
+  filterAuditLogs,
+  formatAuditValue,
+  getAuditChangeRows,
+  getAuditEntityLink,
+} from "@/lib/audit";
+
+const entityTypeLabels: Record<AuditLogEntry["entityType"], string> = {
+  Booking: "Booking",
+  EVOwner: "EV Owner",
+  Station: "Station",
+  WebUser: "Web User",
+  Waitlist: "Waitlist",
+};
+
+function ActionBadge({ action }: { action: AuditLogEntry["action"] }) {
+  const variants = {
+    CREATE: "bg-success/10 text-success border-success/20",
+    UPDATE: "bg-accent/10 text-accent border-accent/20",
+    DELETE: "bg-destructive/10 text-destructive border-destructive/20",
+    ACTIVATE: "bg-success/10 text-success border-success/20",
+    DEACTIVATE: "bg-warning/10 text-warning border-warning/20",
+  };
+
+  return (
+    <Badge variant="outline" className={variants[action]}>
+      {action.toLowerCase()}
+    </Badge>
+  );
+}
+
+function ChangesDiff({ entry }: { entry: AuditLogEntry }) {
+  const rows = getAuditChangeRows(entry.changes);
+
+  return (
+    <div className="space-y-3">
+      {rows.length === 0 ? (
+        <div className="text-sm text-muted-foreground">
+          No field changes recorded
+        </div>
+      ) : (
+        <div className="rounded-md border bg-card">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-48">Field</TableHead>
+                <TableHead>Before</TableHead>
+                <TableHead>After</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.field}>
+                  <TableCell className="font-mono text-sm">{row.field}</TableCell>
+                  <TableCell className="font-mono text-sm">
+                    <span className="rounded bg-destructive/10 px-1 text-destructive line-through break-all">
+                      {formatAuditValue(row.before)}
+                    </span>
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">
+                    <span className="rounded bg-success/10 px-1 text-success break-all">
+                      {formatAuditValue(row.after)}
+                    </span>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-muted-foreground">
+        <span>Entity ID: <span className="font-mono">{entry.entityId}</span></span>
+        <span>Actor ID: <span className="font-mono">{entry.actorId}</span></span>
+        {entry.ipAddress && <span>IP: {entry.ipAddress}</span>}
+        {entry.userAgent && (
+          <span className="truncate max-w-md" title={entry.userAgent}>
+            User agent: {entry.userAgent}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function AuditLog() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [itemsPerPage, setItemsPerPage] = useState(20);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Filters
+  const [entityTypeFilter, setEntityTypeFilter] = useState<string>("all");
+  const [actionFilter, setActionFilter] = useState<string>("all");
+  const [actorSearch, setActorSearch] = useState("");
+  const [dateRange, setDateRange] = useState<DateRange | undefined>();
+
+  const auditQuery = useAuditLogs();
+  const loading = auditQuery.isLoading;
+  const entries = [...(auditQuery.data ?? [])].sort(
+    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+
+  useEffect(() => {
+    if (!auditQuery.error) return;
+    console.error("Failed to fetch audit logs:", auditQuery.error);
+    toast({
+      title: "Error",
+      description: "Failed to load audit log. Please try again.",
+      variant: "destructive",
+    });
+  }, [auditQuery.error, toast]);
+
+  const filteredEntries = filterAuditLogs(entries, {
+    entityType:
+      entityTypeFilter === "all"
+        ? undefined
+        : (entityTypeFilter as AuditLogEntry["entityType"]),
+    action:
+      actionFilter === "all"
+        ? undefined
+        : (actionFilter as AuditLogEntry["action"]),
+    actor: actorSearch,
+    dateFrom: dateRange?.from ? startOfDay(dateRange.from).toISOString() : undefined,
+    dateTo: dateRange?.from
+      ? endOfDay(dateRange.to ?? dateRange.from).toISOString()
+      : undefined,
+  });
+
+  const pagination = usePagination(filteredEntries, {
+    itemsPerPage,
+    initialPage: 1,
+  });
+  const { resetToFirstPage } = pagination;
+
+  // Reset to first page when filters change
+  useEffect(() => {
+    resetToFirstPage();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [entityTypeFilter, actionFilter, actorSearch, dateRange]);
+
+  // Only BackOffice users can access this page
+  if (user?.role !== "Backoffice") {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const hasFilters =
+    entityTypeFilter !== "all" ||
+    actionFilter !== "all" ||
+    actorSearch !== "" ||
+    !!dateRange?.from;
+
+  const handleExport = async () => {
+    try {
+      const count = await exportLocalAuditLog();
+      toast({
+        title: "Audit Log Exported",
+        description: `${count} locally stored entries have been exported.`,
+      });
+    } catch (error) {
+      console.error("Failed to export audit log:", error);
+      toast({
+        title: "Error",
+        description: "Failed to export the local audit log.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const clearFilters = () => {
+    setEntityTypeFilter("all");
+    setActionFilter("all");
+    setActorSearch("");
+    setDateRange(undefined);
+  };
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Audit Log</h1>
+          <p className="text-muted-foreground">
+            Track who changed bookings, owners, stations and users
+          </p>
+        </div>
+        <Button variant="outline" className="gap-2" onClick={handleExport}>
+          <Download className="w-4 h-4" />
+          Export Local Log
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Filter & Search</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col lg:flex-row gap-4">
+            <div className="flex-1">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                <Input
+                  placeholder="Search by actor name or ID..."
+                  value={actorSearch}
+                  onChange={(e) => setActorSearch(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+
+            <Select value={entityTypeFilter} onValueChange={setEntityTypeFilter}>
+              <SelectTrigger className="w-44">
+                <Filter className="w-4 h-4 mr-2" />
+                <SelectValue placeholder="Entity type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Entities</SelectItem>
+                {Object.entries(entityTypeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={actionFilter} onValueChange={setActionFilter}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Action" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Actions</SelectItem>
+                <SelectItem value="CREATE">Create</SelectItem>
+                <SelectItem value="UPDATE">Update</SelectItem>
+                <SelectItem value="DELETE">Delete</SelectItem>
+                <SelectItem value="ACTIVATE">Activate</SelectItem>
+                <SelectItem value="DEACTIVATE">Deactivate</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  className="w-64 justify-start text-left font-normal"
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {dateRange?.from ? (
+                    <>
+                      {format(dateRange.from, "MMM dd, yyyy")}
+                      {dateRange.to && ` - ${format(dateRange.to, "MMM dd, yyyy")}`}
+                    </>
+                  ) : (
+                    <span className="text-muted-foreground">Any date</span>
+                  )}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="end">
+                <Calendar
+                  mode="range"
+                  selected={dateRange}
+                  onSelect={setDateRange}
+                  numberOfMonths={2}
+                  initialFocus
+                  className="p-3 pointer-events-auto"
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              Showing {filteredEntries.length} of {entries.length} entries
+            </span>
+            {hasFilters && (
+              <Button variant="ghost" size="sm" className="gap-1" onClick={clearFilters}>
+                <X className="w-3 h-3" />
+                Clear filters
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Audit Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Audit Entries</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border overflow-hidden">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead className="min-w-40">Timestamp</TableHead>
+                    <TableHead className="min-w-40">Entity</TableHead>
+                    <TableHead className="w-28">Action</TableHead>
+                    <TableHead className="min-w-40">Actor</TableHead>
+                    <TableHead className="w-24">Link</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-12">
+                        Loading audit log...
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    pagination.currentItems.map((entry) => {
+                      const isExpanded = expandedId === entry.id;
+
+                      return (
+                        <Fragment key={entry.id}>
+                          <TableRow
+                            className="cursor-pointer"
+                            onClick={() =>
+                              setExpandedId(isExpanded ? null : entry.id)
+                            }
+                          >
+                            <TableCell>
+                              {isExpanded ? (
+                                <ChevronDown className="w-4 h-4" />
+                              ) : (
+                                <ChevronRight className="w-4 h-4" />
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <div className="font-medium text-sm">
+                                {format(new Date(entry.timestamp), "MMM dd, yyyy")}
+                              </div>
+                              <div className="text-sm text-muted-foreground">
+                                {format(new Date(entry.timestamp), "hh:mm:ss a")}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <div className="font-medium">
+                                {entityTypeLabels[entry.entityType]}
+                              </div>
+                              <div
+                                className="text-sm text-muted-foreground font-mono truncate max-w-48"
+                                title={entry.entityId}
+                              >
+                                {entry.entityId}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <ActionBadge action={entry.action} />
+                            </TableCell>
+                            <TableCell>
+                              <div className="font-medium">{entry.actorName}</div>
+                              <div className="text-xs text-muted-foreground font-mono">
+                                {entry.actorId}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              {entry.action !== "DELETE" && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="gap-1"
+                                  asChild
+                                  onClick={(e) => e.stopPropagation()}
+                                >
+                                  <Link to={getAuditEntityLink(entry)}>
+                                    <ExternalLink className="w-3 h-3" />
+                                    Open
+                                  </Link>
+                                </Button>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                          {isExpanded && (
+                            <TableRow className="bg-muted/30 hover:bg-muted/30">
+                              <TableCell colSpan={6} className="p-4">
+                                <ChangesDiff entry={entry} />
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </Fragment>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          {!loading && filteredEntries.length === 0 && (
+            <div className="text-center py-12">
+              <FileText className="w-12 h-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+              <div className="text-lg font-medium mb-2">No audit entries found</div>
+              <div className="text-muted-foreground">
+                {hasFilters
+                  ? "Try adjusting your filter criteria"
+                  : "Changes made in the system will appear here"}
+              </div>
+            </div>
+          )}
+        </CardContent>
+
+        {/* Pagination */}
+        {!loading && filteredEntries.length > 0 && (
+          <div className="px-6 pb-6">
+            <DataPagination
+              currentPage={pagination.currentPage}
+              totalPages={pagination.totalPages}
+              totalItems={pagination.totalItems}
+              itemsPerPage={pagination.itemsPerPage}
+              startIndex={pagination.startIndex}
+              endIndex={pagination.endIndex}
+              hasNextPage={pagination.hasNextPage}
+              hasPreviousPage={pagination.hasPreviousPage}
+              pageNumbers={pagination.pageNumbers}
+              showEllipsisStart={pagination.showEllipsisStart}
+              showEllipsisEnd={pagination.showEllipsisEnd}
+              onPageChange={pagination.goToPage}
+              onItemsPerPageChange={setItemsPerPage}
+              onNextPage={pagination.goToNextPage}
+              onPreviousPage={pagination.goToPreviousPage}
+              onFirstPage={pagination.goToFirstPage}
+              onLastPage={pagination.goToLastPage}
+            />
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
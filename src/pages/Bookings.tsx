@@ -1,4 +1,14 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  addDays,
+  addWeeks,
+  endOfWeek,
+  format,
+  parseISO,
+  startOfWeek,
+} from "date-fns";
+import { Link, useSearchParams } from "react-router-dom";
+import { DateRange } from "react-day-picker";
 import {
   Plus,
   Search,
@@ -12,6 +22,15 @@ import {
   X,
   Check,
   Trash2,
+  Lock,
+  ChevronLeft,
+  ChevronRight,
+  List,
+  GanttChart,
+  CalendarDays,
+  ArrowUpDown,
+  ListOrdered,
+  Download,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -32,199 +51,353 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Calendar as DatePicker } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { Booking, BookingApiResponse } from "@/types/entities";
+import {
+  Booking,
+  BookingApiResponse,
+  BookingFilters,
+  BookingSort,
+  PaginationParams,
+} from "@/types/entities";
 import { CreateBookingModal } from "@/components/bookings/CreateBookingModal";
 import { ViewBookingModal } from "@/components/bookings/ViewBookingModal";
 import { EditBookingModal } from "@/components/bookings/EditBookingModal";
 import { ConfirmationDialog } from "@/components/bookings/ConfirmationDialog";
-import { usePagination } from "@/hooks/usePagination";
+import { BookingLifecycleActions } from "@/components/bookings/BookingLifecycleActions";
+import {
+  BulkBookingAction,
+  BulkBookingActionDialog,
+} from "@/components/bookings/BulkBookingActionDialog";
+import {
+  BookingTimeline,
+  TimelineGrouping,
+  TimelineView,
+} from "@/components/bookings/BookingTimeline";
+import { BookingMonthCalendar } from "@/components/bookings/BookingMonthCalendar";
+import { ExportDialog } from "@/components/export/ExportDialog";
+import { useServerPagination } from "@/hooks/usePagination";
+import { useViewParam } from "@/hooks/useViewParam";
+import { useWaitlistMatches } from "@/hooks/useWaitlistMatches";
 import { DataPagination } from "@/components/ui/data-pagination";
 import { bookingApi } from "@/services/api";
+import {
+  queryKeys,
+  useBookingCounts,
+  useBookings,
+  useDeleteBooking,
+  useStations,
+} from "@/services/queries";
 import { useAuth } from "@/contexts/AuthContext";
-
-// Transform API response to local Booking interface
-const transformBookingApiResponse = (
-  apiBooking: BookingApiResponse
-): Booking => {
-  return {
-    id: apiBooking.id,
-    ownerNIC: apiBooking.evOwnerNIC,
-    ownerName: apiBooking.evOwnerName,
-    stationId: apiBooking.stationId,
-    stationName: apiBooking.stationName
-      ?.replace(/Charging Station/gi, "")
-      .trim(),
-    chargingSlot: apiBooking.slotId
-      ? {
-          type: apiBooking.slotType,
-          slotNumber: parseInt(apiBooking.slotId.replace(/\D/g, "")) || 0,
-        }
-      : undefined,
-    status: apiBooking.status.toUpperCase() as Booking["status"],
-    startAt: apiBooking.startTime,
-    endAt: apiBooking.endTime,
-    createdByUserId: "", // Not provided in API response
-    createdAt: apiBooking.createdAt,
-    updatedAt: apiBooking.updatedAt,
-  };
-};
+import { useSettings } from "@/contexts/SettingsContext";
+import { formatInTimezone } from "@/lib/settings";
+import { isBeforeModificationCutoff } from "@/lib/bookingPolicy";
+import {
+  BOOKING_STATUS_BADGE_CLASSES,
+  formatBookingStatus,
+} from "@/lib/bookingStatus";
+import { transformBookingApiResponse } from "@/lib/bookings";
+import { fetchAllPages } from "@/lib/export";
+import { getBookingExportColumns } from "@/lib/exportColumns";
+import { isTerminalBookingStatus } from "@/lib/bookingLifecycle";
+import {
+  compareBookings,
+  filterBookings,
+  matchesBookingFilters,
+  parseBookingQuery,
+  sortBookings,
+  toBookingPageParams,
+  toBookingQuery,
+} from "@/lib/bookingFilters";
 
 function StatusBadge({ status }: { status: Booking["status"] }) {
-  const variants = {
-    PENDING: "bg-warning/10 text-warning border-warning/20",
-    APPROVED: "bg-success/10 text-success border-success/20",
-    CANCELLED: "bg-muted text-muted-foreground border-muted/20",
-    COMPLETED: "bg-accent/10 text-accent border-accent/20",
-  };
-
   return (
-    <Badge variant="outline" className={variants[status]}>
-      {status.toLowerCase()}
+    <Badge variant="outline" className={BOOKING_STATUS_BADGE_CLASSES[status]}>
+      {formatBookingStatus(status)}
     </Badge>
   );
 }
 
 export default function Bookings() {
-  const [searchTerm, setSearchTerm] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { filters, sort } = parseBookingQuery(searchParams);
   const [itemsPerPage, setItemsPerPage] = useState(10);
   const [createModalOpen, setCreateModalOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
   const [viewModalOpen, setViewModalOpen] = useState(false);
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
+  const [proposedTimes, setProposedTimes] = useState<{
+    startAt: Date;
+    endAt: Date;
+  } | null>(null);
+  const [viewMode, setViewMode] = useState<"table" | "timeline" | "month">(
+    "table"
+  );
+  const [timelineView, setTimelineView] = useState<TimelineView>("day");
+  const [timelineGrouping, setTimelineGrouping] =
+    useState<TimelineGrouping>("station");
+  const [timelineDate, setTimelineDate] = useState(() => new Date());
   const [confirmDialog, setConfirmDialog] = useState<{
     open: boolean;
     title: string;
     description: string;
     action: () => void;
   } | null>(null);
-  const [loading, setLoading] = useState(true);
+  // Selected bookings by ID, kept while paging through the list
+  const [selected, setSelected] = useState<Map<string, Booking>>(() => new Map());
+  const [bulkAction, setBulkAction] = useState<{
+    action: BulkBookingAction;
+    bookings: Booking[];
+  } | null>(null);
   const { toast } = useToast();
   const { user } = useAuth();
+  const { rules } = useSettings();
+  const deleteBooking = useDeleteBooking();
 
-  // Fetch bookings based on user role
-  const fetchBookings = async () => {
-    try {
-      setLoading(true);
-      let apiBookings: BookingApiResponse[];
-
-      if (user?.role === "StationOperator" && user.assignedStationId) {
-        // Fetch bookings for the assigned station
-        apiBookings = await bookingApi.getBookingsByStation(
-          user.assignedStationId
-        );
-      } else {
-        // Fetch all bookings for Backoffice
-        apiBookings = await bookingApi.getAllBookings();
-      }
+  // Station operators only see bookings for their assigned station
+  const stationId =
+    user?.role === "StationOperator" ? user.assignedStationId : undefined;
+  // Cancellations and schedule changes can free capacity for waiting owners
+  const { matches: waitlistMatches } = useWaitlistMatches(stationId, !!user);
+  const waitlistReadyCount = waitlistMatches.filter(
+    (item) => item.match.state === "ready"
+  ).length;
 
-      // Transform API response to local Booking interface
-      const transformedBookings = apiBookings.map(transformBookingApiResponse);
-      setBookings(transformedBookings);
-    } catch (error) {
-      console.error("Failed to fetch bookings:", error);
-      toast({
-        title: "Error",
-        description: "Failed to load bookings. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
+  // Shared by the table and the export. The cache keeps API bookings so
+  // booking writes can patch them in place.
+  const pageParams = toBookingPageParams(filters, sort);
+  const fetchBookingsPage = (params: PaginationParams) =>
+    bookingApi.getBookingsPage(params, stationId);
+  const matchesFilters = (booking: BookingApiResponse) =>
+    matchesBookingFilters(transformBookingApiResponse(booking), filters);
+  const compareApiBookings = (a: BookingApiResponse, b: BookingApiResponse) =>
+    compareBookings(transformBookingApiResponse(a), transformBookingApiResponse(b), sort);
+
+  const pagination = useServerPagination(
+    queryKeys.bookings.pages(stationId),
+    fetchBookingsPage,
+    {
+      itemsPerPage,
+      ...pageParams,
+      clientFilter: matchesFilters,
+      clientSort: compareApiBookings,
     }
-  };
+  );
+  const { isServerPaginated } = pagination;
+  const loading = pagination.isLoading;
+  const loadedBookings = useMemo(
+    () => pagination.loadedItems.map(transformBookingApiResponse),
+    [pagination.loadedItems]
+  );
+  const pageBookings = pagination.currentItems.map(transformBookingApiResponse);
 
-  // Fetch bookings on component mount
+  // The timeline and month views lay out every matching booking, so they
+  // load the full list, and only while one of them is shown
+  const calendarQuery = useBookings(stationId, !!user && viewMode !== "table");
+  const allBookings = useMemo(
+    () => (calendarQuery.data ?? []).map(transformBookingApiResponse),
+    [calendarQuery.data]
+  );
+  const calendarBookings = sortBookings(filterBookings(allBookings, filters), sort);
+
+  const loadError = pagination.error || calendarQuery.error;
   useEffect(() => {
-    fetchBookings();
-  }, [user]);
-
-  // Refresh bookings after creating a new one
-  const handleCreateBooking = (
-    newBooking: Omit<Booking, "id" | "createdAt" | "updatedAt">
-  ) => {
-    const booking: Booking = {
-      ...newBooking,
-      id: `booking-${Date.now()}`,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+    if (!loadError) return;
+    console.error("Failed to fetch bookings:", loadError);
+    toast({
+      title: "Error",
+      description: "Failed to load bookings. Please try again.",
+      variant: "destructive",
+    });
+  }, [loadError, toast]);
+
+  // Stats cover every booking. When the server pages the list, ask it for
+  // the totals; otherwise count the full list that is already loaded.
+  const countsQuery = useBookingCounts(stationId, isServerPaginated && !loading);
+  const bookingCounts =
+    isServerPaginated && countsQuery.data
+      ? countsQuery.data
+      : {
+          total: loadedBookings.length,
+          pending: loadedBookings.filter((b) => b.status === "PENDING").length,
+          approved: loadedBookings.filter((b) => b.status === "APPROVED").length,
+          completed: loadedBookings.filter((b) => b.status === "COMPLETED").length,
+        };
 
-    setBookings((prev) => [booking, ...prev]);
+  // New bookings reach the list through the refetched cache
+  const handleCreateBooking = () => {
     toast({
       title: "Booking Created",
-      description: `Booking ${booking.id} has been created successfully.`,
+      description: "The booking has been created successfully.",
     });
   };
 
-  const filteredBookings = bookings.filter((booking) => {
-    const matchesSearch =
-      booking.ownerNIC.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      booking.ownerName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      booking.stationName?.toLowerCase().includes(searchTerm.toLowerCase());
+  // Filters and sort live in the query string so views can be shared
+  const updateQuery = (changes: Partial<BookingFilters>, nextSort = sort) =>
+    setSearchParams(
+      toBookingQuery(searchParams, { ...filters, ...changes }, nextSort),
+      { replace: true }
+    );
 
-    const matchesStatus =
-      statusFilter === "all" || booking.status === statusFilter;
+  const filterKey = toBookingQuery(new URLSearchParams(), filters, sort).toString();
+  const hasFilters = Object.values(filters).some(Boolean);
 
-    return matchesSearch && matchesStatus;
-  });
+  // Stations the user can see bookings for, for the station filter
+  const stationsQuery = useStations();
+  const stationOptions = (stationsQuery.data ?? [])
+    .filter((station) => !stationId || station.id === stationId)
+    .map((station) => [station.id, station.stationName] as const)
+    .sort((a, b) => a[1].localeCompare(b[1]));
 
-  const pagination = usePagination(filteredBookings, {
-    itemsPerPage,
-    initialPage: 1,
-  });
+  const dateRange: DateRange | undefined = filters.dateFrom
+    ? {
+        from: parseISO(filters.dateFrom),
+        to: filters.dateTo ? parseISO(filters.dateTo) : undefined,
+      }
+    : undefined;
 
-  // Reset to first page when filters change
+  // The list starts over on page 1 when filters change; drop the selection too
   useEffect(() => {
-    pagination.resetToFirstPage();
-  }, [searchTerm, statusFilter]);
+    setSelected(new Map());
+  }, [filterKey]);
 
   const formatDateTime = (dateString: string) => {
-    const date = new Date(dateString);
     return {
-      date: date.toLocaleDateString(),
-      time: date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }),
+      date: formatInTimezone(dateString, rules.timezone, {
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+      }),
+      time: formatInTimezone(dateString, rules.timezone, {
+        hour: "2-digit",
+        minute: "2-digit",
+      }),
     };
   };
 
-  const canModifyBooking = (booking: Booking) => {
-    const startTime = new Date(booking.startAt);
-    const now = new Date();
-    const hoursDiff = (startTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-    return hoursDiff >= 12;
-  };
+  const canModifyBooking = (booking: Booking) =>
+    isBeforeModificationCutoff(booking.startAt, rules);
 
-  const canDelete = (booking: Booking) => {
-    // Only completed and cancelled bookings can be permanently deleted
-    return booking.status === "COMPLETED" || booking.status === "CANCELLED";
+  // Only finished bookings (completed, no-show, cancelled) can be permanently deleted
+  const canDelete = (booking: Booking) => isTerminalBookingStatus(booking.status);
+
+  // Which selected bookings each bulk action applies to
+  const bulkEligibility: Record<BulkBookingAction, (booking: Booking) => boolean> = {
+    approve: (booking) => booking.status === "PENDING",
+    cancel: (booking) =>
+      (booking.status === "PENDING" || booking.status === "APPROVED") &&
+      canModifyBooking(booking),
+    delete: canDelete,
   };
 
-  const handleUpdateBooking = (updatedBooking: Booking) => {
-    setBookings((prev) =>
-      prev.map((booking) =>
-        booking.id === updatedBooking.id ? updatedBooking : booking
-      )
-    );
-    toast({
-      title: "Booking Updated",
-      description: `Booking ${updatedBooking.id} has been updated successfully.`,
+  // Bookings on the current page reflect their latest state
+  const selectedBookings = [...selected.values()].map(
+    (booking) => pageBookings.find((item) => item.id === booking.id) ?? booking
+  );
+  const bulkTargets = (action: BulkBookingAction) =>
+    selectedBookings.filter(bulkEligibility[action]);
+
+  const pageSelected =
+    pageBookings.length > 0 && pageBookings.every((booking) => selected.has(booking.id));
+  const pagePartiallySelected =
+    !pageSelected && pageBookings.some((booking) => selected.has(booking.id));
+
+  const toggleSelected = (booking: Booking, checked: boolean) =>
+    setSelected((current) => {
+      const next = new Map(current);
+      if (checked) next.set(booking.id, booking);
+      else next.delete(booking.id);
+      return next;
     });
-  };
 
-  const handleViewBooking = (booking: Booking) => {
+  const togglePageSelected = (checked: boolean) =>
+    setSelected((current) => {
+      const next = new Map(current);
+      pageBookings.forEach((booking) =>
+        checked ? next.set(booking.id, booking) : next.delete(booking.id)
+      );
+      return next;
+    });
+
+  // Targets are fixed when the dialog opens, since optimistic updates move them
+  const openBulkAction = (action: BulkBookingAction) =>
+    setBulkAction({ action, bookings: bulkTargets(action) });
+
+  // Keep failed rows selected so they can be retried
+  const handleBulkCompleted = (succeededIds: string[]) =>
+    setSelected((current) => {
+      const next = new Map(current);
+      succeededIds.forEach((id) => next.delete(id));
+      return next;
+    });
+
+  // Edits reach the list through the booking mutations, which update the
+  // cached lists optimistically and refetch them once saved
+  const handleUpdateBooking = () => setProposedTimes(null);
+
+  const handleViewBooking = useCallback((booking: Booking) => {
     setSelectedBooking(booking);
     setViewModalOpen(true);
-  };
+  }, []);
+
+  // Deep links may point at a booking on another page
+  useViewParam(loadedBookings, (b) => b.id, handleViewBooking, {
+    isLoading: loading,
+    fetchItem: async (bookingId) =>
+      transformBookingApiResponse(await bookingApi.getBookingById(bookingId)),
+  });
 
   const handleEditBooking = (booking: Booking) => {
     setSelectedBooking(booking);
+    setProposedTimes(null);
     setEditModalOpen(true);
   };
 
-  const handleDeleteBookingFromList = (bookingId: string) => {
-    setBookings((prev) => prev.filter((b) => b.id !== bookingId));
-  };
+  // Dragging a timeline bar opens the edit flow with the new times filled in
+  const handleReschedule = useCallback(
+    (booking: Booking, startAt: Date, endAt: Date) => {
+      setSelectedBooking(booking);
+      setProposedTimes({ startAt, endAt });
+      setEditModalOpen(true);
+    },
+    []
+  );
+
+  const canReschedule = (booking: Booking) =>
+    (booking.status === "PENDING" || booking.status === "APPROVED") &&
+    canModifyBooking(booking);
+
+  const shiftTimeline = (direction: 1 | -1) =>
+    setTimelineDate((date) =>
+      timelineView === "day" ? addDays(date, direction) : addWeeks(date, direction)
+    );
+
+  const timelineLabel =
+    timelineView === "day"
+      ? format(timelineDate, "EEEE, MMM d, yyyy")
+      : `${format(startOfWeek(timelineDate), "MMM d")} – ${format(
+          endOfWeek(timelineDate),
+          "MMM d, yyyy"
+        )}`;
+
+  async function* exportBookings() {
+    for await (const page of fetchAllPages(
+      fetchBookingsPage,
+      pageParams,
+      matchesFilters,
+      compareApiBookings
+    )) {
+      yield page.map(transformBookingApiResponse);
+    }
+  }
 
   const handleDeleteBooking = (booking: Booking) => {
     setConfirmDialog({
@@ -235,10 +408,7 @@ export default function Bookings() {
       action: async () => {
         try {
           // Use API to permanently delete booking
-          await bookingApi.permanentlyDeleteBooking(booking.id);
-
-          // Remove from local state
-          setBookings((prev) => prev.filter((b) => b.id !== booking.id));
+          await deleteBooking.mutateAsync(booking.id);
 
           toast({
             title: "Booking Deleted",
@@ -258,74 +428,6 @@ export default function Bookings() {
     });
   };
 
-  const handleQuickAction = (
-    booking: Booking,
-    action: "approve" | "cancel"
-  ) => {
-    const actionDetails = {
-      approve: {
-        title: "Approve Booking",
-        description: "Are you sure you want to approve this booking?",
-        newStatus: "APPROVED" as const,
-      },
-      cancel: {
-        title: "Cancel Booking",
-        description:
-          "Are you sure you want to cancel this booking? This action cannot be undone.",
-        newStatus: "CANCELLED" as const,
-      },
-    };
-
-    const { title, description, newStatus } = actionDetails[action];
-
-    setConfirmDialog({
-      open: true,
-      title,
-      description,
-      action: async () => {
-        try {
-          if (action === "approve") {
-            // Use API to approve booking
-            await bookingApi.approveBooking(booking.id);
-
-            // Update local state
-            const updatedBooking: Booking = {
-              ...booking,
-              status: newStatus,
-              updatedAt: new Date().toISOString(),
-            };
-            handleUpdateBooking(updatedBooking);
-
-            toast({
-              title: "Booking Approved",
-              description: `Booking ${booking.id} has been approved successfully.`,
-            });
-          } else {
-            // For cancel, use API to delete booking from backend
-            await bookingApi.cancelBooking(booking.id);
-
-            // Remove from local state since booking is deleted from backend
-            setBookings((prev) => prev.filter((b) => b.id !== booking.id));
-
-            toast({
-              title: "Booking Cancelled",
-              description: `Booking ${booking.id} has been cancelled and deleted successfully.`,
-            });
-          }
-        } catch (error) {
-          console.error(`Failed to ${action} booking:`, error);
-          toast({
-            title: "Error",
-            description: `Failed to ${action} booking. Please try again.`,
-            variant: "destructive",
-          });
-        } finally {
-          setConfirmDialog(null);
-        }
-      },
-    });
-  };
-
   return (
     <div className="flex-1 space-y-6 p-6">
       {/* Header */}
@@ -338,16 +440,50 @@ export default function Bookings() {
             Manage EV charging reservations and track booking status
           </p>
         </div>
-        <Button
-          variant="accent"
-          className="gap-2"
-          onClick={() => setCreateModalOpen(true)}
-        >
-          <Plus className="w-4 h-4" />
-          Create Booking
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => setExportOpen(true)}
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </Button>
+          <Button
+            variant="accent"
+            className="gap-2"
+            onClick={() => setCreateModalOpen(true)}
+          >
+            <Plus className="w-4 h-4" />
+            Create Booking
+          </Button>
+        </div>
       </div>
 
+      {waitlistReadyCount > 0 && (
+        <Card className="border-success/20 bg-success/5">
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-start gap-3">
+                <ListOrdered className="w-5 h-5 text-success mt-0.5" />
+                <div className="space-y-1">
+                  <div className="font-medium text-success">
+                    Capacity freed up for the waitlist
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {waitlistReadyCount} waiting owner
+                    {waitlistReadyCount === 1 ? " can" : "s can"} now be booked.
+                  </div>
+                </div>
+              </div>
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/waitlist">Review Waitlist</Link>
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Quick Stats */}
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
@@ -358,7 +494,7 @@ export default function Bookings() {
             <Calendar className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{bookings.length}</div>
+            <div className="text-2xl font-bold">{bookingCounts.total}</div>
           </CardContent>
         </Card>
         <Card>
@@ -368,7 +504,7 @@ export default function Bookings() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-warning">
-              {bookings.filter((b) => b.status === "PENDING").length}
+              {bookingCounts.pending}
             </div>
           </CardContent>
         </Card>
@@ -379,7 +515,7 @@ export default function Bookings() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-success">
-              {bookings.filter((b) => b.status === "APPROVED").length}
+              {bookingCounts.approved}
             </div>
           </CardContent>
         </Card>
@@ -390,7 +526,7 @@ export default function Bookings() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-accent">
-              {bookings.filter((b) => b.status === "COMPLETED").length}
+              {bookingCounts.completed}
             </div>
           </CardContent>
         </Card>
@@ -408,14 +544,21 @@ export default function Bookings() {
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
                 <Input
                   placeholder="Search by NIC, name, or station..."
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
+                  value={filters.search ?? ""}
+                  onChange={(e) => updateQuery({ search: e.target.value })}
                   className="pl-10"
                 />
               </div>
             </div>
 
-            <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <Select
+              value={filters.status ?? "all"}
+              onValueChange={(value) =>
+                updateQuery({
+                  status: value === "all" ? undefined : (value as Booking["status"]),
+                })
+              }
+            >
               <SelectTrigger className="w-48">
                 <Filter className="w-4 h-4 mr-2" />
                 <SelectValue placeholder="Filter by status" />
@@ -424,14 +567,151 @@ export default function Bookings() {
                 <SelectItem value="all">All Status</SelectItem>
                 <SelectItem value="PENDING">Pending</SelectItem>
                 <SelectItem value="APPROVED">Approved</SelectItem>
+                <SelectItem value="IN_PROGRESS">In Progress</SelectItem>
                 <SelectItem value="COMPLETED">Completed</SelectItem>
+                <SelectItem value="NO_SHOW">No-Show</SelectItem>
                 <SelectItem value="CANCELLED">Cancelled</SelectItem>
               </SelectContent>
             </Select>
           </div>
 
-          <div className="text-sm text-muted-foreground">
-            Showing {filteredBookings.length} of {bookings.length} bookings
+          <div className="flex flex-col lg:flex-row gap-4">
+            <Select
+              value={filters.stationId ?? "all"}
+              onValueChange={(value) =>
+                updateQuery({ stationId: value === "all" ? undefined : value })
+              }
+            >
+              <SelectTrigger className="lg:w-56">
+                <MapPin className="w-4 h-4 mr-2" />
+                <SelectValue placeholder="Station" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Stations</SelectItem>
+                {stationOptions.map(([stationId, stationName]) => (
+                  <SelectItem key={stationId} value={stationId}>
+                    {stationName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div className="relative lg:w-48">
+              <User className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+              <Input
+                placeholder="Owner NIC"
+                value={filters.ownerNIC ?? ""}
+                onChange={(e) => updateQuery({ ownerNIC: e.target.value })}
+                className="pl-10"
+              />
+            </div>
+
+            <Select
+              value={filters.type ?? "all"}
+              onValueChange={(value) =>
+                updateQuery({
+                  type: value === "all" ? undefined : (value as "AC" | "DC"),
+                })
+              }
+            >
+              <SelectTrigger className="lg:w-36">
+                <SelectValue placeholder="Slot type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">AC & DC</SelectItem>
+                <SelectItem value="AC">AC only</SelectItem>
+                <SelectItem value="DC">DC only</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  className="lg:w-64 justify-start text-left font-normal"
+                >
+                  <Calendar className="mr-2 h-4 w-4" />
+                  {dateRange?.from ? (
+                    <>
+                      {format(dateRange.from, "MMM dd, yyyy")}
+                      {dateRange.to && ` - ${format(dateRange.to, "MMM dd, yyyy")}`}
+                    </>
+                  ) : (
+                    <span className="text-muted-foreground">Any date</span>
+                  )}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <DatePicker
+                  mode="range"
+                  selected={dateRange}
+                  onSelect={(range) =>
+                    updateQuery({
+                      dateFrom: range?.from
+                        ? format(range.from, "yyyy-MM-dd")
+                        : undefined,
+                      dateTo: range?.to ? format(range.to, "yyyy-MM-dd") : undefined,
+                    })
+                  }
+                  numberOfMonths={2}
+                  initialFocus
+                  className="p-3 pointer-events-auto"
+                />
+              </PopoverContent>
+            </Popover>
+
+            <div className="flex gap-2 lg:ml-auto">
+              <Select
+                value={sort.field}
+                onValueChange={(value) =>
+                  updateQuery({}, { ...sort, field: value as BookingSort["field"] })
+                }
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="startAt">Sort by start time</SelectItem>
+                  <SelectItem value="createdAt">Sort by created time</SelectItem>
+                  <SelectItem value="station">Sort by station</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={() =>
+                  updateQuery(
+                    {},
+                    { ...sort, direction: sort.direction === "asc" ? "desc" : "asc" }
+                  )
+                }
+                title="Toggle sort direction"
+              >
+                <ArrowUpDown className="w-4 h-4" />
+                {sort.direction === "asc" ? "Asc" : "Desc"}
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              Showing {pagination.totalItems} of {bookingCounts.total} bookings
+            </span>
+            {hasFilters && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="gap-1"
+                onClick={() =>
+                  setSearchParams(toBookingQuery(searchParams, {}, sort), {
+                    replace: true,
+                  })
+                }
+              >
+                <X className="w-3 h-3" />
+                Clear filters
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -444,184 +724,399 @@ export default function Bookings() {
             <div className="space-y-1">
               <div className="font-medium text-accent">Booking Rules</div>
               <div className="text-sm text-muted-foreground">
-                • Bookings can only be created within 7 days from today •
-                Modifications and cancellations require at least 12 hours notice
-                before start time • Only pending bookings can be modified or
-                cancelled
+                • Bookings can only be created within {rules.bookingWindowDays}{" "}
+                days from today • Modifications and cancellations require at
+                least {rules.modificationCutoffHours} hours notice before start
+                time • Sessions are limited to {rules.maxSessionHours} hours •
+                Approved bookings not checked in within{" "}
+                {rules.noShowGraceMinutes} minutes of the start time can be
+                marked as no-shows
               </div>
             </div>
           </div>
         </CardContent>
       </Card>
 
-      {/* Bookings Table */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Booking Records</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="rounded-md border overflow-hidden">
-            <div className="overflow-x-auto">
-              <Table>
-                <TableHeader>
-                  <TableRow>
-                    <TableHead className="w-24">Booking ID</TableHead>
-                    <TableHead className="min-w-32">EV Owner</TableHead>
-                    <TableHead className="min-w-32">Station</TableHead>
-                    <TableHead className="min-w-32">Date & Time</TableHead>
-                    <TableHead className="w-24">Status</TableHead>
-                    <TableHead className="w-32">Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {loading ? (
-                    <TableRow>
-                      <TableCell colSpan={6} className="text-center py-12">
-                        <div className="flex items-center justify-center gap-2">
-                          <Clock className="w-4 h-4 animate-spin" />
-                          <span>Loading bookings...</span>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  ) : (
-                    pagination.currentItems.map((booking) => {
-                      const startDateTime = formatDateTime(booking.startAt);
-                      const endDateTime = formatDateTime(booking.endAt);
-                      const canModify = canModifyBooking(booking);
-
-                      return (
-                        <TableRow key={booking.id}>
-                          <TableCell className="font-mono text-sm w-24">
-                            <div className="truncate" title={booking.id}>
-                              {booking.id.length > 8
-                                ? `${booking.id.substring(0, 8)}...`
-                                : booking.id}
-                            </div>
-                          </TableCell>
-                          <TableCell className="min-w-32">
-                            <div>
-                              <div className="font-medium truncate">
-                                {booking.ownerName}
-                              </div>
-                              <div className="text-sm text-muted-foreground flex items-center gap-1">
-                                <User className="w-3 h-3 flex-shrink-0" />
-                                <span className="truncate">
-                                  {booking.ownerNIC}
-                                </span>
-                              </div>
-                            </div>
-                          </TableCell>
-                          <TableCell className="min-w-32">
-                            <div className="flex items-center gap-2">
-                              <MapPin className="w-4 h-4 text-muted-foreground flex-shrink-0" />
-                              <span className="truncate">
-                                {booking.stationName}
-                              </span>
-                            </div>
-                          </TableCell>
-                          <TableCell className="min-w-32">
-                            <div>
-                              <div className="font-medium text-sm">
-                                {startDateTime.date}
-                              </div>
-                              <div className="text-sm text-muted-foreground">
-                                {startDateTime.time} - {endDateTime.time}
-                              </div>
-                            </div>
-                          </TableCell>
-                          <TableCell className="w-24">
-                            <StatusBadge status={booking.status} />
-                          </TableCell>
-                          <TableCell className="w-32">
-                            <div className="flex items-center gap-2">
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                onClick={() => handleViewBooking(booking)}
-                                className="gap-1"
-                              >
-                                <Eye className="w-3 h-3" />
-                                View
-                              </Button>
-
-                              {/* Edit button for PENDING and APPROVED bookings */}
-                              {(booking.status === "PENDING" ||
-                                booking.status === "APPROVED") && (
-                                <Button
-                                  variant="outline"
-                                  size="sm"
-                                  onClick={() => handleEditBooking(booking)}
-                                  className="gap-1"
-                                >
-                                  <Edit className="w-3 h-3" />
-                                  Edit
-                                </Button>
-                              )}
-
-                              {/* Delete button for COMPLETED and CANCELLED bookings */}
-                              {canDelete(booking) && (
-                                <Button
-                                  variant="outline"
-                                  size="sm"
-                                  onClick={() => handleDeleteBooking(booking)}
-                                  className="gap-1 text-destructive hover:text-destructive"
-                                >
-                                  <Trash2 className="w-3 h-3" />
-                                  Delete
-                                </Button>
-                              )}
+      <Tabs
+        value={viewMode}
+        onValueChange={(value) => setViewMode(value as typeof viewMode)}
+        className="space-y-4"
+      >
+        <TabsList>
+          <TabsTrigger value="table" className="gap-2">
+            <List className="w-4 h-4" />
+            Table
+          </TabsTrigger>
+          <TabsTrigger value="timeline" className="gap-2">
+            <GanttChart className="w-4 h-4" />
+            Timeline
+          </TabsTrigger>
+          <TabsTrigger value="month" className="gap-2">
+            <CalendarDays className="w-4 h-4" />
+            Month
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="timeline">
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+                <CardTitle>{timelineLabel}</CardTitle>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => shiftTimeline(-1)}
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setTimelineDate(new Date())}
+                  >
+                    Today
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => shiftTimeline(1)}
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                  <Select
+                    value={timelineView}
+                    onValueChange={(value) =>
+                      setTimelineView(value as TimelineView)
+                    }
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="day">Day</SelectItem>
+                      <SelectItem value="week">Week</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={timelineGrouping}
+                    onValueChange={(value) =>
+                      setTimelineGrouping(value as TimelineGrouping)
+                    }
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="station">By Station</SelectItem>
+                      <SelectItem value="slot">By Slot</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {calendarQuery.isLoading ? (
+                <div className="flex items-center justify-center gap-2 py-12">
+                  <Clock className="w-4 h-4 animate-spin" />
+                  <span>Loading bookings...</span>
+                </div>
+              ) : (
+                <BookingTimeline
+                  bookings={calendarBookings}
+                  view={timelineView}
+                  date={timelineDate}
+                  groupBy={timelineGrouping}
+                  granularityMinutes={rules.slotGranularityMinutes}
+                  onViewBooking={handleViewBooking}
+                  canReschedule={canReschedule}
+                  onReschedule={handleReschedule}
+                />
+              )}
+              <div className="text-sm text-muted-foreground">
+                Click a booking to view it, or drag a pending or approved
+                booking sideways to propose a new time.
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="month">
+          <Card>
+            <CardContent className="pt-6">
+              <BookingMonthCalendar
+                bookings={calendarBookings}
+                month={timelineDate}
+                onMonthChange={setTimelineDate}
+                onSelectDay={(day) => {
+                  setTimelineDate(day);
+                  setTimelineView("day");
+                  setViewMode("timeline");
+                }}
+              />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="table">
+          {/* Bookings Table */}
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
+                <CardTitle>Booking Records</CardTitle>
+                {selectedBookings.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm text-muted-foreground">
+                      {selectedBookings.length} selected
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1"
+                      disabled={bulkTargets("approve").length === 0}
+                      onClick={() => openBulkAction("approve")}
+                    >
+                      <Check className="w-3 h-3" />
+                      Approve ({bulkTargets("approve").length})
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1"
+                      disabled={bulkTargets("cancel").length === 0}
+                      onClick={() => openBulkAction("cancel")}
+                    >
+                      <X className="w-3 h-3" />
+                      Cancel ({bulkTargets("cancel").length})
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-1 text-destructive hover:text-destructive"
+                      disabled={bulkTargets("delete").length === 0}
+                      onClick={() => openBulkAction("delete")}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                      Delete ({bulkTargets("delete").length})
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSelected(new Map())}
+                    >
+                      Clear
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border overflow-hidden">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10">
+                          <Checkbox
+                            checked={
+                              pageSelected ||
+                              (pagePartiallySelected ? "indeterminate" : false)
+                            }
+                            onCheckedChange={(checked) =>
+                              togglePageSelected(checked === true)
+                            }
+                            aria-label="Select all bookings on this page"
+                          />
+                        </TableHead>
+                        <TableHead className="w-24">Booking ID</TableHead>
+                        <TableHead className="min-w-32">EV Owner</TableHead>
+                        <TableHead className="min-w-32">Station</TableHead>
+                        <TableHead className="min-w-32">Date & Time</TableHead>
+                        <TableHead className="w-24">Status</TableHead>
+                        <TableHead className="w-32">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {loading ? (
+                        <TableRow>
+                          <TableCell colSpan={7} className="text-center py-12">
+                            <div className="flex items-center justify-center gap-2">
+                              <Clock className="w-4 h-4 animate-spin" />
+                              <span>Loading bookings...</span>
                             </div>
                           </TableCell>
                         </TableRow>
-                      );
-                    })
-                  )}
-                </TableBody>
-              </Table>
-            </div>
-          </div>
+                      ) : (
+                        pageBookings.map((booking) => {
+                          const startDateTime = formatDateTime(booking.startAt);
+                          const endDateTime = formatDateTime(booking.endAt);
+                          const canModify = canModifyBooking(booking);
+
+                          return (
+                            <TableRow
+                              key={booking.id}
+                              data-state={
+                                selected.has(booking.id) ? "selected" : undefined
+                              }
+                            >
+                              <TableCell className="w-10">
+                                <Checkbox
+                                  checked={selected.has(booking.id)}
+                                  onCheckedChange={(checked) =>
+                                    toggleSelected(booking, checked === true)
+                                  }
+                                  aria-label={`Select booking ${booking.id}`}
+                                />
+                              </TableCell>
+                              <TableCell className="font-mono text-sm w-24">
+                                <div className="truncate" title={booking.id}>
+                                  {booking.id.length > 8
+                                    ? `${booking.id.substring(0, 8)}...`
+                                    : booking.id}
+                                </div>
+                              </TableCell>
+                              <TableCell className="min-w-32">
+                                <div>
+                                  <div className="font-medium truncate">
+                                    {booking.ownerName}
+                                  </div>
+                                  <div className="text-sm text-muted-foreground flex items-center gap-1">
+                                    <User className="w-3 h-3 flex-shrink-0" />
+                                    <span className="truncate">
+                                      {booking.ownerNIC}
+                                    </span>
+                                  </div>
+                                </div>
+                              </TableCell>
+                              <TableCell className="min-w-32">
+                                <div className="flex items-center gap-2">
+                                  <MapPin className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                                  <span className="truncate">
+                                    {booking.stationName}
+                                  </span>
+                                </div>
+                              </TableCell>
+                              <TableCell className="min-w-32">
+                                <div>
+                                  <div className="font-medium text-sm">
+                                    {startDateTime.date}
+                                  </div>
+                                  <div className="text-sm text-muted-foreground">
+                                    {startDateTime.time} - {endDateTime.time}
+                                  </div>
+                                </div>
+                              </TableCell>
+                              <TableCell className="w-24">
+                                <StatusBadge status={booking.status} />
+                                {!canModify &&
+                                  (booking.status === "PENDING" ||
+                                    booking.status === "APPROVED") && (
+                                    <div
+                                      className="flex items-center gap-1 mt-1 text-xs text-muted-foreground"
+                                      title={`Within the ${rules.modificationCutoffHours}-hour modification cutoff`}
+                                    >
+                                      <Lock className="w-3 h-3" />
+                                      Locked
+                                    </div>
+                                  )}
+                              </TableCell>
+                              <TableCell className="w-32">
+                                <div className="flex items-center gap-2">
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => handleViewBooking(booking)}
+                                    className="gap-1"
+                                  >
+                                    <Eye className="w-3 h-3" />
+                                    View
+                                  </Button>
+
+                                  {/* Edit button for PENDING and APPROVED bookings */}
+                                  {(booking.status === "PENDING" ||
+                                    booking.status === "APPROVED") && (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => handleEditBooking(booking)}
+                                      className="gap-1"
+                                    >
+                                      <Edit className="w-3 h-3" />
+                                      Edit
+                                    </Button>
+                                  )}
+
+                                  <BookingLifecycleActions
+                                    booking={booking}
+                                    layout="menu"
+                                  />
 
-          {!loading && filteredBookings.length === 0 && (
-            <div className="text-center py-12">
-              <Calendar className="w-12 h-12 mx-auto mb-4 text-muted-foreground opacity-50" />
-              <div className="text-lg font-medium mb-2">No bookings found</div>
-              <div className="text-muted-foreground mb-4">
-                {searchTerm || statusFilter !== "all"
-                  ? "Try adjusting your search or filter criteria"
-                  : "Create the first booking to get started"}
+                                  {/* Delete button for finished bookings */}
+                                  {canDelete(booking) && (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => handleDeleteBooking(booking)}
+                                      className="gap-1 text-destructive hover:text-destructive"
+                                    >
+                                      <Trash2 className="w-3 h-3" />
+                                      Delete
+                                    </Button>
+                                  )}
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
               </div>
-              <Button variant="accent" onClick={() => setCreateModalOpen(true)}>
-                Create New Booking
-              </Button>
-            </div>
-          )}
-        </CardContent>
 
-        {/* Pagination */}
-        {!loading && filteredBookings.length > 0 && (
-          <div className="px-6 pb-6">
-            <DataPagination
-              currentPage={pagination.currentPage}
-              totalPages={pagination.totalPages}
-              totalItems={pagination.totalItems}
-              itemsPerPage={pagination.itemsPerPage}
-              startIndex={pagination.startIndex}
-              endIndex={pagination.endIndex}
-              hasNextPage={pagination.hasNextPage}
-              hasPreviousPage={pagination.hasPreviousPage}
-              pageNumbers={pagination.pageNumbers}
-              showEllipsisStart={pagination.showEllipsisStart}
-              showEllipsisEnd={pagination.showEllipsisEnd}
-              onPageChange={pagination.goToPage}
-              onItemsPerPageChange={setItemsPerPage}
-              onNextPage={pagination.goToNextPage}
-              onPreviousPage={pagination.goToPreviousPage}
-              onFirstPage={pagination.goToFirstPage}
-              onLastPage={pagination.goToLastPage}
-            />
-          </div>
-        )}
-      </Card>
+              {!loading && pagination.totalItems === 0 && (
+                <div className="text-center py-12">
+                  <Calendar className="w-12 h-12 mx-auto mb-4 text-muted-foreground opacity-50" />
+                  <div className="text-lg font-medium mb-2">No bookings found</div>
+                  <div className="text-muted-foreground mb-4">
+                    {hasFilters
+                      ? "Try adjusting your search or filter criteria"
+                      : "Create the first booking to get started"}
+                  </div>
+                  <Button variant="accent" onClick={() => setCreateModalOpen(true)}>
+                    Create New Booking
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+
+            {/* Pagination */}
+            {!loading && pagination.totalItems > 0 && (
+              <div className="px-6 pb-6">
+                <DataPagination
+                  currentPage={pagination.currentPage}
+                  totalPages={pagination.totalPages}
+                  totalItems={pagination.totalItems}
+                  itemsPerPage={pagination.itemsPerPage}
+                  startIndex={pagination.startIndex}
+                  endIndex={pagination.endIndex}
+                  hasNextPage={pagination.hasNextPage}
+                  hasPreviousPage={pagination.hasPreviousPage}
+                  pageNumbers={pagination.pageNumbers}
+                  showEllipsisStart={pagination.showEllipsisStart}
+                  showEllipsisEnd={pagination.showEllipsisEnd}
+                  onPageChange={pagination.goToPage}
+                  onItemsPerPageChange={setItemsPerPage}
+                  onNextPage={pagination.goToNextPage}
+                  onPreviousPage={pagination.goToPreviousPage}
+                  onFirstPage={pagination.goToFirstPage}
+                  onLastPage={pagination.goToLastPage}
+                />
+              </div>
+            )}
+          </Card>
+        </TabsContent>
+      </Tabs>
 
       {/* Modals */}
       <CreateBookingModal
@@ -641,9 +1136,19 @@ export default function Bookings() {
         onOpenChange={setEditModalOpen}
         booking={selectedBooking}
         onUpdateBooking={handleUpdateBooking}
-        onDeleteBooking={handleDeleteBookingFromList}
+        proposedTimes={proposedTimes}
       />
 
+      {bulkAction && (
+        <BulkBookingActionDialog
+          open={!!bulkAction}
+          onOpenChange={(open) => !open && setBulkAction(null)}
+          action={bulkAction.action}
+          bookings={bulkAction.bookings}
+          onCompleted={handleBulkCompleted}
+        />
+      )}
+
       {confirmDialog && (
         <ConfirmationDialog
           open={confirmDialog.open}
@@ -653,6 +1158,17 @@ export default function Bookings() {
           onConfirm={confirmDialog.action}
         />
       )}
+
+      {/* Pages are fetched as the export runs, so every matching booking is
+          included, not just the loaded page */}
+      <ExportDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        entityName="bookings"
+        columns={getBookingExportColumns(rules.timezone)}
+        rowCount={pagination.totalItems}
+        getRows={exportBookings}
+      />
     </div>
   );
 }
@@ -0,0 +1,268 @@
+import { useMemo, useRef, useState } from "react";
+import { Navigate } from "react-router-dom";
+import {
+  CheckCircle2,
+  Clock,
+  LogIn,
+  MapPin,
+  QrCode,
+  ScanLine,
+  User,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSettings } from "@/contexts/SettingsContext";
+import { useToast } from "@/hooks/use-toast";
+import { useBookings, useCheckInBooking } from "@/services/queries";
+import { transformBookingApiResponse } from "@/lib/bookings";
+import { CheckInPayload, parseCheckInPayload, verifyCheckIn } from "@/lib/checkIn";
+import { formatInTimezone } from "@/lib/settings";
+import {
+  BOOKING_STATUS_BADGE_CLASSES,
+  formatBookingStatus,
+} from "@/lib/bookingStatus";
+
+export default function CheckIn() {
+  const { user } = useAuth();
+  const { rules } = useSettings();
+  const { toast } = useToast();
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  const [scanValue, setScanValue] = useState("");
+  const [payload, setPayload] = useState<CheckInPayload | null>(null);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [presentedNIC, setPresentedNIC] = useState("");
+  const checkInBooking = useCheckInBooking();
+
+  const bookingsQuery = useBookings(
+    user?.assignedStationId,
+    !!user?.assignedStationId
+  );
+  const bookings = useMemo(
+    () => (bookingsQuery.data ?? []).map(transformBookingApiResponse),
+    [bookingsQuery.data]
+  );
+
+  if (user?.role !== "StationOperator") {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const booking = payload
+    ? bookings.find((item) => item.id === payload.bookingId)
+    : undefined;
+  const checks =
+    booking && payload
+      ? verifyCheckIn(booking, payload, {
+          role: user.role,
+          assignedStationId: user.assignedStationId,
+          presentedNIC,
+          rules,
+        })
+      : [];
+  const canCheckIn = checks.length > 0 && checks.every((check) => check.passed);
+  const lookupError =
+    scanError ??
+    (payload && !booking && !bookingsQuery.isLoading
+      ? "No booking with this code was found at your station"
+      : null);
+
+  const resetScan = () => {
+    setScanValue("");
+    setPayload(null);
+    setScanError(null);
+    setPresentedNIC("");
+    scanInputRef.current?.focus();
+  };
+
+  // USB scanners type the payload and press Enter, which submits the form
+  const handleLookup = (event: React.FormEvent) => {
+    event.preventDefault();
+    const parsed = parseCheckInPayload(scanValue);
+    setPresentedNIC("");
+    if (!parsed) {
+      setPayload(null);
+      setScanError("Could not read a booking from this code");
+      return;
+    }
+    setPayload(parsed);
+    setScanError(null);
+  };
+
+  const handleCheckIn = async () => {
+    if (!booking) return;
+    try {
+      await checkInBooking.mutateAsync({
+        bookingId: booking.id,
+        actualStartTime: new Date().toISOString(),
+      });
+      toast({
+        title: "Checked In",
+        description: `${booking.ownerName ?? booking.ownerNIC} can start charging.`,
+      });
+      resetScan();
+    } catch (error) {
+      console.error("Failed to check in booking:", error);
+      toast({
+        title: "Error",
+        description: "Failed to check in booking. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatTime = (value: string) =>
+    formatInTimezone(value, rules.timezone, {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Check-In</h1>
+        <p className="text-muted-foreground">
+          Scan a booking QR code to verify the owner and start their session
+        </p>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ScanLine className="w-5 h-5 text-accent" />
+              Scan Booking
+            </CardTitle>
+            <CardDescription>
+              Scan with a USB scanner, or paste the code contents
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleLookup} className="flex gap-2">
+              <div className="relative flex-1">
+                <QrCode className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                <Input
+                  ref={scanInputRef}
+                  autoFocus
+                  value={scanValue}
+                  onChange={(e) => setScanValue(e.target.value)}
+                  placeholder="Scan or paste QR payload..."
+                  className="pl-10 font-mono"
+                />
+              </div>
+              <Button type="submit" variant="accent" disabled={!scanValue.trim()}>
+                Look Up
+              </Button>
+            </form>
+            {lookupError && (
+              <div className="mt-3 flex items-center gap-2 text-sm text-destructive">
+                <XCircle className="w-4 h-4" />
+                {lookupError}
+              </div>
+            )}
+            {bookingsQuery.isLoading && (
+              <div className="mt-3 flex items-center gap-2 text-sm text-muted-foreground">
+                <Clock className="w-4 h-4 animate-spin" />
+                Loading station bookings...
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {booking && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Booking</CardTitle>
+                <Badge
+                  variant="outline"
+                  className={BOOKING_STATUS_BADGE_CLASSES[booking.status]}
+                >
+                  {formatBookingStatus(booking.status)}
+                </Badge>
+              </div>
+              <CardDescription className="font-mono">{booking.id}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="bg-muted/50 p-3 rounded-lg space-y-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <User className="w-4 h-4 text-muted-foreground" />
+                  <span className="font-medium">{booking.ownerName}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <MapPin className="w-4 h-4 text-muted-foreground" />
+                  {booking.stationName || booking.stationId}
+                  {booking.chargingSlot && ` · ${booking.chargingSlot.type} ${booking.chargingSlot.slotId ?? ""}`}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Clock className="w-4 h-4 text-muted-foreground" />
+                  {formatTime(booking.startAt)} – {formatTime(booking.endAt)}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="presented-nic">NIC on the owner's ID card</Label>
+                <Input
+                  id="presented-nic"
+                  value={presentedNIC}
+                  onChange={(e) => setPresentedNIC(e.target.value)}
+                  placeholder="e.g. 199012345678"
+                  className="font-mono"
+                />
+              </div>
+
+              <div className="rounded-md border divide-y">
+                {checks.map((check) => (
+                  <div key={check.key} className="flex items-start gap-3 p-3 text-sm">
+                    {check.passed ? (
+                      <CheckCircle2 className="w-4 h-4 mt-0.5 text-success flex-shrink-0" />
+                    ) : (
+                      <XCircle className="w-4 h-4 mt-0.5 text-destructive flex-shrink-0" />
+                    )}
+                    <div>
+                      <div className="font-medium">{check.label}</div>
+                      <div
+                        className={
+                          check.passed ? "text-muted-foreground" : "text-destructive"
+                        }
+                      >
+                        {check.detail}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={resetScan}>
+                  Clear
+                </Button>
+                <Button
+                  variant="accent"
+                  className="gap-2"
+                  onClick={handleCheckIn}
+                  disabled={!canCheckIn || checkInBooking.isPending}
+                >
+                  <LogIn className="w-4 h-4" />
+                  {checkInBooking.isPending ? "Checking In..." : "Check In"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
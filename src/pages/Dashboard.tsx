@@ -1,4 +1,5 @@
-import { useEffect, useState } from "react";
+import { useEffect } from "react";
+import { format, isSameDay } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { 
   Calendar, 
@@ -11,133 +12,80 @@ import {
   Zap
 } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
+import { useSettings } from "@/contexts/SettingsContext";
+import { useToast } from "@/hooks/use-toast";
 import { DashboardStats } from "@/types/entities";
+import { useBookings, useDashboardStats, useStations } from "@/services/queries";
+import { getOccupiedSlotCount, isActiveBooking } from "@/lib/dashboard";
+import { formatBookingStatus, fromApiBookingStatus } from "@/lib/bookingStatus";
+import { StatCard } from "@/components/dashboard/StatCard";
+import { OperatorDashboard } from "@/components/dashboard/OperatorDashboard";
 
-// Mock data - replace with actual API calls
-const mockStats: DashboardStats = {
-  pendingReservations: 12,
-  approvedFutureReservations: 45,
-  activeStations: 8,
-  deactivatedStations: 2,
+const emptyStats: DashboardStats = {
+  pendingReservations: 0,
+  approvedFutureReservations: 0,
+  activeStations: 0,
+  deactivatedStations: 0,
   sameDayCapacity: {
-    total: 120,
-    booked: 78,
-  }
+    total: 0,
+    booked: 0,
+  },
 };
 
-const mockUpcomingBookings = [
-  {
-    id: "1",
-    time: "09:30 AM",
-    ownerNIC: "123456789V",
-    ownerName: "John Doe",
-    stationName: "Central Station",
-    status: "PENDING" as const
-  },
-  {
-    id: "2", 
-    time: "11:00 AM",
-    ownerNIC: "987654321V",
-    ownerName: "Jane Smith", 
-    stationName: "Mall Parking",
-    status: "APPROVED" as const
-  },
-  {
-    id: "3",
-    time: "02:15 PM", 
-    ownerNIC: "456789123V",
-    ownerName: "Bob Wilson",
-    stationName: "Airport Terminal",
-    status: "APPROVED" as const
-  }
-];
+export default function Dashboard() {
+  const { user } = useAuth();
 
-const mockStations = [
-  {
-    id: "1",
-    name: "Central Station",
-    type: "DC" as const,
-    city: "Colombo",
-    availableSlots: 3,
-    totalSlots: 4,
-    status: "ACTIVE" as const,
-    latitude: 6.9271,
-    longitude: 79.8612,
-  },
-  {
-    id: "2", 
-    name: "Mall Parking",
-    type: "AC" as const,
-    city: "Kandy",
-    availableSlots: 2,
-    totalSlots: 3,
-    status: "ACTIVE" as const,
-    latitude: 7.2906,
-    longitude: 80.6337,
-  },
-  {
-    id: "3",
-    name: "Airport Terminal", 
-    type: "DC" as const,
-    city: "Colombo",
-    availableSlots: 0,
-    totalSlots: 6,
-    status: "ACTIVE" as const,
-    latitude: 7.1808,
-    longitude: 79.8841,
+  // Station operators only see their assigned station
+  if (user?.role === "StationOperator" && user.assignedStationId) {
+    return (
+      <OperatorDashboard user={user} stationId={user.assignedStationId} />
+    );
   }
-];
-
-function StatCard({ 
-  title, 
-  value, 
-  subtitle, 
-  icon: Icon, 
-  variant = "default" 
-}: { 
-  title: string; 
-  value: string | number; 
-  subtitle: string; 
-  icon: React.ElementType;
-  variant?: "default" | "success" | "warning" | "accent";
-}) {
-  const variantClasses = {
-    default: "text-foreground",
-    success: "text-success",
-    warning: "text-warning", 
-    accent: "text-accent"
-  };
 
-  return (
-    <Card>
-      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-        <CardTitle className="text-sm font-medium">{title}</CardTitle>
-        <Icon className={`h-4 w-4 ${variantClasses[variant]}`} />
-      </CardHeader>
-      <CardContent>
-        <div className="text-2xl font-bold">{value}</div>
-        <p className="text-xs text-muted-foreground">{subtitle}</p>
-      </CardContent>
-    </Card>
-  );
+  return <NetworkDashboard />;
 }
 
-export default function Dashboard() {
+function NetworkDashboard() {
   const { user } = useAuth();
-  const [stats, setStats] = useState<DashboardStats>(mockStats);
+  const { rules } = useSettings();
+  const { toast } = useToast();
+  const statsQuery = useDashboardStats();
+  const bookingsQuery = useBookings();
+  const stationsQuery = useStations();
+  const stats = statsQuery.data ?? emptyStats;
+  const bookings = bookingsQuery.data ?? [];
+  const stations = stationsQuery.data ?? [];
+  const loading =
+    statsQuery.isLoading || bookingsQuery.isLoading || stationsQuery.isLoading;
 
+  const loadError = statsQuery.error || bookingsQuery.error || stationsQuery.error;
   useEffect(() => {
-    // Simulate loading stats
-    const loadStats = async () => {
-      // Replace with actual API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      setStats(mockStats);
-    };
+    if (!loadError) return;
+    console.error("Failed to load dashboard:", loadError);
+    toast({
+      title: "Error",
+      description: "Failed to load dashboard data. Please try again.",
+      variant: "destructive",
+    });
+  }, [loadError, toast]);
 
-    loadStats();
-  }, []);
+  const capacityPercentage =
+    stats.sameDayCapacity.total > 0
+      ? Math.round(
+          (stats.sameDayCapacity.booked / stats.sameDayCapacity.total) * 100
+        )
+      : 0;
 
-  const capacityPercentage = Math.round((stats.sameDayCapacity.booked / stats.sameDayCapacity.total) * 100);
+  const todaysBookings = bookings
+    .filter(
+      (booking) =>
+        isActiveBooking(booking) &&
+        isSameDay(new Date(booking.startTime), new Date())
+    )
+    .sort(
+      (a, b) =>
+        new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+    );
 
   return (
     <div className="flex-1 space-y-6 p-6">
@@ -146,7 +94,7 @@ export default function Dashboard() {
         <div>
           <h1 className="text-3xl font-bold tracking-tight">Dashboard</h1>
           <p className="text-muted-foreground">
-            Welcome back, {user?.firstName}. Here's what's happening today.
+            Welcome back, {user?.fullName}. Here's what's happening today.
           </p>
         </div>
         <div className="text-right">
@@ -197,35 +145,41 @@ export default function Dashboard() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            {mockUpcomingBookings.map((booking) => (
+            {loading && (
+              <div className="text-center py-8 text-muted-foreground">
+                Loading bookings...
+              </div>
+            )}
+
+            {!loading && todaysBookings.map((booking) => (
               <div 
                 key={booking.id} 
                 className="flex items-center justify-between p-3 rounded-lg border bg-card hover:bg-accent/5 transition-colors"
               >
                 <div className="flex items-center gap-3">
                   <div className="text-sm font-medium text-muted-foreground w-20">
-                    {booking.time}
+                    {format(new Date(booking.startTime), "hh:mm a")}
                   </div>
                   <div>
-                    <div className="font-medium">{booking.ownerName}</div>
+                    <div className="font-medium">{booking.evOwnerName}</div>
                     <div className="text-sm text-muted-foreground">
-                      {booking.ownerNIC} • {booking.stationName}
+                      {booking.evOwnerNIC} • {booking.stationName}
                     </div>
                   </div>
                 </div>
                 <div 
                   className={`px-2 py-1 rounded-full text-xs font-medium ${
-                    booking.status === 'PENDING' 
+                    booking.status === 'Pending' 
                       ? 'bg-warning/10 text-warning' 
                       : 'bg-success/10 text-success'
                   }`}
                 >
-                  {booking.status.toLowerCase()}
+                  {formatBookingStatus(fromApiBookingStatus(booking.status))}
                 </div>
               </div>
             ))}
             
-            {mockUpcomingBookings.length === 0 && (
+            {!loading && todaysBookings.length === 0 && (
               <div className="text-center py-8 text-muted-foreground">
                 <Calendar className="w-8 h-8 mx-auto mb-2 opacity-50" />
                 <div>No bookings scheduled for today</div>
@@ -243,32 +197,57 @@ export default function Dashboard() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            {mockStations.map((station) => (
-              <div 
-                key={station.id}
-                className="flex items-center justify-between p-3 rounded-lg border bg-card hover:bg-accent/5 transition-colors"
-              >
-                <div className="flex items-center gap-3">
-                  <div className={`w-3 h-3 rounded-full ${
-                    station.status === 'ACTIVE' ? 'bg-success' : 'bg-muted'
-                  }`} />
-                  <div>
-                    <div className="font-medium">{station.name}</div>
-                    <div className="text-sm text-muted-foreground">
-                      {station.type} • {station.city}
+            {loading && (
+              <div className="text-center py-8 text-muted-foreground">
+                Loading stations...
+              </div>
+            )}
+
+            {!loading && stations.map((station) => {
+              const totalSlots = station.acChargingSlots + station.dcChargingSlots;
+              const availableSlots =
+                station.status === "Active"
+                  ? totalSlots - getOccupiedSlotCount(station, bookings)
+                  : 0;
+              const types = [
+                station.acChargingSlots > 0 && "AC",
+                station.dcChargingSlots > 0 && "DC",
+              ].filter(Boolean).join(" + ");
+
+              return (
+                <div 
+                  key={station.id}
+                  className="flex items-center justify-between p-3 rounded-lg border bg-card hover:bg-accent/5 transition-colors"
+                >
+                  <div className="flex items-center gap-3">
+                    <div className={`w-3 h-3 rounded-full ${
+                      station.status === 'Active' ? 'bg-success' : 'bg-muted'
+                    }`} />
+                    <div>
+                      <div className="font-medium">{station.stationName}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {types} • {station.city}
+                      </div>
                     </div>
                   </div>
-                </div>
-                <div className="text-right">
-                  <div className="text-sm font-medium">
-                    {station.availableSlots}/{station.totalSlots}
-                  </div>
-                  <div className="text-xs text-muted-foreground">
-                    available
+                  <div className="text-right">
+                    <div className="text-sm font-medium">
+                      {availableSlots}/{totalSlots}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      available
+                    </div>
                   </div>
                 </div>
+              );
+            })}
+
+            {!loading && stations.length === 0 && (
+              <div className="text-center py-8 text-muted-foreground">
+                <MapPin className="w-8 h-8 mx-auto mb-2 opacity-50" />
+                <div>No stations registered yet</div>
               </div>
-            ))}
+            )}
           </CardContent>
         </Card>
       </div>
@@ -285,13 +264,13 @@ export default function Dashboard() {
           <div className="flex items-start gap-2">
             <AlertTriangle className="w-4 h-4 text-warning mt-0.5" />
             <div>
-              <strong>Booking Window:</strong> Reservations can only be created within 7 days from today
+              <strong>Booking Window:</strong> Reservations can only be created within {rules.bookingWindowDays} days from today
             </div>
           </div>
           <div className="flex items-start gap-2">
             <Clock className="w-4 h-4 text-warning mt-0.5" />
             <div>
-              <strong>Modification Rule:</strong> Updates and cancellations require at least 12 hours notice
+              <strong>Modification Rule:</strong> Updates and cancellations require at least {rules.modificationCutoffHours} hours notice
             </div>
           </div>
           <div className="flex items-start gap-2">
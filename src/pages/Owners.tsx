@@ -8,6 +8,7 @@ import {
   MapPin,
   Car,
   AlertCircle,
+  Download,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -35,9 +36,20 @@ import { EditOwnerModal } from "@/components/owners/EditOwnerModal";
 import { ViewUserModal } from "@/components/bookings/ViewUserModal";
 import { ConfirmationDialog } from "@/components/bookings/ConfirmationDialog";
 import { ReactivationDialog } from "@/components/owners/ReactivationDialog";
-import { usePagination } from "@/hooks/usePagination";
+import { ExportDialog } from "@/components/export/ExportDialog";
+import { useServerPagination } from "@/hooks/usePagination";
+import { useViewParam } from "@/hooks/useViewParam";
 import { DataPagination } from "@/components/ui/data-pagination";
 import { evOwnerApi } from "@/services/api";
+import { useSettings } from "@/contexts/SettingsContext";
+import { fetchAllPages } from "@/lib/export";
+import { getOwnerExportColumns } from "@/lib/exportColumns";
+import {
+  queryKeys,
+  useDeleteEvOwner,
+  useEvOwnerCounts,
+  useUpdateEvOwnerStatus,
+} from "@/services/queries";
 
 // Transform API response to internal EVOwner format
 const transformApiResponseToOwner = (apiOwner: EvOwnerApiResponse): EVOwner => {
@@ -94,14 +106,14 @@ function formatNIC(nic: string) {
 
 export default function Owners() {
   const { toast } = useToast();
+  const { rules } = useSettings();
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [owners, setOwners] = useState<EVOwner[]>([]);
   const [itemsPerPage, setItemsPerPage] = useState(10);
-  const [isLoading, setIsLoading] = useState(true);
 
   // Modal states
   const [createModalOpen, setCreateModalOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [viewModalOpen, setViewModalOpen] = useState(false);
   const [selectedOwner, setSelectedOwner] = useState<EVOwner | null>(null);
@@ -111,34 +123,18 @@ export default function Owners() {
   const [reactivateConfirmOpen, setReactivateConfirmOpen] = useState(false);
   const [ownerToAction, setOwnerToAction] = useState<EVOwner | null>(null);
 
-  // Fetch owners from API
-  useEffect(() => {
-    const fetchOwners = async () => {
-      try {
-        setIsLoading(true);
-        const apiOwners = await evOwnerApi.getAllEvOwners();
-        const transformedOwners = apiOwners.map(transformApiResponseToOwner);
-        setOwners(transformedOwners);
-      } catch (error) {
-        console.error("Failed to fetch EV owners:", error);
-        toast({
-          title: "Error",
-          description: "Failed to load EV owners. Please try again.",
-          variant: "destructive",
-        });
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  const updateEvOwnerStatus = useUpdateEvOwnerStatus();
+  const deleteEvOwner = useDeleteEvOwner();
 
-    fetchOwners();
-  }, [toast]);
-
-  const filteredOwners = owners.filter((owner) => {
+  // Shared by the table and the export
+  const ownerFilters = {
+    search: searchTerm || undefined,
+    status: statusFilter === "all" ? undefined : statusFilter,
+  };
+  const matchesOwnerFilters = (owner: EvOwnerApiResponse) => {
     const matchesSearch =
       owner.nic.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      owner.firstName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      owner.lastName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      owner.fullName.toLowerCase().includes(searchTerm.toLowerCase()) ||
       owner.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
       owner.phone.includes(searchTerm);
 
@@ -146,38 +142,45 @@ export default function Owners() {
       statusFilter === "all" || owner.status === statusFilter;
 
     return matchesSearch && matchesStatus;
-  });
-
-  const pagination = usePagination(filteredOwners, {
-    itemsPerPage,
-    initialPage: 1,
-  });
+  };
 
-  // Reset to first page when filters change
-  useEffect(() => {
-    if (pagination) {
-      pagination.resetToFirstPage();
+  const pagination = useServerPagination(
+    queryKeys.evOwners.pages(),
+    evOwnerApi.getEvOwnersPage,
+    {
+      itemsPerPage,
+      filters: ownerFilters,
+      clientFilter: matchesOwnerFilters,
     }
-  }, [searchTerm, statusFilter, pagination]);
+  );
+  const { isLoading, isServerPaginated } = pagination;
+  const owners = pagination.loadedItems.map(transformApiResponseToOwner);
+  const pageOwners = pagination.currentItems.map(transformApiResponseToOwner);
 
-  const activeOwners = owners.filter((o) => o.status === "Active").length;
-  const deactivatedOwners = owners.filter(
-    (o) => o.status === "Deactivated"
-  ).length;
+  useEffect(() => {
+    if (!pagination.error) return;
+    console.error("Failed to fetch EV owners:", pagination.error);
+    toast({
+      title: "Error",
+      description: "Failed to load EV owners. Please try again.",
+      variant: "destructive",
+    });
+  }, [pagination.error, toast]);
+
+  // Stats cover every owner. When the server pages the list, ask it for
+  // the totals; otherwise count the full list that is already loaded.
+  const countsQuery = useEvOwnerCounts(isServerPaginated && !isLoading);
+  const ownerCounts =
+    isServerPaginated && countsQuery.data
+      ? countsQuery.data
+      : {
+          total: owners.length,
+          active: owners.filter((o) => o.status === "Active").length,
+          deactivated: owners.filter((o) => o.status === "Deactivated").length,
+          withVehicle: owners.filter((o) => o.vehicleModel).length,
+        };
 
   // Handler functions
-  const handleCreateOwner = (newOwner: EVOwner) => {
-    setOwners((prev) => [...prev, newOwner]);
-  };
-
-  const handleUpdateOwner = (updatedOwner: EVOwner) => {
-    setOwners((prev) =>
-      prev.map((owner) =>
-        owner.nic === updatedOwner.nic ? updatedOwner : owner
-      )
-    );
-  };
-
   const handleDeleteOwner = (nic: string) => {
     setOwnerToAction(owners.find((o) => o.nic === nic) || null);
     setDeleteConfirmOpen(true);
@@ -186,11 +189,8 @@ export default function Owners() {
   const confirmDeleteOwner = async () => {
     if (ownerToAction) {
       try {
-        await evOwnerApi.deleteEvOwner(ownerToAction.nic);
+        await deleteEvOwner.mutateAsync(ownerToAction.nic);
 
-        setOwners((prev) =>
-          prev.filter((owner) => owner.nic !== ownerToAction.nic)
-        );
         toast({
           title: "Success",
           description: "EV Owner deleted successfully",
@@ -221,16 +221,11 @@ export default function Owners() {
       setReactivateConfirmOpen(true);
     } else {
       try {
-        await evOwnerApi.updateEvOwnerStatus(owner.nic, newStatus);
-
-        const updatedOwner = {
-          ...owner,
+        await updateEvOwnerStatus.mutateAsync({
+          nic: owner.nic,
           status: newStatus,
-          updatedAt: new Date().toISOString(),
-        };
-        setOwners((prev) =>
-          prev.map((o) => (o.nic === owner.nic ? updatedOwner : o))
-        );
+        });
+
         toast({
           title: "Success",
           description: `Owner ${newStatus.toLowerCase()} successfully`,
@@ -252,16 +247,11 @@ export default function Owners() {
   const confirmReactivateOwner = async () => {
     if (ownerToAction) {
       try {
-        await evOwnerApi.updateEvOwnerStatus(ownerToAction.nic, "Active");
+        await updateEvOwnerStatus.mutateAsync({
+          nic: ownerToAction.nic,
+          status: "Active",
+        });
 
-        const updatedOwner = {
-          ...ownerToAction,
-          status: "Active" as const,
-          updatedAt: new Date().toISOString(),
-        };
-        setOwners((prev) =>
-          prev.map((o) => (o.nic === ownerToAction.nic ? updatedOwner : o))
-        );
         toast({
           title: "Success",
           description: "Owner reactivated successfully",
@@ -287,6 +277,13 @@ export default function Owners() {
     setViewModalOpen(true);
   };
 
+  // Deep links may point at an owner on another page
+  useViewParam(owners, (o) => o.nic, handleViewOwner, {
+    isLoading,
+    fetchItem: async (nic) =>
+      transformApiResponseToOwner(await evOwnerApi.getEvOwnerByNIC(nic)),
+  });
+
   const handleEditOwner = (owner: EVOwner) => {
     setSelectedOwner(owner);
     setEditModalOpen(true);
@@ -304,14 +301,24 @@ export default function Owners() {
             Manage EV owner profiles and account status (NIC as primary key)
           </p>
         </div>
-        <Button
-          variant="accent"
-          className="gap-2"
-          onClick={() => setCreateModalOpen(true)}
-        >
-          <Plus className="w-4 h-4" />
-          Add EV Owner
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => setExportOpen(true)}
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </Button>
+          <Button
+            variant="accent"
+            className="gap-2"
+            onClick={() => setCreateModalOpen(true)}
+          >
+            <Plus className="w-4 h-4" />
+            Add EV Owner
+          </Button>
+        </div>
       </div>
 
       {/* Quick Stats */}
@@ -322,7 +329,7 @@ export default function Owners() {
             <User className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{owners.length}</div>
+            <div className="text-2xl font-bold">{ownerCounts.total}</div>
           </CardContent>
         </Card>
         <Card>
@@ -334,7 +341,7 @@ export default function Owners() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-success">
-              {activeOwners}
+              {ownerCounts.active}
             </div>
           </CardContent>
         </Card>
@@ -345,7 +352,7 @@ export default function Owners() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-muted-foreground">
-              {deactivatedOwners}
+              {ownerCounts.deactivated}
             </div>
           </CardContent>
         </Card>
@@ -356,7 +363,7 @@ export default function Owners() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-accent">
-              {owners.filter((o) => o.vehicleModel).length}
+              {ownerCounts.withVehicle}
             </div>
           </CardContent>
         </Card>
@@ -394,7 +401,7 @@ export default function Owners() {
           </div>
 
           <div className="text-sm text-muted-foreground">
-            Showing {filteredOwners.length} of {owners.length} EV owners
+            Showing {pagination.totalItems} of {ownerCounts.total} EV owners
           </div>
         </CardContent>
       </Card>
@@ -447,7 +454,7 @@ export default function Owners() {
                     </TableCell>
                   </TableRow>
                 ) : (
-                  pagination.currentItems.map((owner) => (
+                  pageOwners.map((owner) => (
                     <TableRow key={owner.nic}>
                       <TableCell className="font-mono font-medium">
                         {formatNIC(owner.nic)}
@@ -560,7 +567,7 @@ export default function Owners() {
             </Table>
           </div>
 
-          {filteredOwners.length === 0 && !isLoading && (
+          {pagination.totalItems === 0 && !isLoading && (
             <div className="text-center py-12">
               <User className="w-12 h-12 mx-auto mb-4 text-muted-foreground opacity-50" />
               <div className="text-lg font-medium mb-2">No EV owners found</div>
@@ -577,7 +584,7 @@ export default function Owners() {
         </CardContent>
 
         {/* Pagination */}
-        {filteredOwners.length > 0 && (
+        {pagination.totalItems > 0 && (
           <div className="px-6 pb-6">
             <DataPagination
               currentPage={pagination.currentPage}
@@ -606,14 +613,12 @@ export default function Owners() {
       <CreateOwnerModal
         open={createModalOpen}
         onOpenChange={setCreateModalOpen}
-        onOwnerCreated={handleCreateOwner}
       />
 
       <EditOwnerModal
         open={editModalOpen}
         onOpenChange={setEditModalOpen}
         owner={selectedOwner}
-        onOwnerUpdated={handleUpdateOwner}
         onOwnerDeleted={handleDeleteOwner}
       />
 
@@ -639,6 +644,23 @@ export default function Owners() {
         onOpenChange={setReactivateConfirmOpen}
         onConfirm={confirmReactivateOwner}
       />
+
+      {/* Pages are fetched as the export runs, so every matching owner is
+          included, not just the loaded page */}
+      <ExportDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        entityName="owners"
+        columns={getOwnerExportColumns(rules.timezone)}
+        rowCount={pagination.totalItems}
+        getRows={() =>
+          fetchAllPages(
+            evOwnerApi.getEvOwnersPage,
+            { filters: ownerFilters },
+            matchesOwnerFilters
+          )
+        }
+      />
     </div>
   );
 }
@@ -0,0 +1,422 @@
+import { useEffect, useMemo, useState } from "react";
+import { addDays, format, startOfDay } from "date-fns";
+import { DateRange } from "react-day-picker";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Pie,
+  PieChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  BarChart3,
+  Calendar as CalendarIcon,
+  CheckCircle,
+  PieChart as PieChartIcon,
+  TrendingUp,
+  XCircle,
+  Zap,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { StatCard } from "@/components/dashboard/StatCard";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { BookingApiResponse } from "@/types/entities";
+import { useBookings, useStations } from "@/services/queries";
+import { useStationSchedules } from "@/hooks/useStationSchedule";
+import {
+  ReportRange,
+  getBookingsPerDay,
+  getDefaultReportRange,
+  getSlotTypeDemand,
+  getStationUtilization,
+  getStatusRatios,
+} from "@/lib/reports";
+
+const bookingsPerDayConfig = {
+  pending: { label: "Pending", color: "hsl(var(--warning))" },
+  approved: { label: "Approved", color: "hsl(var(--success))" },
+  inProgress: { label: "In Progress", color: "hsl(var(--accent))" },
+  completed: { label: "Completed", color: "hsl(var(--primary))" },
+  noShow: { label: "No-Show", color: "hsl(var(--destructive))" },
+  cancelled: { label: "Cancelled", color: "hsl(var(--muted))" },
+} satisfies ChartConfig;
+
+const statusRatioConfig = {
+  count: { label: "Bookings" },
+  Pending: { label: "Pending", color: "hsl(var(--warning))" },
+  Approved: { label: "Approved", color: "hsl(var(--success))" },
+  InProgress: { label: "In Progress", color: "hsl(var(--accent))" },
+  Completed: { label: "Completed", color: "hsl(var(--primary))" },
+  NoShow: { label: "No-Show", color: "hsl(var(--destructive))" },
+  Cancelled: { label: "Cancelled", color: "hsl(var(--muted))" },
+} satisfies ChartConfig;
+
+const utilizationConfig = {
+  utilization: { label: "Utilization %", color: "hsl(var(--success))" },
+} satisfies ChartConfig;
+
+const demandConfig = {
+  bookings: { label: "Bookings", color: "hsl(var(--primary))" },
+  hours: { label: "Hours", color: "hsl(var(--warning))" },
+} satisfies ChartConfig;
+
+const rangePresets = [
+  { id: "7", label: "Last 7 days", days: 7 },
+  { id: "30", label: "Last 30 days", days: 30 },
+  { id: "90", label: "Last 90 days", days: 90 },
+];
+
+export default function Reports() {
+  const [range, setRange] = useState<ReportRange>(getDefaultReportRange);
+  const [preset, setPreset] = useState<string>("30");
+  const { toast } = useToast();
+
+  const bookingsQuery = useBookings();
+  const stationsQuery = useStations();
+  const bookings = useMemo(() => bookingsQuery.data ?? [], [bookingsQuery.data]);
+  const stations = useMemo(() => stationsQuery.data ?? [], [stationsQuery.data]);
+  const loading = bookingsQuery.isLoading || stationsQuery.isLoading;
+
+  // Stations without a saved schedule fall back to 24/7 in the report
+  const schedulesByStation = useStationSchedules(
+    stations.map((station) => station.id)
+  );
+
+  const loadError = bookingsQuery.error || stationsQuery.error;
+  useEffect(() => {
+    if (!loadError) return;
+    console.error("Failed to load report data:", loadError);
+    toast({
+      title: "Error",
+      description: "Failed to load report data. Please try again.",
+      variant: "destructive",
+    });
+  }, [loadError, toast]);
+
+  const bookingsPerDay = useMemo(
+    () => getBookingsPerDay(bookings, range),
+    [bookings, range]
+  );
+  const statusRatios = useMemo(
+    () => getStatusRatios(bookings, range),
+    [bookings, range]
+  );
+  const utilization = useMemo(
+    () => getStationUtilization(bookings, stations, schedulesByStation, range),
+    [bookings, stations, schedulesByStation, range]
+  );
+  const slotTypeDemand = useMemo(
+    () => getSlotTypeDemand(bookings, range),
+    [bookings, range]
+  );
+
+  const totalBookings = statusRatios.reduce((sum, s) => sum + s.count, 0);
+  const countFor = (status: BookingApiResponse["status"]) =>
+    statusRatios.find((s) => s.status === status)?.count ?? 0;
+  const approvalRate =
+    totalBookings > 0
+      ? Math.round(
+          ((countFor("Approved") +
+            countFor("InProgress") +
+            countFor("Completed") +
+            countFor("NoShow")) /
+            totalBookings) *
+            100
+        )
+      : 0;
+  const cancellationRate =
+    totalBookings > 0
+      ? Math.round((countFor("Cancelled") / totalBookings) * 100)
+      : 0;
+  const averageUtilization =
+    utilization.length > 0
+      ? Math.round(
+          utilization.reduce((sum, s) => sum + s.utilization, 0) /
+            utilization.length
+        )
+      : 0;
+
+  const handlePresetChange = (value: string) => {
+    const selectedPreset = rangePresets.find((p) => p.id === value);
+    setPreset(value);
+    if (selectedPreset) {
+      const today = startOfDay(new Date());
+      setRange({ from: addDays(today, -(selectedPreset.days - 1)), to: today });
+    }
+  };
+
+  const handleRangeSelect = (selected: DateRange | undefined) => {
+    if (selected?.from) {
+      setPreset("custom");
+      setRange({ from: selected.from, to: selected.to ?? selected.from });
+    }
+  };
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Reports</h1>
+          <p className="text-muted-foreground">
+            Booking trends, approval ratios and station utilization
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={preset} onValueChange={handlePresetChange}>
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="Date range" />
+            </SelectTrigger>
+            <SelectContent>
+              {rangePresets.map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.label}
+                </SelectItem>
+              ))}
+              <SelectItem value="custom">Custom range</SelectItem>
+            </SelectContent>
+          </Select>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                className={cn("justify-start text-left font-normal w-64")}
+              >
+                <CalendarIcon className="mr-2 h-4 w-4" />
+                {format(range.from, "MMM dd, yyyy")} -{" "}
+                {format(range.to, "MMM dd, yyyy")}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="end">
+              <Calendar
+                mode="range"
+                selected={{ from: range.from, to: range.to }}
+                onSelect={handleRangeSelect}
+                numberOfMonths={2}
+                initialFocus
+                className="p-3 pointer-events-auto"
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        <StatCard
+          title="Total Bookings"
+          value={totalBookings}
+          subtitle={`${bookingsPerDay.length} days`}
+          icon={BarChart3}
+        />
+        <StatCard
+          title="Approval Rate"
+          value={`${approvalRate}%`}
+          subtitle="Approved or completed"
+          icon={CheckCircle}
+          variant="success"
+        />
+        <StatCard
+          title="Cancellation Rate"
+          value={`${cancellationRate}%`}
+          subtitle={`${countFor("Cancelled")} cancelled`}
+          icon={XCircle}
+          variant="warning"
+        />
+        <StatCard
+          title="Avg. Utilization"
+          value={`${averageUtilization}%`}
+          subtitle="Booked ÷ scheduled hours"
+          icon={TrendingUp}
+          variant="accent"
+        />
+      </div>
+
+      {loading ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Loading report data...
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Bookings per day */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BarChart3 className="w-5 h-5 text-accent" />
+                Bookings per Day
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer
+                config={bookingsPerDayConfig}
+                className="aspect-auto h-72 w-full"
+              >
+                <BarChart data={bookingsPerDay}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="pending" stackId="status" fill="var(--color-pending)" />
+                  <Bar dataKey="approved" stackId="status" fill="var(--color-approved)" />
+                  <Bar dataKey="inProgress" stackId="status" fill="var(--color-inProgress)" />
+                  <Bar dataKey="completed" stackId="status" fill="var(--color-completed)" />
+                  <Bar dataKey="noShow" stackId="status" fill="var(--color-noShow)" />
+                  <Bar dataKey="cancelled" stackId="status" fill="var(--color-cancelled)" />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 md:grid-cols-2">
+            {/* Status ratios */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <PieChartIcon className="w-5 h-5 text-accent" />
+                  Approval & Cancellation
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {totalBookings === 0 ? (
+                  <div className="h-64 flex items-center justify-center text-muted-foreground">
+                    No bookings in the selected range
+                  </div>
+                ) : (
+                  <ChartContainer
+                    config={statusRatioConfig}
+                    className="aspect-auto h-64 w-full"
+                  >
+                    <PieChart>
+                      <ChartTooltip
+                        content={<ChartTooltipContent nameKey="status" hideLabel />}
+                      />
+                      <Pie
+                        data={statusRatios}
+                        dataKey="count"
+                        nameKey="status"
+                        innerRadius={50}
+                      >
+                        {statusRatios.map((entry) => (
+                          <Cell
+                            key={entry.status}
+                            fill={`var(--color-${entry.status})`}
+                          />
+                        ))}
+                      </Pie>
+                      <ChartLegend
+                        content={<ChartLegendContent nameKey="status" />}
+                      />
+                    </PieChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* AC vs DC demand */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Zap className="w-5 h-5 text-accent" />
+                  AC vs DC Demand
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={demandConfig} className="aspect-auto h-64 w-full">
+                  <BarChart data={slotTypeDemand}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="slotType" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="bookings" fill="var(--color-bookings)" radius={4} />
+                    <Bar dataKey="hours" fill="var(--color-hours)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Station utilization */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <TrendingUp className="w-5 h-5 text-accent" />
+                Station Utilization
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {utilization.length === 0 ? (
+                <div className="h-32 flex items-center justify-center text-muted-foreground">
+                  No stations to report on
+                </div>
+              ) : (
+                <ChartContainer
+                  config={utilizationConfig}
+                  className="aspect-auto w-full"
+                  style={{ height: Math.max(utilization.length * 40, 160) }}
+                >
+                  <BarChart data={utilization} layout="vertical">
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" domain={[0, 100]} unit="%" />
+                    <YAxis
+                      type="category"
+                      dataKey="stationName"
+                      width={160}
+                      tickLine={false}
+                      axisLine={false}
+                    />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          formatter={(value, name, item) => (
+                            <div className="flex flex-col">
+                              <span>{value}% utilized</span>
+                              <span className="text-muted-foreground">
+                                {item.payload.bookedHours}h booked of{" "}
+                                {item.payload.scheduledHours}h scheduled
+                              </span>
+                            </div>
+                          )}
+                        />
+                      }
+                    />
+                    <Bar
+                      dataKey="utilization"
+                      fill="var(--color-utilization)"
+                      radius={4}
+                    />
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
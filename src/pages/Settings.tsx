@@ -0,0 +1,355 @@
+import { useEffect, useMemo, useState } from "react";
+import { Navigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  CalendarClock,
+  Clock,
+  Globe,
+  RotateCcw,
+  Save,
+  Timer,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSettings } from "@/contexts/SettingsContext";
+import { BusinessRules } from "@/types/settings";
+import { useToast } from "@/hooks/use-toast";
+import {
+  DEFAULT_BUSINESS_RULES,
+  SLOT_GRANULARITY_OPTIONS,
+  getSupportedTimezones,
+} from "@/lib/settings";
+
+const formSchema = z.object({
+  bookingWindowDays: z.coerce
+    .number()
+    .int("Must be a whole number of days")
+    .min(1, "Booking window must be at least 1 day")
+    .max(90, "Booking window cannot exceed 90 days"),
+  modificationCutoffHours: z.coerce
+    .number()
+    .int("Must be a whole number of hours")
+    .min(0, "Cutoff cannot be negative")
+    .max(168, "Cutoff cannot exceed 168 hours"),
+  maxSessionHours: z.coerce
+    .number()
+    .min(0.5, "Sessions must allow at least 30 minutes")
+    .max(24, "Sessions cannot exceed 24 hours"),
+  slotGranularityMinutes: z.coerce.number(),
+  noShowGraceMinutes: z.coerce
+    .number()
+    .int("Must be a whole number of minutes")
+    .min(0, "Grace period cannot be negative")
+    .max(240, "Grace period cannot exceed 240 minutes"),
+  timezone: z.string().min(1, "Timezone is required"),
+  // Edited one per line; blank lines are dropped on save
+  cancellationReasons: z
+    .array(z.string())
+    .transform((reasons) => reasons.map((reason) => reason.trim()).filter(Boolean))
+    .refine((reasons) => reasons.length > 0, "Add at least one reason"),
+});
+
+export default function Settings() {
+  const { user } = useAuth();
+  const { rules, isLoading, updateRules } = useSettings();
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+  const timezones = useMemo(() => getSupportedTimezones(), []);
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: rules,
+  });
+
+  // Sync the form once the stored rules have loaded
+  useEffect(() => {
+    form.reset(rules);
+  }, [rules, form]);
+
+  if (user?.role !== "Backoffice") {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const onSubmit = async (values: z.infer<typeof formSchema>) => {
+    try {
+      setIsSaving(true);
+      await updateRules(values as BusinessRules);
+      toast({
+        title: "Settings Saved",
+        description: "Business rules have been updated",
+      });
+    } catch (error) {
+      console.error("Failed to save settings:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save settings. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
+        <p className="text-muted-foreground">
+          Business rules applied to bookings across the system
+        </p>
+      </div>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <div className="grid gap-6 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <CalendarClock className="w-5 h-5 text-accent" />
+                  Booking Policy
+                </CardTitle>
+                <CardDescription>
+                  When reservations can be created and changed
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="bookingWindowDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Booking Window (days)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        How far ahead of today a booking can be made
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="modificationCutoffHours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Modification Cutoff (hours)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Minimum notice before start time for updates and
+                        cancellations
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Timer className="w-5 h-5 text-accent" />
+                  Charging Sessions
+                </CardTitle>
+                <CardDescription>
+                  Session length and time selection
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="maxSessionHours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Max Session Length (hours)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0.5} step={0.5} {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Longest charging session a single booking can cover
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="slotGranularityMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2">
+                        <Clock className="w-4 h-4" />
+                        Default Slot Granularity
+                      </FormLabel>
+                      <Select
+                        value={field.value?.toString()}
+                        onValueChange={field.onChange}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select granularity" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {SLOT_GRANULARITY_OPTIONS.map((minutes) => (
+                            <SelectItem key={minutes} value={minutes.toString()}>
+                              {minutes} minutes
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Step between selectable start and end times
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="noShowGraceMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>No-Show Grace Period (minutes)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        How long after the start time an approved booking can
+                        be marked as a no-show if nobody has checked in
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="timezone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="flex items-center gap-2">
+                        <Globe className="w-4 h-4" />
+                        Timezone
+                      </FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select timezone" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent className="max-h-60">
+                          {timezones.map((timezone) => (
+                            <SelectItem key={timezone} value={timezone}>
+                              {timezone}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Booking times are displayed in this timezone
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <XCircle className="w-5 h-5 text-accent" />
+                Cancellation Reasons
+              </CardTitle>
+              <CardDescription>
+                Reasons offered when a booking is cancelled
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <FormField
+                control={form.control}
+                name="cancellationReasons"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Textarea
+                        rows={6}
+                        value={field.value?.join("\n") ?? ""}
+                        onChange={(e) => field.onChange(e.target.value.split("\n"))}
+                        onBlur={field.onBlur}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      One reason per line. Staff can still type a different
+                      reason when none of these fit.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="gap-2"
+              onClick={() => form.reset(DEFAULT_BUSINESS_RULES)}
+            >
+              <RotateCcw className="w-4 h-4" />
+              Reset to Defaults
+            </Button>
+            <Button
+              type="submit"
+              variant="accent"
+              className="gap-2"
+              disabled={isLoading || isSaving}
+            >
+              <Save className="w-4 h-4" />
+              {isSaving ? "Saving..." : "Save Settings"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
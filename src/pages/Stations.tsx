@@ -1,4 +1,5 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
+import { format } from "date-fns";
 import {
   Plus,
   Search,
@@ -8,6 +9,9 @@ import {
   AlertTriangle,
   Settings,
   Activity,
+  Clock,
+  CalendarX,
+  Download,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -28,6 +32,12 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { Calendar as DatePicker } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
 import { useToast } from "@/hooks/use-toast";
 import { Station, StationApiResponse } from "@/types/entities";
 import CreateStationModal from "@/components/stations/CreateStationModal";
@@ -35,10 +45,31 @@ import ViewStationModal from "@/components/stations/ViewStationModal";
 import EditStationModal from "@/components/stations/EditStationModal";
 import StationStatusDialog from "@/components/stations/StationStatusDialog";
 import StationScheduleModal from "@/components/stations/StationScheduleModal";
+import ScheduleExceptionModal from "@/components/stations/ScheduleExceptionModal";
 import { ConfirmationDialog } from "@/components/bookings/ConfirmationDialog";
-import { usePagination } from "@/hooks/usePagination";
+import { ExportDialog } from "@/components/export/ExportDialog";
+import { useServerPagination } from "@/hooks/usePagination";
+import { useViewParam } from "@/hooks/useViewParam";
 import { DataPagination } from "@/components/ui/data-pagination";
 import { stationApi } from "@/services/api";
+import {
+  queryKeys,
+  useDeleteStation,
+  useStationCounts,
+  useUpdateStationStatus,
+} from "@/services/queries";
+import { useStationSchedules } from "@/hooks/useStationSchedule";
+import { useStationBookings } from "@/hooks/useStationBookings";
+import { useSettings } from "@/contexts/SettingsContext";
+import { fetchAllPages } from "@/lib/export";
+import { getStationExportColumns } from "@/lib/exportColumns";
+import {
+  SlotOccupancy,
+  StationAvailability,
+  getStationAvailability,
+} from "@/lib/availability";
+import { combineDateAndTime } from "@/lib/schedule";
+import { getTimeSlots } from "@/lib/settings";
 
 // Helper function to transform API response to Station type
 const transformApiResponseToStation = (
@@ -124,20 +155,51 @@ function TypeBadge({ station }: { station: Station }) {
   );
 }
 
+const slotStateStyles: Record<SlotOccupancy["state"], string> = {
+  free: "bg-success",
+  occupied: "bg-warning",
+  closed: "bg-muted-foreground/30",
+};
+
+function OccupancyStrip({ availability }: { availability: StationAvailability }) {
+  return (
+    <div className="flex flex-wrap gap-0.5 max-w-40">
+      {availability.slots.map((slot) => (
+        <div
+          key={slot.slotId}
+          className={`h-3 w-2 rounded-sm ${slotStateStyles[slot.state]}`}
+          title={
+            slot.booking
+              ? `${slot.slotId} (${slot.slotType}): occupied until ${format(
+                  new Date(slot.booking.endTime),
+                  "HH:mm"
+                )}`
+              : `${slot.slotId} (${slot.slotType}): ${slot.state}`
+          }
+        />
+      ))}
+    </div>
+  );
+}
+
 export default function Stations() {
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [typeFilter, setTypeFilter] = useState<string>("all");
-  const [stations, setStations] = useState<Station[]>([]);
   const [itemsPerPage, setItemsPerPage] = useState(10);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+
+  // Availability inputs
+  const [availabilityDate, setAvailabilityDate] = useState<Date | null>(null);
+  const [availabilityTime, setAvailabilityTime] = useState("12:00");
+  const [now, setNow] = useState(() => new Date());
 
   // Modal states
   const [createModalOpen, setCreateModalOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
   const [viewModalOpen, setViewModalOpen] = useState(false);
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [scheduleModalOpen, setScheduleModalOpen] = useState(false);
+  const [exceptionModalOpen, setExceptionModalOpen] = useState(false);
   const [statusDialogOpen, setStatusDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
 
@@ -148,37 +210,21 @@ export default function Stations() {
   );
 
   const { toast } = useToast();
-
-  // Fetch stations from API
-  useEffect(() => {
-    const fetchStations = async () => {
-      try {
-        setIsLoading(true);
-        setError(null);
-        const apiStations = await stationApi.getAllStations();
-        const transformedStations = apiStations.map(
-          transformApiResponseToStation
-        );
-        setStations(transformedStations);
-      } catch (err) {
-        console.error("Failed to fetch stations:", err);
-        setError(
-          err instanceof Error ? err.message : "Failed to load stations"
-        );
-        toast({
-          title: "Error",
-          description: "Failed to load stations",
-          variant: "destructive",
-        });
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchStations();
-  }, [toast]);
-
-  const filteredStations = stations.filter((station) => {
+  const { rules } = useSettings();
+
+  // Shared by the table and the export
+  const stationFilters = {
+    search: searchTerm || undefined,
+    status:
+      statusFilter === "all"
+        ? undefined
+        : statusFilter === "ACTIVE"
+          ? "Active"
+          : "Inactive",
+    type: typeFilter === "all" ? undefined : typeFilter,
+  };
+  const matchesStationFilters = (apiStation: StationApiResponse) => {
+    const station = transformApiResponseToStation(apiStation);
     const matchesSearch =
       station.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
       station.code?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -193,71 +239,100 @@ export default function Stations() {
       (typeFilter === "DC" && station.dcSlots > 0);
 
     return matchesSearch && matchesStatus && matchesType;
-  });
+  };
 
-  const pagination = usePagination(filteredStations, {
-    itemsPerPage,
-    initialPage: 1,
-  });
+  const pagination = useServerPagination(
+    queryKeys.stations.pages(),
+    stationApi.getStationsPage,
+    {
+      itemsPerPage,
+      filters: stationFilters,
+      clientFilter: matchesStationFilters,
+    }
+  );
+  const { isLoading, isServerPaginated } = pagination;
+  const error = pagination.error ? "Failed to load stations" : null;
+  const apiStations = pagination.loadedItems;
+  const stations = useMemo(
+    () => apiStations.map(transformApiResponseToStation),
+    [apiStations]
+  );
+  const pageStations = pagination.currentItems.map(transformApiResponseToStation);
+
+  // Bookings and schedules used to compute slot availability, for the
+  // stations on this page. Stations without a schedule are treated as open
+  // around the clock.
+  const pageStationIds = pageStations.map((station) => station.id);
+  const { bookings } = useStationBookings(pageStationIds);
+  const scheduleData = useStationSchedules(pageStationIds);
+  const updateStationStatus = useUpdateStationStatus();
+  const deleteStation = useDeleteStation();
+
+  useEffect(() => {
+    if (!pagination.error) return;
+    console.error("Failed to fetch stations:", pagination.error);
+    toast({
+      title: "Error",
+      description: "Failed to load stations",
+      variant: "destructive",
+    });
+  }, [pagination.error, toast]);
 
-  // Reset to first page when filters change
+  // Keep "now" availability current
   useEffect(() => {
-    pagination.resetToFirstPage();
-  }, [searchTerm, statusFilter, typeFilter, pagination]);
-
-  const activeStations = stations.filter((s) => s.status === "ACTIVE").length;
-  const deactivatedStations = stations.filter(
-    (s) => s.status === "DEACTIVATED"
-  ).length;
-  const dcStations = stations.filter((s) => s.dcSlots > 0).length;
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Stats cover every station. When the server pages the list, ask it for
+  // the totals; otherwise count the full list that is already loaded.
+  const countsQuery = useStationCounts(isServerPaginated && !isLoading);
+  const stationCounts =
+    isServerPaginated && countsQuery.data
+      ? countsQuery.data
+      : {
+          total: stations.length,
+          active: stations.filter((s) => s.status === "ACTIVE").length,
+          deactivated: stations.filter((s) => s.status === "DEACTIVATED").length,
+          dc: stations.filter((s) => s.dcSlots > 0).length,
+        };
+  // Slot totals can't be counted server-side, so a paged list sums this page
   const totalSlots = stations.reduce(
     (sum, station) => sum + station.acSlots + station.dcSlots,
     0
   );
 
-  const getAvailability = (stationId: string) => {
-    // TODO: Replace with real availability API call
-    // For now, using mock availability based on station slots
-    const station = stations.find((s) => s.id === stationId);
-    if (!station) {
-      return { availableSlots: 0, totalSlots: 0 };
-    }
-
-    const totalSlots = station.acSlots + station.dcSlots;
-    // Mock available slots - in real implementation, this would come from an API
-    const availableSlots =
-      station.status === "ACTIVE"
-        ? Math.floor(totalSlots * 0.6) // Assume 60% availability for active stations
-        : 0;
-
-    return {
-      availableSlots,
-      totalSlots,
-    };
+  const availabilityAt = availabilityDate
+    ? combineDateAndTime(availabilityDate, availabilityTime)
+    : now;
+
+  const getAvailability = (station: Station): StationAvailability | null => {
+    const apiStation = apiStations.find((s) => s.id === station.id);
+    if (!apiStation) return null;
+
+    // Local status changes take precedence over the loaded API record
+    return getStationAvailability(
+      {
+        ...apiStation,
+        status: station.status === "ACTIVE" ? "Active" : "Inactive",
+      },
+      bookings,
+      scheduleData[station.id],
+      availabilityAt
+    );
   };
 
-  // Handler functions
-  const handleCreateStation = async (station: Station) => {
-    // Refresh stations list from API after creation
-    try {
-      const apiStations = await stationApi.getAllStations();
-      const transformedStations = apiStations.map(
-        transformApiResponseToStation
-      );
-      setStations(transformedStations);
-    } catch (err) {
-      console.error("Failed to refresh stations:", err);
-      // Fallback to adding locally if API fails
-      setStations([...stations, station]);
+  async function* exportStations() {
+    for await (const page of fetchAllPages(
+      stationApi.getStationsPage,
+      { filters: stationFilters },
+      matchesStationFilters
+    )) {
+      yield page.map(transformApiResponseToStation);
     }
-  };
-
-  const handleUpdateStation = (updatedStation: Station) => {
-    setStations(
-      stations.map((s) => (s.id === updatedStation.id ? updatedStation : s))
-    );
-  };
+  }
 
+  // Handler functions
   const handleStatusChange = async (stationId: string) => {
     const station = stations.find((s) => s.id === stationId);
     if (station) {
@@ -267,17 +342,7 @@ export default function Stations() {
         const apiStatus = newStatus === "ACTIVE" ? "Active" : "Inactive";
 
         // Call the API to update station status
-        await stationApi.updateStationStatus(stationId, apiStatus);
-
-        // Update local state
-        const updatedStation = {
-          ...station,
-          status: newStatus,
-          updatedAt: new Date().toISOString(),
-        };
-        setStations(
-          stations.map((s) => (s.id === stationId ? updatedStation : s))
-        );
+        await updateStationStatus.mutateAsync({ stationId, status: apiStatus });
 
         toast({
           title: `Station ${
@@ -306,10 +371,7 @@ export default function Stations() {
 
     try {
       // Call the API to delete the station
-      await stationApi.deleteStation(stationId);
-
-      // Update local state
-      setStations(stations.filter((s) => s.id !== stationId));
+      await deleteStation.mutateAsync(stationId);
 
       toast({
         title: "Station Deleted",
@@ -331,13 +393,6 @@ export default function Stations() {
     setSelectedStation(null);
   };
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const handleScheduleUpdate = (stationId: string, schedules: any[]) => {
-    toast({
-      title: "Schedule Updated",
-      description: "Station schedule has been saved successfully.",
-    });
-  };
 
   const openStatusDialog = (
     station: Station,
@@ -353,6 +408,13 @@ export default function Stations() {
     setViewModalOpen(true);
   };
 
+  // Deep links may point at a station on another page
+  useViewParam(stations, (s) => s.id, openViewModal, {
+    isLoading,
+    fetchItem: async (stationId) =>
+      transformApiResponseToStation(await stationApi.getStationById(stationId)),
+  });
+
   const openEditModal = (station: Station) => {
     setSelectedStation(station);
     setEditModalOpen(true);
@@ -363,6 +425,11 @@ export default function Stations() {
     setScheduleModalOpen(true);
   };
 
+  const openExceptionModal = (station: Station) => {
+    setSelectedStation(station);
+    setExceptionModalOpen(true);
+  };
+
   const openDeleteDialog = (station: Station) => {
     setSelectedStation(station);
     setDeleteDialogOpen(true);
@@ -381,14 +448,24 @@ export default function Stations() {
             status
           </p>
         </div>
-        <Button
-          variant="accent"
-          className="gap-2"
-          onClick={() => setCreateModalOpen(true)}
-        >
-          <Plus className="w-4 h-4" />
-          Add Station
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => setExportOpen(true)}
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </Button>
+          <Button
+            variant="accent"
+            className="gap-2"
+            onClick={() => setCreateModalOpen(true)}
+          >
+            <Plus className="w-4 h-4" />
+            Add Station
+          </Button>
+        </div>
       </div>
 
       {/* Quick Stats */}
@@ -401,7 +478,7 @@ export default function Stations() {
             <MapPin className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{stations.length}</div>
+            <div className="text-2xl font-bold">{stationCounts.total}</div>
           </CardContent>
         </Card>
         <Card>
@@ -413,10 +490,10 @@ export default function Stations() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-success">
-              {activeStations}
+              {stationCounts.active}
             </div>
             <p className="text-xs text-muted-foreground">
-              {deactivatedStations} deactivated
+              {stationCounts.deactivated} deactivated
             </p>
           </CardContent>
         </Card>
@@ -426,9 +503,9 @@ export default function Stations() {
             <Zap className="h-4 w-4 text-accent" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-accent">{dcStations}</div>
+            <div className="text-2xl font-bold text-accent">{stationCounts.dc}</div>
             <p className="text-xs text-muted-foreground">
-              {stations.length - dcStations} AC stations
+              {stationCounts.total - stationCounts.dc} AC stations
             </p>
           </CardContent>
         </Card>
@@ -439,7 +516,9 @@ export default function Stations() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{totalSlots}</div>
-            <p className="text-xs text-muted-foreground">Across all stations</p>
+            <p className="text-xs text-muted-foreground">
+              {isServerPaginated ? "On this page" : "Across all stations"}
+            </p>
           </CardContent>
         </Card>
       </div>
@@ -486,8 +565,73 @@ export default function Stations() {
             </Select>
           </div>
 
+          {/* Availability point in time */}
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium">Availability at:</span>
+            <Button
+              variant={availabilityDate ? "outline" : "secondary"}
+              size="sm"
+              onClick={() => setAvailabilityDate(null)}
+            >
+              Now
+            </Button>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant={availabilityDate ? "secondary" : "outline"}
+                  size="sm"
+                  className="gap-2"
+                >
+                  <Calendar className="w-4 h-4" />
+                  {availabilityDate
+                    ? format(availabilityDate, "MMM d, yyyy")
+                    : "Pick a date"}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <DatePicker
+                  mode="single"
+                  selected={availabilityDate ?? undefined}
+                  onSelect={(date) => date && setAvailabilityDate(date)}
+                  initialFocus
+                  className="p-3 pointer-events-auto"
+                />
+              </PopoverContent>
+            </Popover>
+            {availabilityDate && (
+              <Select
+                value={availabilityTime}
+                onValueChange={setAvailabilityTime}
+              >
+                <SelectTrigger className="w-28 h-9">
+                  <Clock className="w-4 h-4 mr-1" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="max-h-60">
+                  {getTimeSlots(rules.slotGranularityMinutes).map((time) => (
+                    <SelectItem key={time} value={time}>
+                      {time}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <div className="flex items-center gap-3 ml-auto text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <span className="h-3 w-2 rounded-sm bg-success" /> Free
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="h-3 w-2 rounded-sm bg-warning" /> Occupied
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="h-3 w-2 rounded-sm bg-muted-foreground/30" />{" "}
+                Closed
+              </span>
+            </div>
+          </div>
+
           <div className="text-sm text-muted-foreground">
-            Showing {filteredStations.length} of {stations.length} charging
+            Showing {pagination.totalItems} of {stationCounts.total} charging
             stations
           </div>
         </CardContent>
@@ -527,7 +671,11 @@ export default function Stations() {
                   <TableHead>Station Details</TableHead>
                   <TableHead>Type & Capacity</TableHead>
                   <TableHead>Location</TableHead>
-                  <TableHead>Current Availability</TableHead>
+                  <TableHead>
+                    {availabilityDate
+                      ? `Availability (${format(availabilityAt, "MMM d, HH:mm")})`
+                      : "Current Availability"}
+                  </TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
@@ -563,14 +711,14 @@ export default function Stations() {
                     </TableCell>
                   </TableRow>
                 ) : (
-                  pagination.currentItems.map((station) => {
-                    const availability = getAvailability(station.id);
+                  pageStations.map((station) => {
+                    const availability = getAvailability(station);
                     const totalSlots = station.acSlots + station.dcSlots;
                     const utilizationPercent =
-                      totalSlots > 0
+                      availability && availability.totalSlots > 0
                         ? Math.round(
-                            ((totalSlots - availability.availableSlots) /
-                              totalSlots) *
+                            (availability.occupiedSlots /
+                              availability.totalSlots) *
                               100
                           )
                         : 0;
@@ -624,23 +772,35 @@ export default function Stations() {
                           </div>
                         </TableCell>
                         <TableCell>
-                          <div className="space-y-1">
-                            <div className="flex items-center gap-2">
-                              <div className="text-sm font-medium">
-                                {availability.availableSlots}/{totalSlots}
+                          {availability ? (
+                            <div className="space-y-1">
+                              <div className="flex items-center gap-2">
+                                <div className="text-sm font-medium">
+                                  {availability.availableSlots}/
+                                  {availability.totalSlots}
+                                </div>
+                                <div
+                                  className={`w-2 h-2 rounded-full ${
+                                    availability.availableSlots > 0
+                                      ? "bg-success"
+                                      : "bg-warning"
+                                  }`}
+                                />
+                              </div>
+                              <OccupancyStrip availability={availability} />
+                              <div className="text-xs text-muted-foreground">
+                                {availability.isOpen
+                                  ? availability.availableSlots === 0
+                                    ? "Full"
+                                    : `${utilizationPercent}% utilized`
+                                  : "Closed"}
                               </div>
-                              <div
-                                className={`w-2 h-2 rounded-full ${
-                                  availability.availableSlots > 0
-                                    ? "bg-success"
-                                    : "bg-warning"
-                                }`}
-                              />
                             </div>
-                            <div className="text-xs text-muted-foreground">
-                              {utilizationPercent}% utilized
+                          ) : (
+                            <div className="text-sm text-muted-foreground">
+                              —
                             </div>
-                          </div>
+                          )}
                         </TableCell>
                         <TableCell>
                           <StatusBadge status={station.status} />
@@ -662,6 +822,14 @@ export default function Stations() {
                               <Settings className="w-3 h-3 mr-1" />
                               Schedule
                             </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openExceptionModal(station)}
+                            >
+                              <CalendarX className="w-3 h-3 mr-1" />
+                              Exceptions
+                            </Button>
                             <Button
                               variant="outline"
                               size="sm"
@@ -701,7 +869,7 @@ export default function Stations() {
             </Table>
           </div>
 
-          {filteredStations.length === 0 && !isLoading && !error && (
+          {pagination.totalItems === 0 && !isLoading && !error && (
             <div className="text-center py-12">
               <MapPin className="w-12 h-12 mx-auto mb-4 text-muted-foreground opacity-50" />
               <div className="text-lg font-medium mb-2">No stations found</div>
@@ -721,7 +889,7 @@ export default function Stations() {
         </CardContent>
 
         {/* Pagination */}
-        {filteredStations.length > 0 && !isLoading && !error && (
+        {pagination.totalItems > 0 && !isLoading && !error && (
           <div className="px-6 pb-6">
             <DataPagination
               currentPage={pagination.currentPage}
@@ -750,7 +918,6 @@ export default function Stations() {
       <CreateStationModal
         open={createModalOpen}
         onOpenChange={setCreateModalOpen}
-        onStationCreated={handleCreateStation}
       />
 
       <ViewStationModal
@@ -765,14 +932,18 @@ export default function Stations() {
         open={editModalOpen}
         onOpenChange={setEditModalOpen}
         station={selectedStation}
-        onStationUpdated={handleUpdateStation}
       />
 
       <StationScheduleModal
         open={scheduleModalOpen}
         onOpenChange={setScheduleModalOpen}
         station={selectedStation}
-        onScheduleUpdated={handleScheduleUpdate}
+      />
+
+      <ScheduleExceptionModal
+        open={exceptionModalOpen}
+        onOpenChange={setExceptionModalOpen}
+        station={selectedStation}
       />
 
       <StationStatusDialog
@@ -793,6 +964,17 @@ export default function Stations() {
         }
         confirmText="Delete Station"
       />
+
+      {/* Pages are fetched as the export runs, so every matching station is
+          included, not just the loaded page */}
+      <ExportDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        entityName="stations"
+        columns={getStationExportColumns(rules.timezone)}
+        rowCount={pagination.totalItems}
+        getRows={exportStations}
+      />
     </div>
   );
 }
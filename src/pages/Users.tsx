@@ -1,6 +1,15 @@
 import { useState, useEffect } from "react";
 import { Navigate } from "react-router-dom";
-import { Plus, Search, Shield, User, MapPin, AlertCircle } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import {
+  Plus,
+  Search,
+  Shield,
+  User,
+  MapPin,
+  AlertCircle,
+  Download,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -27,16 +36,27 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { useAuth } from "@/contexts/AuthContext";
+import { useSettings } from "@/contexts/SettingsContext";
 import { WebUser } from "@/types/auth";
+import { PaginatedResponse } from "@/types/entities";
 import { CreateUserModal } from "@/components/users/CreateUserModal";
 import { ViewWebUserModal } from "@/components/users/ViewWebUserModal";
 import { EditUserModal } from "@/components/users/EditUserModal";
 import { UserStatusDialog } from "@/components/users/UserStatusDialog";
 import { ConfirmationDialog } from "@/components/bookings/ConfirmationDialog";
+import { ExportDialog } from "@/components/export/ExportDialog";
 import { useToast } from "@/hooks/use-toast";
-import { usePagination } from "@/hooks/usePagination";
+import { useServerPagination } from "@/hooks/usePagination";
+import { useViewParam } from "@/hooks/useViewParam";
 import { DataPagination } from "@/components/ui/data-pagination";
-import { stationApi, userApi } from "@/services/api";
+import { fetchAllPages } from "@/lib/export";
+import { getUserExportColumns } from "@/lib/exportColumns";
+import { userApi } from "@/services/api";
+import {
+  queryKeys,
+  useOperationalUserCounts,
+  useStationsForAssignment,
+} from "@/services/queries";
 
 // Station type for assignment
 type StationForAssignment = {
@@ -92,19 +112,77 @@ function StatusBadge({ status }: { status: WebUser["status"] }) {
 export default function Users() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { rules } = useSettings();
   const [searchTerm, setSearchTerm] = useState("");
   const [roleFilter, setRoleFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<string>("all");
-  const [users, setUsers] = useState<WebUser[]>([]);
   const [itemsPerPage, setItemsPerPage] = useState(10);
-  const [availableStations, setAvailableStations] = useState<
-    StationForAssignment[]
-  >([]);
-  const [stationsLoading, setStationsLoading] = useState(false);
-  const [usersLoading, setUsersLoading] = useState(false);
+  const queryClient = useQueryClient();
+
+  const stationsQuery = useStationsForAssignment();
+  const availableStations = (stationsQuery.data ??
+    []) as unknown as StationForAssignment[];
+  const stationsLoading = stationsQuery.isLoading;
+
+  // Shared by the table and the export
+  const userFilters = {
+    search: searchTerm || undefined,
+    role: roleFilter === "all" ? undefined : roleFilter,
+    status: statusFilter === "all" ? undefined : statusFilter,
+  };
+  const matchesUserFilters = (apiUser: ApiOperationalUser) => {
+    const matchesSearch =
+      apiUser.fullName.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      apiUser.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      apiUser.phone?.includes(searchTerm);
+
+    const matchesRole = roleFilter === "all" || apiUser.role === roleFilter;
+    const matchesStatus =
+      statusFilter === "all" || apiUser.status === statusFilter;
+
+    return matchesSearch && matchesRole && matchesStatus;
+  };
+
+  const pagination = useServerPagination(
+    queryKeys.users.pages(),
+    userApi.getOperationalUsersPage<ApiOperationalUser>,
+    {
+      itemsPerPage,
+      filters: userFilters,
+      clientFilter: matchesUserFilters,
+    }
+  );
+  const { isServerPaginated } = pagination;
+  const usersLoading = pagination.isLoading;
+
+  // Map API response to WebUser type
+  const toWebUser = (apiUser: ApiOperationalUser): WebUser => ({
+    id: apiUser.id,
+    email: apiUser.email,
+    fullName: apiUser.fullName,
+    phone: apiUser.phone,
+    role: apiUser.role,
+    status: apiUser.status,
+    assignedStationId: apiUser.assignedStationId,
+    createdAt: apiUser.createdAt,
+    updatedAt: apiUser.updatedAt,
+  });
+  const users = pagination.loadedItems.map(toWebUser);
+  const pageUsers = pagination.currentItems.map(toWebUser);
+
+  // User edits are not persisted by the API yet, so apply them to every
+  // cached page
+  const updateCachedUsers = (
+    update: (users: ApiOperationalUser[]) => ApiOperationalUser[]
+  ) =>
+    queryClient.setQueriesData<PaginatedResponse<ApiOperationalUser>>(
+      { queryKey: queryKeys.users.pages() },
+      (page) => page && { ...page, items: update(page.items) }
+    );
 
   // Modal states
   const [createModalOpen, setCreateModalOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
   const [viewModalOpen, setViewModalOpen] = useState(false);
   const [editModalOpen, setEditModalOpen] = useState(false);
   const [statusDialogOpen, setStatusDialogOpen] = useState(false);
@@ -117,132 +195,71 @@ export default function Users() {
   );
   const [userToAction, setUserToAction] = useState<WebUser | null>(null);
 
-  const filteredUsers = users.filter((webUser) => {
-    const matchesSearch =
-      webUser.fullName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      webUser.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      webUser.phone?.includes(searchTerm);
-
-    const matchesRole = roleFilter === "all" || webUser.role === roleFilter;
-    const matchesStatus =
-      statusFilter === "all" || webUser.status === statusFilter;
-
-    return matchesSearch && matchesRole && matchesStatus;
-  });
 
-  const pagination = usePagination(filteredUsers, {
-    itemsPerPage,
-    initialPage: 1,
-  });
-
-  // Reset to first page when filters change
   useEffect(() => {
-    pagination.resetToFirstPage();
-  }, [searchTerm, roleFilter, statusFilter, pagination]);
+    if (!stationsQuery.error) return;
+    console.error("Failed to fetch stations:", stationsQuery.error);
+    toast({
+      title: "Error",
+      description: "Failed to load available stations",
+      variant: "destructive",
+    });
+  }, [stationsQuery.error, toast]);
 
-  // Fetch available stations for assignment
   useEffect(() => {
-    const fetchStations = async () => {
-      try {
-        setStationsLoading(true);
-        const stations = await stationApi.getAllStationsForAssignment();
-        setAvailableStations(stations);
-      } catch (error) {
-        console.error("Failed to fetch stations:", error);
-        toast({
-          title: "Error",
-          description: "Failed to load available stations",
-          variant: "destructive",
-        });
-      } finally {
-        setStationsLoading(false);
-      }
-    };
+    if (!pagination.error) return;
+    console.error("Failed to fetch users:", pagination.error);
+    toast({
+      title: "Error",
+      description: "Failed to load users",
+      variant: "destructive",
+    });
+  }, [pagination.error, toast]);
 
-    fetchStations();
-  }, [toast]);
+  const handleViewUser = (user: WebUser) => {
+    setSelectedUser(user);
+    setViewModalOpen(true);
+  };
 
-  // Fetch operational users
-  useEffect(() => {
-    const fetchUsers = async () => {
-      try {
-        setUsersLoading(true);
-        const apiUsers = await userApi.getOperationalUsers();
-
-        // Map API response to WebUser type
-        const mappedUsers: WebUser[] = apiUsers.map(
-          (apiUser: ApiOperationalUser) => ({
-            id: apiUser.id,
-            email: apiUser.email,
-            fullName: apiUser.fullName,
-            phone: apiUser.phone,
-            role: apiUser.role,
-            status: apiUser.status,
-            assignedStationId: apiUser.assignedStationId,
-            createdAt: apiUser.createdAt,
-            updatedAt: apiUser.updatedAt,
-          })
-        );
-
-        setUsers(mappedUsers);
-      } catch (error) {
-        console.error("Failed to fetch users:", error);
-        toast({
-          title: "Error",
-          description: "Failed to load users",
-          variant: "destructive",
-        });
-      } finally {
-        setUsersLoading(false);
-      }
-    };
+  // Deep links may point at a user on another page
+  useViewParam(users, (u) => u.id, handleViewUser, {
+    isLoading: usersLoading,
+    fetchItem: async (userId) =>
+      toWebUser(await userApi.getOperationalUserById<ApiOperationalUser>(userId)),
+  });
 
-    fetchUsers();
-  }, [toast]);
+  // Stats cover every user. When the server pages the list, ask it for the
+  // totals; otherwise count the full list that is already loaded.
+  const countsQuery = useOperationalUserCounts(isServerPaginated && !usersLoading);
+  const userCounts =
+    isServerPaginated && countsQuery.data
+      ? countsQuery.data
+      : {
+          total: users.length,
+          backOffice: users.filter((u) => u.role === "Backoffice").length,
+          operators: users.filter((u) => u.role === "StationOperator").length,
+          active: users.filter((u) => u.status === "Active").length,
+        };
 
   // Only BackOffice users can access this page
   if (user?.role !== "Backoffice") {
     return <Navigate to="/dashboard" replace />;
   }
 
-  const backOfficeUsers = users.filter((u) => u.role === "Backoffice").length;
-  const operatorUsers = users.filter(
-    (u) => u.role === "StationOperator"
-  ).length;
-  const activeUsers = users.filter((u) => u.status === "Active").length;
-
-  // Handlers
-  const handleCreateUser = async (newUser: WebUser) => {
-    try {
-      // Refresh users list from API
-      const apiUsers = await userApi.getOperationalUsers();
-
-      // Map API response to WebUser type
-      const mappedUsers: WebUser[] = apiUsers.map(
-        (apiUser: ApiOperationalUser) => ({
-          id: apiUser.id,
-          email: apiUser.email,
-          fullName: apiUser.fullName,
-          phone: apiUser.phone,
-          role: apiUser.role,
-          status: apiUser.status,
-          assignedStationId: apiUser.assignedStationId,
-          createdAt: apiUser.createdAt,
-          updatedAt: apiUser.updatedAt,
-        })
-      );
-
-      setUsers(mappedUsers);
-    } catch (error) {
-      console.error("Failed to refresh users:", error);
-      // Fallback to local update if API fails
-      setUsers((prev) => [...prev, newUser]);
+  async function* exportUsers() {
+    for await (const page of fetchAllPages(
+      userApi.getOperationalUsersPage<ApiOperationalUser>,
+      { filters: userFilters },
+      matchesUserFilters
+    )) {
+      yield page.map(toWebUser);
     }
-  };
+  }
 
+  // Handlers
   const handleUpdateUser = (updatedUser: WebUser) => {
-    setUsers((prev) =>
-      prev.map((u) => (u.id === updatedUser.id ? updatedUser : u))
+    updateCachedUsers((prev) =>
+      prev.map((u) => (u.id === updatedUser.id ? { ...u, ...updatedUser } : u))
     );
     toast({
       title: "Success",
@@ -257,7 +274,7 @@ export default function Users() {
 
   const confirmDeleteUser = () => {
     if (userToAction) {
-      setUsers((prev) => prev.filter((u) => u.id !== userToAction.id));
+      updateCachedUsers((prev) => prev.filter((u) => u.id !== userToAction.id));
       toast({
         title: "Success",
         description: "User deleted successfully",
@@ -277,7 +294,9 @@ export default function Users() {
       status: newStatus,
       updatedAt: new Date().toISOString(),
     };
-    setUsers((prev) => prev.map((u) => (u.id === user.id ? updatedUser : u)));
+    updateCachedUsers((prev) =>
+      prev.map((u) => (u.id === user.id ? { ...u, ...updatedUser } : u))
+    );
     toast({
       title: "Success",
       description: `User ${newStatus.toLowerCase()} successfully`,
@@ -299,11 +318,6 @@ export default function Users() {
     setUserToAction(null);
   };
 
-  const handleViewUser = (user: WebUser) => {
-    setSelectedUser(user);
-    setViewModalOpen(true);
-  };
-
   const handleEditUser = (user: WebUser) => {
     setSelectedUser(user);
     setEditModalOpen(true);
@@ -321,14 +335,24 @@ export default function Users() {
             Manage system users and their role-based access (BackOffice only)
           </p>
         </div>
-        <Button
-          variant="accent"
-          className="gap-2"
-          onClick={() => setCreateModalOpen(true)}
-        >
-          <Plus className="w-4 h-4" />
-          Add User
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="gap-2"
+            onClick={() => setExportOpen(true)}
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </Button>
+          <Button
+            variant="accent"
+            className="gap-2"
+            onClick={() => setCreateModalOpen(true)}
+          >
+            <Plus className="w-4 h-4" />
+            Add User
+          </Button>
+        </div>
       </div>
 
       {/* Quick Stats */}
@@ -339,7 +363,7 @@ export default function Users() {
             <User className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{users.length}</div>
+            <div className="text-2xl font-bold">{userCounts.total}</div>
           </CardContent>
         </Card>
         <Card>
@@ -351,7 +375,7 @@ export default function Users() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-accent">
-              {backOfficeUsers}
+              {userCounts.backOffice}
             </div>
           </CardContent>
         </Card>
@@ -363,7 +387,7 @@ export default function Users() {
             <MapPin className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{operatorUsers}</div>
+            <div className="text-2xl font-bold">{userCounts.operators}</div>
           </CardContent>
         </Card>
         <Card>
@@ -372,7 +396,7 @@ export default function Users() {
             <User className="h-4 w-4 text-success" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold text-success">{activeUsers}</div>
+            <div className="text-2xl font-bold text-success">{userCounts.active}</div>
           </CardContent>
         </Card>
       </div>
@@ -422,7 +446,7 @@ export default function Users() {
           </div>
 
           <div className="text-sm text-muted-foreground">
-            Showing {filteredUsers.length} of {users.length} system users
+            Showing {pagination.totalItems} of {userCounts.total} system users
           </div>
         </CardContent>
       </Card>
@@ -481,7 +505,7 @@ export default function Users() {
                       </TableCell>
                     </TableRow>
                   ) : (
-                    pagination.currentItems.map((webUser) => (
+                    pageUsers.map((webUser) => (
                       <TableRow key={webUser.id}>
                         <TableCell>
                           <div>
@@ -606,7 +630,7 @@ export default function Users() {
             </TooltipProvider>
           </div>
 
-          {!usersLoading && filteredUsers.length === 0 && (
+          {!usersLoading && pagination.totalItems === 0 && (
             <div className="text-center py-12">
               <User className="w-12 h-12 mx-auto mb-4 text-muted-foreground opacity-50" />
               <div className="text-lg font-medium mb-2">No users found</div>
@@ -623,7 +647,7 @@ export default function Users() {
         </CardContent>
 
         {/* Pagination */}
-        {!usersLoading && filteredUsers.length > 0 && (
+        {!usersLoading && pagination.totalItems > 0 && (
           <div className="px-6 pb-6">
             <DataPagination
               currentPage={pagination.currentPage}
@@ -652,7 +676,6 @@ export default function Users() {
       <CreateUserModal
         open={createModalOpen}
         onOpenChange={setCreateModalOpen}
-        onUserCreated={handleCreateUser}
         availableStations={
           Array.isArray(availableStations)
             ? availableStations.map((station) => ({
@@ -715,6 +738,24 @@ export default function Users() {
         confirmText="Delete"
         destructive={true}
       />
+
+      {/* Pages are fetched as the export runs, so every matching user is
+          included, not just the loaded page */}
+      <ExportDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        entityName="users"
+        columns={getUserExportColumns(
+          rules.timezone,
+          Object.fromEntries(
+            (Array.isArray(availableStations) ? availableStations : []).map(
+              (station) => [station.id, station.stationName]
+            )
+          )
+        )}
+        rowCount={pagination.totalItems}
+        getRows={exportUsers}
+      />
     </div>
   );
 }
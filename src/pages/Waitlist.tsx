@@ -0,0 +1,352 @@
+import { useCallback, useState } from "react";
+import {
+  AlertCircle,
+  CalendarPlus,
+  CheckCircle2,
+  Clock,
+  ListOrdered,
+  Trash2,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ConfirmationDialog } from "@/components/bookings/ConfirmationDialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { useSettings } from "@/contexts/SettingsContext";
+import { useToast } from "@/hooks/use-toast";
+import { useViewParam } from "@/hooks/useViewParam";
+import { useWaitlistMatches } from "@/hooks/useWaitlistMatches";
+import {
+  useConvertWaitlistEntry,
+  useRemoveFromWaitlist,
+} from "@/services/queries";
+import { formatInTimezone } from "@/lib/settings";
+import { MatchedWaitlistEntry, WaitlistMatch } from "@/lib/waitlist";
+import { WaitlistEntry } from "@/types/entities";
+
+function MatchBadge({ match }: { match: WaitlistMatch }) {
+  switch (match.state) {
+    case "ready":
+      return (
+        <Badge variant="outline" className="bg-success/10 text-success border-success/20">
+          {match.slotId} free
+        </Badge>
+      );
+    case "full":
+      return <Badge variant="outline">Fully booked</Badge>;
+    case "blocked":
+      return (
+        <Badge
+          variant="outline"
+          className="bg-warning/10 text-warning border-warning/20"
+          title={match.reason}
+        >
+          Unavailable
+        </Badge>
+      );
+    case "expired":
+      return (
+        <Badge variant="outline" className="text-muted-foreground">
+          Expired
+        </Badge>
+      );
+  }
+}
+
+export default function Waitlist() {
+  const { user } = useAuth();
+  const { rules } = useSettings();
+  const { toast } = useToast();
+  const [show, setShow] = useState<"all" | "ready">("all");
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [removing, setRemoving] = useState<WaitlistEntry | null>(null);
+  const convertEntry = useConvertWaitlistEntry();
+  const removeFromWaitlist = useRemoveFromWaitlist();
+
+  // Station operators only see their own station's waitlist
+  const stationId =
+    user?.role === "StationOperator" ? user.assignedStationId : undefined;
+  const { matches, isLoading, error } = useWaitlistMatches(
+    stationId,
+    user?.role !== "StationOperator" || !!stationId
+  );
+
+  const readyCount = matches.filter((item) => item.match.state === "ready").length;
+  const visible =
+    show === "ready" ? matches.filter((item) => item.match.state === "ready") : matches;
+
+  useViewParam(
+    matches,
+    (item) => item.entry.id,
+    useCallback((item: MatchedWaitlistEntry) => setHighlightedId(item.entry.id), [])
+  );
+
+  const formatDate = (value: string) =>
+    formatInTimezone(value, rules.timezone, {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+    });
+  const formatTime = (value: string) =>
+    formatInTimezone(value, rules.timezone, { hour: "2-digit", minute: "2-digit" });
+
+  const handleBook = async ({ entry, match }: MatchedWaitlistEntry) => {
+    if (match.state !== "ready") return;
+    try {
+      await convertEntry.mutateAsync({
+        entry,
+        slotId: match.slotId,
+        convertedBy: { id: user?.id ?? user?.email ?? "", name: user?.fullName ?? "" },
+      });
+      toast({
+        title: "Booking Created",
+        description: `${entry.evOwnerName} is booked on ${match.slotId} for ${formatDate(
+          entry.startTime
+        )}, ${formatTime(entry.startTime)} – ${formatTime(entry.endTime)}.`,
+      });
+    } catch (error) {
+      console.error("Failed to convert waitlist entry:", error);
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to book this waitlist entry. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const confirmRemove = async () => {
+    if (!removing) return;
+    try {
+      await removeFromWaitlist.mutateAsync(removing.id);
+      toast({
+        title: "Removed from Waitlist",
+        description: `${removing.evOwnerName} has been removed from the waitlist.`,
+      });
+    } catch (error) {
+      console.error("Failed to remove waitlist entry:", error);
+      toast({
+        title: "Error",
+        description: "Failed to remove the waitlist entry. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setRemoving(null);
+    }
+  };
+
+  return (
+    <div className="flex-1 space-y-6 p-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Waitlist</h1>
+        <p className="text-muted-foreground">
+          Owners waiting for a fully booked time, in priority order
+        </p>
+      </div>
+
+      {/* Quick Stats */}
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Waiting</CardTitle>
+            <ListOrdered className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{matches.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Ready to Book</CardTitle>
+            <CheckCircle2 className="h-4 w-4 text-success" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-success">{readyCount}</div>
+            <p className="text-xs text-muted-foreground">
+              A matching slot has freed up
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Waitlist Entries</CardTitle>
+            <CardDescription>
+              High priority first, then oldest first. Each free slot is offered
+              to the first matching entry only.
+            </CardDescription>
+          </div>
+          <Select value={show} onValueChange={(value) => setShow(value as "all" | "ready")}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All waiting</SelectItem>
+              <SelectItem value="ready">Ready to book</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">#</TableHead>
+                  <TableHead>EV Owner</TableHead>
+                  <TableHead>Station</TableHead>
+                  <TableHead>Requested Time</TableHead>
+                  <TableHead>Priority</TableHead>
+                  <TableHead>Availability</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-32">
+                      <div className="flex items-center justify-center text-muted-foreground">
+                        <Clock className="w-4 h-4 mr-2 animate-spin" />
+                        Loading waitlist...
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : error ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-32">
+                      <div className="flex items-center justify-center text-destructive">
+                        <AlertCircle className="w-4 h-4 mr-2" />
+                        Failed to load the waitlist
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ) : visible.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="h-32 text-center text-muted-foreground">
+                      {show === "ready"
+                        ? "No waiting owner can be booked yet"
+                        : "Nobody is on the waitlist"}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  visible.map((item) => {
+                    const { entry, match } = item;
+                    return (
+                      <TableRow
+                        key={entry.id}
+                        className={highlightedId === entry.id ? "bg-accent/10" : undefined}
+                      >
+                        <TableCell className="text-muted-foreground">
+                          {matches.indexOf(item) + 1}
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{entry.evOwnerName}</div>
+                          <div className="text-sm text-muted-foreground font-mono">
+                            {entry.evOwnerNIC}
+                          </div>
+                          {entry.notes && (
+                            <div className="text-xs text-muted-foreground">{entry.notes}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div>{entry.stationName || entry.stationId}</div>
+                          <div className="text-sm text-muted-foreground">
+                            {entry.slotType} charging
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div>{formatDate(entry.startTime)}</div>
+                          <div className="text-sm text-muted-foreground">
+                            {formatTime(entry.startTime)} – {formatTime(entry.endTime)}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant="outline"
+                            className={
+                              entry.priority === "High"
+                                ? "bg-accent/10 text-accent border-accent/20"
+                                : undefined
+                            }
+                          >
+                            {entry.priority}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <MatchBadge match={match} />
+                          {match.state === "blocked" && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              {match.reason}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Button
+                              variant="accent"
+                              size="sm"
+                              className="gap-2"
+                              disabled={match.state !== "ready" || convertEntry.isPending}
+                              onClick={() => handleBook(item)}
+                            >
+                              <CalendarPlus className="w-4 h-4" />
+                              Book
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-destructive hover:text-destructive"
+                              onClick={() => setRemoving(entry)}
+                              title="Remove from waitlist"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <ConfirmationDialog
+        open={!!removing}
+        onOpenChange={(open) => !open && setRemoving(null)}
+        title="Remove from Waitlist"
+        description={`Remove ${removing?.evOwnerName ?? "this owner"} from the waitlist?`}
+        onConfirm={confirmRemove}
+        confirmText="Remove"
+        destructive
+      />
+    </div>
+  );
+}
@@ -1,4 +1,48 @@
 import axios, { AxiosInstance, AxiosResponse, AxiosError } from "axios";
+import {
+  AuditLogEntry,
+  BookingApiResponse,
+  DashboardStats,
+  EvOwnerApiResponse,
+  PaginatedResponse,
+  PaginationParams,
+  StationApiResponse,
+  ScheduleException,
+  StationSchedule,
+  WaitlistEntry,
+  WeeklyScheduleTemplate,
+} from "@/types/entities";
+import { BusinessRules } from "@/types/settings";
+import { aggregateDashboardStats } from "@/lib/dashboard";
+import { DEFAULT_BUSINESS_RULES } from "@/lib/settings";
+import {
+  configureAudit,
+  createBackendAuditSink,
+  createFallbackAuditSink,
+  getAuditSink,
+  indexedDbAuditSink,
+  rememberSnapshots,
+  withAudit,
+} from "./auditService";
+
+// Error thrown for failed requests, keeping the HTTP status for callers
+export class ApiError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+// Thrown when a save is rejected because the record changed since it was loaded
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
 
 // Create Axios instance with base configuration
 const api: AxiosInstance = axios.create({
@@ -43,10 +87,104 @@ api.interceptors.response.use(
       error.message ||
       "An unexpected error occurred";
 
-    return Promise.reject(new Error(errorMessage));
+    return Promise.reject(new ApiError(errorMessage, error.response?.status));
   }
 );
 
+// Send audit records to the backend, or keep them in IndexedDB until it exists
+configureAudit({
+  sink: createFallbackAuditSink(createBackendAuditSink(api), indexedDbAuditSink),
+  getActor: () => {
+    const userJson = localStorage.getItem("ev_system_user");
+    if (!userJson) return null;
+    try {
+      const user = JSON.parse(userJson);
+      return { id: user.id || user.email, name: user.fullName };
+    } catch {
+      return null;
+    }
+  },
+});
+
+/**
+ * Request one page of a list endpoint. Backends without paging support
+ * ignore the query params and return the full array, which is passed back
+ * unsliced so callers can filter, sort and page it locally.
+ */
+const getPage = async <T>(
+  url: string,
+  { page, limit, sort, filters }: PaginationParams
+): Promise<PaginatedResponse<T>> => {
+  const response = await api.get(url, {
+    params: { page, limit, sort, ...filters },
+  });
+  const data = response.data;
+
+  if (Array.isArray(data)) {
+    return {
+      items: data as T[],
+      total: data.length,
+      page: 1,
+      limit: data.length,
+      serverPaginated: false,
+    };
+  }
+
+  return {
+    items: (data.items ?? []) as T[],
+    total: data.total ?? 0,
+    page: data.page ?? page,
+    limit: data.limit ?? limit,
+    serverPaginated: true,
+  };
+};
+
+type StationPayload = {
+  stationName: string;
+  stationCode?: string;
+  acChargingSlots: number;
+  dcChargingSlots: number;
+  stationOperatorIds?: string[];
+  addressLine1: string;
+  addressLine2?: string;
+  city: string;
+  latitude: string;
+  longitude: string;
+  googlePlaceID?: string;
+  additionalNotes?: string;
+  status: "Active" | "Inactive";
+};
+
+type BookingPayload = {
+  evOwnerId: string;
+  stationId: string;
+  slotType: "AC" | "DC";
+  slotId: string;
+  startTime: string;
+  endTime: string;
+  vehicleModel?: string;
+  licensePlate?: string;
+  excludeBookingId?: string; // Ignore this booking when checking availability
+  seriesId?: string; // Groups the bookings of a recurring series
+};
+
+type WaitlistPayload = {
+  evOwnerId: string;
+  stationId: string;
+  slotType: "AC" | "DC";
+  startTime: string;
+  endTime: string;
+  priority: "High" | "Normal";
+  notes?: string;
+};
+
+// Why a booking was cancelled and by whom
+type BookingCancellation = {
+  reason: string;
+  cancelledById: string;
+  cancelledByName: string;
+};
+
 // Station API functions
 export const stationApi = {
   // Get all stations available for assignment
@@ -58,7 +196,28 @@ export const stationApi = {
   // Get all stations
   getAllStations: async () => {
     const response = await api.get("/stations/all");
-    return response.data;
+    return rememberSnapshots(
+      "Station",
+      response.data as StationApiResponse[],
+      (station) => station.id
+    );
+  },
+
+  // Get a single station
+  getStationById: async (stationId: string): Promise<StationApiResponse> => {
+    const response = await api.get(`/Stations/${stationId}`);
+    return rememberSnapshots(
+      "Station",
+      [response.data as StationApiResponse],
+      (station) => station.id
+    )[0];
+  },
+
+  // Get one page of stations
+  getStationsPage: async (params: PaginationParams) => {
+    const result = await getPage<StationApiResponse>("/stations/all", params);
+    rememberSnapshots("Station", result.items, (station) => station.id);
+    return result;
   },
 
   // Get unassigned operators
@@ -74,140 +233,353 @@ export const stationApi = {
   },
 
   // Create a new charging station
-  createStation: async (stationData: {
-    stationName: string;
-    stationCode?: string;
-    acChargingSlots: number;
-    dcChargingSlots: number;
-    stationOperatorIds?: string[];
-    addressLine1: string;
-    addressLine2?: string;
-    city: string;
-    latitude: string;
-    longitude: string;
-    googlePlaceID?: string;
-    additionalNotes?: string;
-    status: "Active" | "Inactive";
-  }) => {
-    const response = await api.post("/stations", stationData);
-    return response.data;
-  },
+  createStation: withAudit(
+    {
+      entityType: "Station",
+      action: "CREATE",
+      entityId: ([stationData], result) =>
+        result?.id ?? stationData.stationCode ?? stationData.stationName,
+      after: ([stationData]) => stationData,
+    },
+    async (stationData: StationPayload) => {
+      const response = await api.post("/stations", stationData);
+      return response.data;
+    }
+  ),
 
   // Update an existing charging station
-  updateStation: async (
-    stationId: string,
-    stationData: {
-      stationName: string;
-      stationCode?: string;
-      acChargingSlots: number;
-      dcChargingSlots: number;
-      stationOperatorIds?: string[];
-      addressLine1: string;
-      addressLine2?: string;
-      city: string;
-      latitude: string;
-      longitude: string;
-      googlePlaceID?: string;
-      additionalNotes?: string;
-      status: "Active" | "Inactive";
+  updateStation: withAudit(
+    {
+      entityType: "Station",
+      action: "UPDATE",
+      entityId: ([stationId]) => stationId,
+      after: ([, stationData]) => stationData,
+    },
+    async (stationId: string, stationData: StationPayload) => {
+      const response = await api.patch(`/Stations/${stationId}`, stationData);
+      return response.data;
     }
-  ) => {
-    const response = await api.patch(`/Stations/${stationId}`, stationData);
-    return response.data;
-  },
+  ),
 
   // Update station status (activate/deactivate)
-  updateStationStatus: async (
-    stationId: string,
-    status: "Active" | "Inactive"
-  ) => {
-    const response = await api.patch(`/Stations/${stationId}`, { status });
+  updateStationStatus: withAudit(
+    {
+      entityType: "Station",
+      action: (stationId, status) =>
+        status === "Active" ? "ACTIVATE" : "DEACTIVATE",
+      entityId: ([stationId]) => stationId,
+      after: ([, status]) => ({ status }),
+    },
+    async (stationId: string, status: "Active" | "Inactive") => {
+      const response = await api.patch(`/Stations/${stationId}`, { status });
+      return response.data;
+    }
+  ),
+
+  // Delete a charging station
+  deleteStation: withAudit(
+    {
+      entityType: "Station",
+      action: "DELETE",
+      entityId: ([stationId]) => stationId,
+    },
+    async (stationId: string) => {
+      const response = await api.delete(`/stations/${stationId}`);
+      return response.data;
+    }
+  ),
+};
+
+// Stable representation of a weekly schedule, used as its version when the
+// server does not send an ETag
+const scheduleFingerprint = (schedules: StationSchedule[]) =>
+  JSON.stringify(
+    [...schedules]
+      .sort((a, b) => a.weekday - b.weekday)
+      .map(({ weekday, windows }) => ({ weekday, windows }))
+  );
+
+const fetchWeeklyTemplate = async (stationId: string) => {
+  try {
+    const response = await api.get(`/Stations/${stationId}/schedule`);
+    const schedules: StationSchedule[] = response.data || [];
+    const etag: string | undefined = response.headers?.etag;
+    return {
+      etag,
+      template: {
+        stationId,
+        schedules,
+        version: etag ?? scheduleFingerprint(schedules),
+      },
+    };
+  } catch (error) {
+    // Stations without a saved template start from an empty week
+    if (error instanceof ApiError && error.status === 404) {
+      return {
+        etag: undefined,
+        template: { stationId, schedules: [], version: scheduleFingerprint([]) },
+      };
+    }
+    throw error;
+  }
+};
+
+// Station schedule API functions
+export const scheduleApi = {
+  // Get the weekly schedule template for a station
+  getWeeklySchedule: async (stationId: string): Promise<StationSchedule[]> => {
+    const response = await api.get(`/Stations/${stationId}/schedule`);
     return response.data;
   },
 
-  // Delete a charging station
-  deleteStation: async (stationId: string) => {
-    const response = await api.delete(`/stations/${stationId}`);
+  // Get the weekly template together with the version it was loaded at
+  getWeeklyTemplate: async (
+    stationId: string
+  ): Promise<WeeklyScheduleTemplate> => {
+    const { template } = await fetchWeeklyTemplate(stationId);
+    return template;
+  },
+
+  // Replace the weekly template, rejecting the save with a ConflictError if
+  // it changed since `version` was loaded
+  updateWeeklyTemplate: withAudit(
+    {
+      entityType: "Station",
+      action: "UPDATE",
+      entityId: ([stationId]) => stationId,
+      after: ([, schedules]) => ({ schedule: schedules }),
+    },
+    async (
+      stationId: string,
+      schedules: StationSchedule[],
+      version: string
+    ): Promise<WeeklyScheduleTemplate> => {
+      const conflictMessage =
+        "This schedule was changed by someone else since you opened it";
+
+      const latest = await fetchWeeklyTemplate(stationId);
+      if (latest.template.version !== version) {
+        throw new ConflictError(conflictMessage);
+      }
+
+      try {
+        const response = await api.put(
+          `/Stations/${stationId}/schedule`,
+          schedules,
+          { headers: latest.etag ? { "If-Match": latest.etag } : {} }
+        );
+        const etag: string | undefined = response.headers?.etag;
+        return {
+          stationId,
+          schedules,
+          version: etag ?? scheduleFingerprint(schedules),
+        };
+      } catch (error) {
+        if (
+          error instanceof ApiError &&
+          (error.status === 409 || error.status === 412)
+        ) {
+          throw new ConflictError(conflictMessage);
+        }
+        throw error;
+      }
+    }
+  ),
+
+  // Get the special-date exceptions that override a station's template
+  getScheduleExceptions: async (
+    stationId: string
+  ): Promise<ScheduleException[]> => {
+    const response = await api.get(`/Stations/${stationId}/schedule/exceptions`);
     return response.data;
   },
+
+  // Create or replace the exception for a single date
+  saveScheduleException: withAudit(
+    {
+      entityType: "Station",
+      action: "UPDATE",
+      entityId: ([stationId]) => stationId,
+      after: ([, exception]) => ({
+        [`exception ${exception.date}`]: exception,
+      }),
+    },
+    async (
+      stationId: string,
+      exception: ScheduleException
+    ): Promise<ScheduleException> => {
+      const response = await api.put(
+        `/Stations/${stationId}/schedule/exceptions/${exception.date}`,
+        exception
+      );
+      return response.data ?? exception;
+    }
+  ),
+
+  // Remove the exception for a date, restoring the weekly template
+  deleteScheduleException: withAudit(
+    {
+      entityType: "Station",
+      action: "UPDATE",
+      entityId: ([stationId]) => stationId,
+      after: ([, date]) => ({ [`exception ${date}`]: null }),
+    },
+    async (stationId: string, date: string) => {
+      const response = await api.delete(
+        `/Stations/${stationId}/schedule/exceptions/${date}`
+      );
+      return response.data;
+    }
+  ),
 };
 
 // User API functions
 export const userApi = {
   // Create operational user (Backoffice or StationOperator)
-  createOperationalUser: async (userData: {
-    email: string;
-    password: string;
-    role: "Backoffice" | "StationOperator";
-    fullName: string;
-    phone?: string;
-    assignedStationId?: string | null;
-  }) => {
-    const response = await api.post("/auth/create-operational-user", userData);
-    return response.data;
-  },
+  createOperationalUser: withAudit(
+    {
+      entityType: "WebUser",
+      action: "CREATE",
+      entityId: ([userData], result) => result?.id ?? userData.email,
+      // Never record the password
+      after: ([{ password, ...userData }]) => userData,
+    },
+    async (userData: {
+      email: string;
+      password: string;
+      role: "Backoffice" | "StationOperator";
+      fullName: string;
+      phone?: string;
+      assignedStationId?: string | null;
+    }) => {
+      const response = await api.post(
+        "/auth/create-operational-user",
+        userData
+      );
+      return response.data;
+    }
+  ),
 
   // Get all operational users
   getOperationalUsers: async () => {
     const response = await api.get("/admin/operational-users");
-    return response.data;
+    return rememberSnapshots(
+      "WebUser",
+      response.data as Array<{ id: string }>,
+      (user) => user.id
+    );
+  },
+
+  // Get a single operational user
+  getOperationalUserById: async <T extends { id: string }>(userId: string): Promise<T> => {
+    const response = await api.get(`/admin/operational-users/${userId}`);
+    return rememberSnapshots("WebUser", [response.data as T], (user) => user.id)[0];
+  },
+
+  // Get one page of operational users
+  getOperationalUsersPage: async <T extends { id: string }>(
+    params: PaginationParams
+  ) => {
+    const result = await getPage<T>("/admin/operational-users", params);
+    rememberSnapshots("WebUser", result.items, (user) => user.id);
+    return result;
   },
 };
 
 // EV Owner API functions
 export const evOwnerApi = {
   // Create a new EV owner
-  createEvOwner: async (ownerData: {
-    email: string;
-    nic: string;
-    fullName: string;
-    phone: string;
-    address: string;
-    vehicleModel?: string;
-    licensePlate?: string;
-  }) => {
-    const response = await api.post("/Admin/create-evowner", ownerData);
-    return response.data;
-  },
+  createEvOwner: withAudit(
+    {
+      entityType: "EVOwner",
+      action: "CREATE",
+      entityId: ([ownerData]) => ownerData.nic,
+      after: ([ownerData]) => ownerData,
+    },
+    async (ownerData: {
+      email: string;
+      nic: string;
+      fullName: string;
+      phone: string;
+      address: string;
+      vehicleModel?: string;
+      licensePlate?: string;
+    }) => {
+      const response = await api.post("/Admin/create-evowner", ownerData);
+      return response.data;
+    }
+  ),
 
   // Get all EV owners
   getAllEvOwners: async () => {
     const response = await api.get("/evowners");
-    return response.data;
+    return rememberSnapshots(
+      "EVOwner",
+      response.data as EvOwnerApiResponse[],
+      (owner) => owner.nic
+    );
+  },
+
+  // Get one page of EV owners
+  getEvOwnersPage: async (params: PaginationParams) => {
+    const result = await getPage<EvOwnerApiResponse>("/evowners", params);
+    rememberSnapshots("EVOwner", result.items, (owner) => owner.nic);
+    return result;
   },
 
   // Update an existing EV owner
-  updateEvOwner: async (
-    nic: string,
-    ownerData: {
-      fullName?: string;
-      phone?: string;
-      address?: string;
-      vehicleModel?: string;
-      licensePlate?: string;
-      status?: string;
+  updateEvOwner: withAudit(
+    {
+      entityType: "EVOwner",
+      action: "UPDATE",
+      entityId: ([nic]) => nic,
+      after: ([, ownerData]) => ownerData,
+    },
+    async (
+      nic: string,
+      ownerData: {
+        fullName?: string;
+        phone?: string;
+        address?: string;
+        vehicleModel?: string;
+        licensePlate?: string;
+        status?: string;
+      }
+    ) => {
+      const response = await api.patch(`/evowners/${nic}`, ownerData);
+      return response.data;
     }
-  ) => {
-    const response = await api.patch(`/evowners/${nic}`, ownerData);
-    return response.data;
-  },
+  ),
 
   // Delete an EV owner
-  deleteEvOwner: async (nic: string) => {
-    const response = await api.delete(`/evowners/${nic}`);
-    return response.data;
-  },
+  deleteEvOwner: withAudit(
+    {
+      entityType: "EVOwner",
+      action: "DELETE",
+      entityId: ([nic]) => nic,
+    },
+    async (nic: string) => {
+      const response = await api.delete(`/evowners/${nic}`);
+      return response.data;
+    }
+  ),
 
   // Update EV owner status (activate/deactivate)
-  updateEvOwnerStatus: async (
-    nic: string,
-    status: "Active" | "Deactivated"
-  ) => {
-    const response = await api.patch(`/evowners/${nic}`, {
-      status,
-    });
-    return response.data;
-  },
+  updateEvOwnerStatus: withAudit(
+    {
+      entityType: "EVOwner",
+      action: (nic, status) =>
+        status === "Active" ? "ACTIVATE" : "DEACTIVATE",
+      entityId: ([nic]) => nic,
+      after: ([, status]) => ({ status }),
+    },
+    async (nic: string, status: "Active" | "Deactivated") => {
+      const response = await api.patch(`/evowners/${nic}`, {
+        status,
+      });
+      return response.data;
+    }
+  ),
 
   // Get EV owner details by NIC
   getEvOwnerByNIC: async (nic: string) => {
@@ -219,16 +591,7 @@ export const evOwnerApi = {
 // Booking API functions
 export const bookingApi = {
   // Check slot availability
-  checkAvailability: async (availabilityData: {
-    evOwnerId: string;
-    stationId: string;
-    slotType: "AC" | "DC";
-    slotId: string;
-    startTime: string;
-    endTime: string;
-    vehicleModel?: string;
-    licensePlate?: string;
-  }) => {
+  checkAvailability: async (availabilityData: BookingPayload) => {
     const response = await api.post(
       "/Booking/check-availability",
       availabilityData
@@ -237,66 +600,307 @@ export const bookingApi = {
   },
 
   // Create a new booking
-  createBooking: async (bookingData: {
-    evOwnerId: string;
-    stationId: string;
-    slotType: "AC" | "DC";
-    slotId: string;
-    startTime: string;
-    endTime: string;
-    vehicleModel?: string;
-    licensePlate?: string;
-  }) => {
-    const response = await api.post("/booking", bookingData);
-    return response.data;
-  },
+  createBooking: withAudit(
+    {
+      entityType: "Booking",
+      action: "CREATE",
+      entityId: ([bookingData], result) =>
+        result?.id ?? `${bookingData.stationId}:${bookingData.startTime}`,
+      after: ([bookingData]) => bookingData,
+    },
+    async (bookingData: BookingPayload) => {
+      const response = await api.post("/booking", bookingData);
+      return response.data;
+    }
+  ),
 
   // Get all bookings for Backoffice
   getAllBookings: async () => {
     const response = await api.get("/Booking/all");
-    return response.data;
+    return rememberSnapshots(
+      "Booking",
+      response.data as BookingApiResponse[],
+      (booking) => booking.id
+    );
+  },
+
+  // Get a single booking
+  getBookingById: async (bookingId: string): Promise<BookingApiResponse> => {
+    const response = await api.get(`/Booking/${bookingId}`);
+    return rememberSnapshots(
+      "Booking",
+      [response.data as BookingApiResponse],
+      (booking) => booking.id
+    )[0];
+  },
+
+  // Get one page of bookings, optionally scoped to a station
+  getBookingsPage: async (params: PaginationParams, stationId?: string) => {
+    const result = await getPage<BookingApiResponse>(
+      stationId ? `/Booking/station/${stationId}` : "/Booking/all",
+      params
+    );
+    rememberSnapshots("Booking", result.items, (booking) => booking.id);
+    return result;
   },
 
   // Get bookings by station for StationOperator
   getBookingsByStation: async (stationId: string) => {
     const response = await api.get(`/Booking/station/${stationId}`);
-    return response.data;
+    return rememberSnapshots(
+      "Booking",
+      response.data as BookingApiResponse[],
+      (booking) => booking.id
+    );
   },
 
   // Approve a booking
-  approveBooking: async (bookingId: string) => {
-    const response = await api.post(`/Booking/${bookingId}/approve`);
-    return response.data;
+  approveBooking: withAudit(
+    {
+      entityType: "Booking",
+      action: "UPDATE",
+      entityId: ([bookingId]) => bookingId,
+      after: () => ({ status: "Approved" }),
+    },
+    async (bookingId: string) => {
+      const response = await api.post(`/Booking/${bookingId}/approve`);
+      return response.data;
+    }
+  ),
+
+  // Cancel a booking, keeping it with its reason and the acting user
+  cancelBooking: withAudit(
+    {
+      entityType: "Booking",
+      action: "UPDATE",
+      entityId: ([bookingId]) => bookingId,
+      after: ([, cancellation]) => ({
+        status: "Cancelled",
+        cancellationReason: cancellation.reason,
+        cancelledByName: cancellation.cancelledByName,
+      }),
+    },
+    async (bookingId: string, cancellation: BookingCancellation) => {
+      const response = await api.post(`/Booking/${bookingId}/cancel`, cancellation);
+      return response.data;
+    }
+  ),
+
+  // Check the owner in at the charger, starting the session
+  checkInBooking: withAudit(
+    {
+      entityType: "Booking",
+      action: "UPDATE",
+      entityId: ([bookingId]) => bookingId,
+      after: ([, actualStartTime]) => ({ status: "InProgress", actualStartTime }),
+    },
+    async (bookingId: string, actualStartTime: string) => {
+      const response = await api.post(`/Booking/${bookingId}/check-in`, {
+        actualStartTime,
+      });
+      return response.data;
+    }
+  ),
+
+  // Finish a session with the times it actually ran
+  completeBooking: withAudit(
+    {
+      entityType: "Booking",
+      action: "UPDATE",
+      entityId: ([bookingId]) => bookingId,
+      after: ([, session]) => ({ status: "Completed", ...session }),
+    },
+    async (
+      bookingId: string,
+      session: { actualStartTime: string; actualEndTime: string }
+    ) => {
+      const response = await api.post(`/Booking/${bookingId}/complete`, session);
+      return response.data;
+    }
+  ),
+
+  // Record that the owner never arrived
+  markNoShow: withAudit(
+    {
+      entityType: "Booking",
+      action: "UPDATE",
+      entityId: ([bookingId]) => bookingId,
+      after: () => ({ status: "NoShow" }),
+    },
+    async (bookingId: string) => {
+      const response = await api.post(`/Booking/${bookingId}/no-show`);
+      return response.data;
+    }
+  ),
+
+  // Permanently delete a booking
+  permanentlyDeleteBooking: withAudit(
+    {
+      entityType: "Booking",
+      action: "DELETE",
+      entityId: ([bookingId]) => bookingId,
+    },
+    async (bookingId: string) => {
+      const response = await api.delete(`/Booking/${bookingId}/permanent`);
+      return response.data;
+    }
+  ),
+
+  // Update a booking
+  updateBooking: withAudit(
+    {
+      entityType: "Booking",
+      action: "UPDATE",
+      entityId: ([bookingId]) => bookingId,
+      after: ([, bookingData]) => bookingData,
+    },
+    async (bookingId: string, bookingData: BookingPayload) => {
+      const response = await api.put(`/Booking/${bookingId}`, bookingData);
+      return response.data;
+    }
+  ),
+};
+
+// Waitlist API functions
+export const waitlistApi = {
+  // Get waitlist entries, optionally for one station
+  getWaitlist: async (stationId?: string): Promise<WaitlistEntry[]> => {
+    const response = await api.get("/Waitlist", {
+      params: stationId ? { stationId } : undefined,
+    });
+    return rememberSnapshots(
+      "Waitlist",
+      (response.data ?? []) as WaitlistEntry[],
+      (entry) => entry.id
+    );
   },
 
-  // Cancel/Delete a booking
-  cancelBooking: async (bookingId: string) => {
-    const response = await api.delete(`/Booking/${bookingId}`);
-    return response.data;
+  // Put an owner on the waitlist for a station, slot type and time range
+  addToWaitlist: withAudit(
+    {
+      entityType: "Waitlist",
+      action: "CREATE",
+      entityId: ([entryData], result) =>
+        result?.id ?? `${entryData.stationId}:${entryData.startTime}`,
+      after: ([entryData]) => entryData,
+    },
+    async (entryData: WaitlistPayload): Promise<WaitlistEntry> => {
+      const response = await api.post("/Waitlist", entryData);
+      return response.data;
+    }
+  ),
+
+  // Mark an entry as converted into a booking
+  convertWaitlistEntry: withAudit(
+    {
+      entityType: "Waitlist",
+      action: "UPDATE",
+      entityId: ([entryId]) => entryId,
+      after: ([, bookingId]) => ({ status: "Converted", bookingId }),
+    },
+    async (entryId: string, bookingId?: string) => {
+      const response = await api.post(`/Waitlist/${entryId}/convert`, {
+        bookingId,
+      });
+      return response.data;
+    }
+  ),
+
+  // Take an owner off the waitlist
+  removeFromWaitlist: withAudit(
+    {
+      entityType: "Waitlist",
+      action: "DELETE",
+      entityId: ([entryId]) => entryId,
+    },
+    async (entryId: string) => {
+      const response = await api.delete(`/Waitlist/${entryId}`);
+      return response.data;
+    }
+  ),
+};
+
+// Only a missing (404) or unreachable endpoint falls back to local data; any
+// other error is a real failure
+const isEndpointUnavailable = (error: unknown) =>
+  error instanceof ApiError && (error.status === 404 || error.status === undefined);
+
+// Dashboard API functions
+export const dashboardApi = {
+  // Get dashboard KPIs, aggregating client-side if the stats endpoint is unavailable
+  getStats: async (): Promise<DashboardStats> => {
+    try {
+      const response = await api.get("/Dashboard/stats");
+      return response.data;
+    } catch (error) {
+      if (!isEndpointUnavailable(error)) throw error;
+      console.warn("Dashboard stats endpoint unavailable, aggregating locally");
+      const [bookings, stations]: [BookingApiResponse[], StationApiResponse[]] =
+        await Promise.all([
+          bookingApi.getAllBookings(),
+          stationApi.getAllStations(),
+        ]);
+      return aggregateDashboardStats(bookings, stations);
+    }
   },
+};
 
-  // Permanently delete a booking
-  permanentlyDeleteBooking: async (bookingId: string) => {
-    const response = await api.delete(`/Booking/${bookingId}/permanent`);
-    return response.data;
+const SETTINGS_STORAGE_KEY = "ev_system_settings";
+
+const readStoredRules = (): BusinessRules => {
+  const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+  if (!stored) return DEFAULT_BUSINESS_RULES;
+  try {
+    const parsed = JSON.parse(stored);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? { ...DEFAULT_BUSINESS_RULES, ...parsed }
+      : DEFAULT_BUSINESS_RULES;
+  } catch (error) {
+    console.error("Failed to read stored business rules:", error);
+    return DEFAULT_BUSINESS_RULES;
+  }
+};
+
+// Settings API functions
+export const settingsApi = {
+  // Get business rules, falling back to the locally saved copy
+  getBusinessRules: async (): Promise<BusinessRules> => {
+    try {
+      const response = await api.get("/Settings/business-rules");
+      const rules = { ...DEFAULT_BUSINESS_RULES, ...response.data };
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(rules));
+      return rules;
+    } catch (error) {
+      if (!isEndpointUnavailable(error)) throw error;
+      console.warn("Settings endpoint unavailable, using local business rules");
+      return readStoredRules();
+    }
   },
 
-  // Update a booking
-  updateBooking: async (
-    bookingId: string,
-    bookingData: {
-      evOwnerId: string;
-      stationId: string;
-      slotType: "AC" | "DC";
-      slotId: string;
-      startTime: string;
-      endTime: string;
-      vehicleModel?: string;
-      licensePlate?: string;
+  // Save business rules, keeping a local copy if the endpoint is unavailable
+  updateBusinessRules: async (rules: BusinessRules): Promise<BusinessRules> => {
+    try {
+      const response = await api.put("/Settings/business-rules", rules);
+      const saved = { ...rules, ...response.data };
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(saved));
+      return saved;
+    } catch (error) {
+      if (!isEndpointUnavailable(error)) throw error;
+      console.warn("Settings endpoint unavailable, saving business rules locally");
+      localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(rules));
+      return rules;
     }
-  ) => {
-    const response = await api.put(`/Booking/${bookingId}`, bookingData);
-    return response.data;
+  },
+
+  // Last known business rules, available synchronously on startup
+  getCachedBusinessRules: (): BusinessRules => readStoredRules(),
+};
+
+// Audit log API functions
+export const auditApi = {
+  // Get all audit log entries from the configured sink(s)
+  getAuditLogs: async (): Promise<AuditLogEntry[]> => {
+    return getAuditSink().readAll();
   },
 };
 
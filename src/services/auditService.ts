@@ -0,0 +1,261 @@
+import { AxiosInstance } from "axios";
+import { AuditLogEntry } from "@/types/entities";
+
+type EntityType = AuditLogEntry["entityType"];
+type Snapshot = Record<string, unknown>;
+
+export interface AuditActor {
+  id: string;
+  name: string;
+}
+
+// Destination for audit records (backend, browser storage, ...)
+export interface AuditSink {
+  write: (entry: AuditLogEntry) => Promise<void>;
+  readAll: () => Promise<AuditLogEntry[]>;
+}
+
+export interface AuditOptions<A extends unknown[], R> {
+  entityType: EntityType;
+  action: AuditLogEntry["action"] | ((...args: A) => AuditLogEntry["action"]);
+  entityId: (args: A, result: R) => string;
+  // Fields the call changes; omitted for deletes
+  after?: (args: A, result: R) => Snapshot;
+}
+
+const DB_NAME = "ev_system_audit";
+const STORE_NAME = "entries";
+
+const openAuditDb = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Audit records kept in the browser until the backend ships its own logging
+export const indexedDbAuditSink: AuditSink = {
+  write: async (entry) => {
+    const db = await openAuditDb();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, "readwrite");
+      transaction.objectStore(STORE_NAME).put(entry);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+    db.close();
+  },
+
+  readAll: async () => {
+    const db = await openAuditDb();
+    const entries = await new Promise<AuditLogEntry[]>((resolve, reject) => {
+      const request = db
+        .transaction(STORE_NAME, "readonly")
+        .objectStore(STORE_NAME)
+        .getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    db.close();
+    return entries;
+  },
+};
+
+export const createBackendAuditSink = (client: AxiosInstance): AuditSink => ({
+  write: async (entry) => {
+    await client.post("/AuditLogs", entry);
+  },
+  readAll: async () => {
+    const response = await client.get("/AuditLogs");
+    return response.data;
+  },
+});
+
+// Statuses meaning the primary sink does not exist, rather than a passing failure
+const UNSUPPORTED_STATUSES = [404, 501];
+
+const isUnsupported = (error: unknown) =>
+  UNSUPPORTED_STATUSES.includes((error as { status?: number } | null)?.status);
+
+/**
+ * Write to the primary sink, switching to the fallback for the rest of the
+ * session once the primary reports it is not supported (e.g. the endpoint
+ * does not exist yet). Other failures only send that one entry to the
+ * fallback.
+ */
+export const createFallbackAuditSink = (
+  primary: AuditSink,
+  fallback: AuditSink
+): AuditSink => {
+  let primaryAvailable = true;
+
+  return {
+    write: async (entry) => {
+      if (primaryAvailable) {
+        try {
+          await primary.write(entry);
+          return;
+        } catch (error) {
+          console.warn("Audit endpoint unavailable, storing audit log locally");
+          if (isUnsupported(error)) primaryAvailable = false;
+        }
+      }
+      await fallback.write(entry);
+    },
+
+    readAll: async () => {
+      const results = await Promise.allSettled([
+        primary.readAll(),
+        fallback.readAll(),
+      ]);
+      const entries = new Map<string, AuditLogEntry>();
+      results.forEach((result) => {
+        if (result.status === "fulfilled") {
+          result.value.forEach((entry) => entries.set(entry.id, entry));
+        }
+      });
+      if (results.every((result) => result.status === "rejected")) {
+        throw new Error("Failed to load audit log");
+      }
+      return Array.from(entries.values());
+    },
+  };
+};
+
+let auditSink: AuditSink = indexedDbAuditSink;
+let getAuditActor: () => AuditActor | null = () => null;
+
+export const configureAudit = (config: {
+  sink?: AuditSink;
+  getActor?: () => AuditActor | null;
+}) => {
+  auditSink = config.sink ?? auditSink;
+  getAuditActor = config.getActor ?? getAuditActor;
+};
+
+export const getAuditSink = () => auditSink;
+
+// Last known state of each entity, used as the "before" side of a change
+const snapshots = new Map<string, Snapshot>();
+const snapshotKey = (entityType: EntityType, entityId: string) =>
+  `${entityType}:${entityId}`;
+
+export const rememberSnapshots = <T extends object>(
+  entityType: EntityType,
+  items: T[],
+  getId: (item: T) => string
+) => {
+  items.forEach((item) =>
+    snapshots.set(snapshotKey(entityType, getId(item)), { ...item } as Snapshot)
+  );
+  return items;
+};
+
+// Keep only the fields whose values differ between the two snapshots
+const diffSnapshots = (before: Snapshot, after: Snapshot) => {
+  const changedBefore: Snapshot = {};
+  const changedAfter: Snapshot = {};
+
+  Object.keys({ ...before, ...after }).forEach((field) => {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changedBefore[field] = before[field];
+      changedAfter[field] = after[field];
+    }
+  });
+
+  return { before: changedBefore, after: changedAfter };
+};
+
+const createEntryId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `audit-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Record a change to an entity. Failures are logged but never surface to
+ * the caller, so auditing cannot block the underlying operation.
+ */
+export const recordAudit = async (
+  entityType: EntityType,
+  entityId: string,
+  action: AuditLogEntry["action"],
+  after?: Snapshot
+) => {
+  const key = snapshotKey(entityType, entityId);
+  const before = snapshots.get(key) ?? {};
+  const nextSnapshot = after ? { ...before, ...after } : {};
+  const actor = getAuditActor();
+
+  const entry: AuditLogEntry = {
+    id: createEntryId(),
+    entityType,
+    entityId,
+    action,
+    actorId: actor?.id ?? "unknown",
+    actorName: actor?.name ?? "Unknown user",
+    timestamp: new Date().toISOString(),
+    changes: diffSnapshots(before, nextSnapshot),
+    userAgent: navigator.userAgent,
+  };
+
+  if (after) {
+    snapshots.set(key, nextSnapshot);
+  } else {
+    snapshots.delete(key);
+  }
+
+  try {
+    await auditSink.write(entry);
+  } catch (error) {
+    console.error("Failed to record audit entry:", error);
+  }
+};
+
+/**
+ * Wrap a mutating API call so every successful invocation is audited.
+ */
+export const withAudit = <A extends unknown[], R>(
+  options: AuditOptions<A, R>,
+  call: (...args: A) => Promise<R>
+) => {
+  return async (...args: A): Promise<R> => {
+    const result = await call(...args);
+    const action =
+      typeof options.action === "function"
+        ? options.action(...args)
+        : options.action;
+
+    try {
+      recordAudit(
+        options.entityType,
+        options.entityId(args, result),
+        action,
+        options.after?.(args, result)
+      ).catch((error) => console.error("Failed to record audit entry:", error));
+    } catch (error) {
+      console.error("Failed to record audit entry:", error);
+    }
+
+    return result;
+  };
+};
+
+/**
+ * Download the locally stored audit log as a JSON file.
+ */
+export const exportLocalAuditLog = async () => {
+  const entries = await indexedDbAuditSink.readAll();
+  const blob = new Blob([JSON.stringify(entries, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `audit-log-${new Date().toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+  return entries.length;
+};
@@ -0,0 +1,813 @@
+import {
+  QueryClient,
+  QueryKey,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
+import { BusinessRules } from "@/types/settings";
+import {
+  BookingApiResponse,
+  EvOwnerApiResponse,
+  PaginationParams,
+  ScheduleException,
+  SlotAvailabilityResponse,
+  StationApiResponse,
+  StationSchedule,
+  WaitlistEntry,
+} from "@/types/entities";
+import {
+  ApiError,
+  auditApi,
+  bookingApi,
+  dashboardApi,
+  evOwnerApi,
+  scheduleApi,
+  settingsApi,
+  stationApi,
+  userApi,
+  waitlistApi,
+} from "./api";
+
+type BookingPayload = Parameters<typeof bookingApi.createBooking>[0];
+type BookingCancellation = Parameters<typeof bookingApi.cancelBooking>[1];
+type BookingSession = Parameters<typeof bookingApi.completeBooking>[1];
+type StationPayload = Parameters<typeof stationApi.createStation>[0];
+type EvOwnerPayload = Parameters<typeof evOwnerApi.createEvOwner>[0];
+type EvOwnerUpdatePayload = Parameters<typeof evOwnerApi.updateEvOwner>[1];
+type OperationalUserPayload = Parameters<typeof userApi.createOperationalUser>[0];
+type WaitlistPayload = Parameters<typeof waitlistApi.addToWaitlist>[0];
+
+// Cache keys per entity. Lists sit under the entity's root key so a write
+// can invalidate or patch every cached variant at once.
+export const queryKeys = {
+  stations: {
+    all: ["stations"] as const,
+    list: () => ["stations", "list"] as const,
+    pages: () => ["stations", "page"] as const,
+    counts: () => ["stations", "counts"] as const,
+    forAssignment: () => ["stations", "forAssignment"] as const,
+  },
+  schedules: {
+    all: ["schedules"] as const,
+    weekly: (stationId: string) => ["schedules", stationId, "weekly"] as const,
+    template: (stationId: string) => ["schedules", stationId, "template"] as const,
+    exceptions: (stationId: string) =>
+      ["schedules", stationId, "exceptions"] as const,
+  },
+  users: {
+    all: ["users"] as const,
+    list: () => ["users", "list"] as const,
+    pages: () => ["users", "page"] as const,
+    counts: () => ["users", "counts"] as const,
+    unassignedOperators: () => ["users", "unassignedOperators"] as const,
+  },
+  evOwners: {
+    all: ["evOwners"] as const,
+    pages: () => ["evOwners", "page"] as const,
+    counts: () => ["evOwners", "counts"] as const,
+  },
+  bookings: {
+    all: ["bookings"] as const,
+    list: (stationId?: string) => ["bookings", "list", stationId ?? "all"] as const,
+    pages: (stationId?: string) => ["bookings", "page", stationId ?? "all"] as const,
+    counts: (stationId?: string) => ["bookings", "counts", stationId ?? "all"] as const,
+  },
+  waitlist: {
+    all: ["waitlist"] as const,
+    list: (stationId?: string) => ["waitlist", "list", stationId ?? "all"] as const,
+  },
+  dashboard: {
+    stats: () => ["dashboard", "stats"] as const,
+  },
+  audit: {
+    logs: () => ["audit", "logs"] as const,
+  },
+  settings: {
+    all: ["settings"] as const,
+    rules: (userEmail?: string) => ["settings", "rules", userEmail] as const,
+  },
+};
+
+// Every audited write adds an audit record, so audit queries go stale too
+const invalidate = (queryClient: QueryClient, ...keys: QueryKey[]) =>
+  Promise.all(
+    [...keys, queryKeys.audit.logs()].map((queryKey) =>
+      queryClient.invalidateQueries({ queryKey })
+    )
+  );
+
+type CachedSnapshot = Array<[QueryKey, unknown]>;
+
+/**
+ * Apply `update` to every cached list under `queryKey`, both plain arrays
+ * and paged results, and return the previous data for rollback.
+ */
+const patchCachedLists = async <T>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  update: (items: T[]) => T[]
+): Promise<CachedSnapshot> => {
+  await queryClient.cancelQueries({ queryKey });
+  const previous = queryClient.getQueriesData({ queryKey });
+  queryClient.setQueriesData({ queryKey }, (data: unknown) => {
+    if (Array.isArray(data)) return update(data);
+    if (data && Array.isArray((data as { items?: T[] }).items)) {
+      const page = data as { items: T[] };
+      return { ...page, items: update(page.items) };
+    }
+    return data;
+  });
+  return previous;
+};
+
+// Put back the lists captured by patchCachedLists after a failed write
+const restoreCachedLists = (
+  queryClient: QueryClient,
+  previous: CachedSnapshot | undefined
+) => {
+  previous?.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+};
+
+// Station queries
+
+export function useStations() {
+  return useQuery({
+    queryKey: queryKeys.stations.list(),
+    queryFn: stationApi.getAllStations,
+  });
+}
+
+// Station totals for the stats cards, from limit-1 page requests
+export function useStationCounts(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.stations.counts(),
+    queryFn: async () => {
+      const countStations = async (filters: PaginationParams["filters"]) =>
+        (await stationApi.getStationsPage({ page: 1, limit: 1, filters })).total;
+      const [total, active, deactivated, dc] = await Promise.all([
+        countStations({}),
+        countStations({ status: "Active" }),
+        countStations({ status: "Inactive" }),
+        countStations({ type: "DC" }),
+      ]);
+      return { total, active, deactivated, dc };
+    },
+    enabled,
+  });
+}
+
+export function useStationsForAssignment(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.stations.forAssignment(),
+    queryFn: async (): Promise<StationApiResponse[]> =>
+      (await stationApi.getAllStationsForAssignment()) || [],
+    enabled,
+  });
+}
+
+export function useCreateStation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (station: StationPayload) => stationApi.createStation(station),
+    onSettled: () =>
+      invalidate(
+        queryClient,
+        queryKeys.stations.all,
+        queryKeys.users.all,
+        queryKeys.dashboard.stats()
+      ),
+  });
+}
+
+export function useUpdateStation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ stationId, station }: { stationId: string; station: StationPayload }) =>
+      stationApi.updateStation(stationId, station),
+    onMutate: async ({ stationId, station }) => ({
+      previous: await patchCachedLists<StationApiResponse>(
+        queryClient,
+        queryKeys.stations.all,
+        (stations) =>
+          stations.map((s) =>
+            s.id === stationId
+              ? {
+                  ...s,
+                  stationName: station.stationName,
+                  stationCode: station.stationCode ?? s.stationCode,
+                  acChargingSlots: station.acChargingSlots,
+                  dcChargingSlots: station.dcChargingSlots,
+                }
+              : s
+          )
+      ),
+    }),
+    onError: (_error, _variables, context) =>
+      restoreCachedLists(queryClient, context?.previous),
+    onSettled: () =>
+      invalidate(queryClient, queryKeys.stations.all, queryKeys.users.all),
+  });
+}
+
+export function useUpdateStationStatus() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ stationId, status }: { stationId: string; status: "Active" | "Inactive" }) =>
+      stationApi.updateStationStatus(stationId, status),
+    onMutate: async ({ stationId, status }) => ({
+      previous: await patchCachedLists<StationApiResponse>(
+        queryClient,
+        queryKeys.stations.all,
+        (stations) => stations.map((s) => (s.id === stationId ? { ...s, status } : s))
+      ),
+    }),
+    onError: (_error, _variables, context) =>
+      restoreCachedLists(queryClient, context?.previous),
+    onSettled: () =>
+      invalidate(queryClient, queryKeys.stations.all, queryKeys.dashboard.stats()),
+  });
+}
+
+export function useDeleteStation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (stationId: string) => stationApi.deleteStation(stationId),
+    onMutate: async (stationId) => ({
+      previous: await patchCachedLists<StationApiResponse>(
+        queryClient,
+        queryKeys.stations.all,
+        (stations) => stations.filter((s) => s.id !== stationId)
+      ),
+    }),
+    onError: (_error, _variables, context) =>
+      restoreCachedLists(queryClient, context?.previous),
+    onSettled: () =>
+      invalidate(
+        queryClient,
+        queryKeys.stations.all,
+        queryKeys.users.all,
+        queryKeys.dashboard.stats()
+      ),
+  });
+}
+
+// Schedule queries
+
+// Stations without a schedule or exceptions may 404 instead of returning []
+const emptyIfNotFound = <T>(request: Promise<T[]>): Promise<T[]> =>
+  request
+    .then((data) => data || [])
+    .catch((error) => {
+      if (error instanceof ApiError && error.status === 404) return [];
+      throw error;
+    });
+
+// Query options shared by the single- and multi-station schedule hooks
+export const weeklyScheduleQuery = (stationId: string) => ({
+  queryKey: queryKeys.schedules.weekly(stationId),
+  queryFn: () => emptyIfNotFound(scheduleApi.getWeeklySchedule(stationId)),
+});
+
+export const scheduleExceptionsQuery = (stationId: string) => ({
+  queryKey: queryKeys.schedules.exceptions(stationId),
+  queryFn: () => emptyIfNotFound(scheduleApi.getScheduleExceptions(stationId)),
+});
+
+// Editable weekly template with its version. Always refetched, since a
+// stale version would make the next save look like a conflict.
+export const weeklyTemplateQuery = (stationId: string) => ({
+  queryKey: queryKeys.schedules.template(stationId),
+  queryFn: () => scheduleApi.getWeeklyTemplate(stationId),
+  staleTime: 0,
+});
+
+export function useWeeklySchedule(stationId: string | undefined) {
+  return useQuery({ ...weeklyScheduleQuery(stationId ?? ""), enabled: !!stationId });
+}
+
+export function useScheduleExceptions(stationId: string | undefined) {
+  return useQuery({
+    ...scheduleExceptionsQuery(stationId ?? ""),
+    enabled: !!stationId,
+  });
+}
+
+export function useUpdateWeeklyTemplate() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      stationId,
+      schedules,
+      version,
+    }: {
+      stationId: string;
+      schedules: StationSchedule[];
+      version: string;
+    }) => scheduleApi.updateWeeklyTemplate(stationId, schedules, version),
+    onSuccess: (template) => {
+      queryClient.setQueryData(queryKeys.schedules.template(template.stationId), template);
+      queryClient.setQueryData(
+        queryKeys.schedules.weekly(template.stationId),
+        template.schedules
+      );
+    },
+    onSettled: () => invalidate(queryClient),
+  });
+}
+
+export function useSaveScheduleException() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ stationId, exception }: { stationId: string; exception: ScheduleException }) =>
+      scheduleApi.saveScheduleException(stationId, exception),
+    onSuccess: (saved, { stationId }) =>
+      queryClient.setQueryData<ScheduleException[]>(
+        queryKeys.schedules.exceptions(stationId),
+        (exceptions = []) => [
+          ...exceptions.filter((exception) => exception.date !== saved.date),
+          saved,
+        ]
+      ),
+    onSettled: (_data, _error, { stationId }) =>
+      invalidate(queryClient, queryKeys.schedules.exceptions(stationId)),
+  });
+}
+
+export function useDeleteScheduleException() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ stationId, date }: { stationId: string; date: string }) =>
+      scheduleApi.deleteScheduleException(stationId, date),
+    onMutate: async ({ stationId, date }) => ({
+      previous: await patchCachedLists<ScheduleException>(
+        queryClient,
+        queryKeys.schedules.exceptions(stationId),
+        (exceptions) => exceptions.filter((exception) => exception.date !== date)
+      ),
+    }),
+    onError: (_error, _variables, context) =>
+      restoreCachedLists(queryClient, context?.previous),
+    onSettled: (_data, _error, { stationId }) =>
+      invalidate(queryClient, queryKeys.schedules.exceptions(stationId)),
+  });
+}
+
+// User queries
+
+export function useOperationalUsers<T extends { id: string } = { id: string }>(
+  enabled = true
+) {
+  return useQuery({
+    queryKey: queryKeys.users.list(),
+    queryFn: async () => (await userApi.getOperationalUsers()) as T[],
+    enabled,
+  });
+}
+
+// User totals for the stats cards, from limit-1 page requests
+export function useOperationalUserCounts(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.users.counts(),
+    queryFn: async () => {
+      const countUsers = async (filters: PaginationParams["filters"]) =>
+        (await userApi.getOperationalUsersPage({ page: 1, limit: 1, filters })).total;
+      const [total, backOffice, operators, active] = await Promise.all([
+        countUsers({}),
+        countUsers({ role: "Backoffice" }),
+        countUsers({ role: "StationOperator" }),
+        countUsers({ status: "Active" }),
+      ]);
+      return { total, backOffice, operators, active };
+    },
+    enabled,
+  });
+}
+
+export function useUnassignedOperators<T extends { id: string } = { id: string }>(
+  enabled = true
+) {
+  return useQuery({
+    queryKey: queryKeys.users.unassignedOperators(),
+    queryFn: async (): Promise<T[]> =>
+      (await stationApi.getUnassignedOperators()) || [],
+    enabled,
+  });
+}
+
+export function useCreateOperationalUser() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (user: OperationalUserPayload) => userApi.createOperationalUser(user),
+    onSettled: () => invalidate(queryClient, queryKeys.users.all),
+  });
+}
+
+// EV owner queries
+
+// Owner totals for the stats cards, from limit-1 page requests
+export function useEvOwnerCounts(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.evOwners.counts(),
+    queryFn: async () => {
+      const countOwners = async (filters: PaginationParams["filters"]) =>
+        (await evOwnerApi.getEvOwnersPage({ page: 1, limit: 1, filters })).total;
+      const [total, active, deactivated, withVehicle] = await Promise.all([
+        countOwners({}),
+        countOwners({ status: "Active" }),
+        countOwners({ status: "Deactivated" }),
+        countOwners({ hasVehicle: "true" }),
+      ]);
+      return { total, active, deactivated, withVehicle };
+    },
+    enabled,
+  });
+}
+
+export function useCreateEvOwner() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (owner: EvOwnerPayload) => evOwnerApi.createEvOwner(owner),
+    onSettled: () => invalidate(queryClient, queryKeys.evOwners.all),
+  });
+}
+
+export function useUpdateEvOwner() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ nic, owner }: { nic: string; owner: EvOwnerUpdatePayload }) =>
+      evOwnerApi.updateEvOwner(nic, owner),
+    onSettled: () => invalidate(queryClient, queryKeys.evOwners.all),
+  });
+}
+
+export function useUpdateEvOwnerStatus() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ nic, status }: { nic: string; status: "Active" | "Deactivated" }) =>
+      evOwnerApi.updateEvOwnerStatus(nic, status),
+    onMutate: async ({ nic, status }) => ({
+      previous: await patchCachedLists<EvOwnerApiResponse>(
+        queryClient,
+        queryKeys.evOwners.all,
+        (owners) => owners.map((owner) => (owner.nic === nic ? { ...owner, status } : owner))
+      ),
+    }),
+    onError: (_error, _variables, context) =>
+      restoreCachedLists(queryClient, context?.previous),
+    onSettled: () => invalidate(queryClient, queryKeys.evOwners.all),
+  });
+}
+
+export function useDeleteEvOwner() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (nic: string) => evOwnerApi.deleteEvOwner(nic),
+    onMutate: async (nic) => ({
+      previous: await patchCachedLists<EvOwnerApiResponse>(
+        queryClient,
+        queryKeys.evOwners.all,
+        (owners) => owners.filter((owner) => owner.nic !== nic)
+      ),
+    }),
+    onError: (_error, _variables, context) =>
+      restoreCachedLists(queryClient, context?.previous),
+    onSettled: () =>
+      invalidate(queryClient, queryKeys.evOwners.all, queryKeys.bookings.all),
+  });
+}
+
+// Booking queries
+
+// All bookings, or only one station's when `stationId` is given
+// Query options shared by the single- and multi-station booking hooks
+export const bookingsQuery = (stationId?: string) => ({
+  queryKey: queryKeys.bookings.list(stationId),
+  queryFn: async (): Promise<BookingApiResponse[]> =>
+    ((stationId
+      ? await bookingApi.getBookingsByStation(stationId)
+      : await bookingApi.getAllBookings()) as BookingApiResponse[]) || [],
+});
+
+export function useBookings(stationId?: string, enabled = true) {
+  return useQuery({ ...bookingsQuery(stationId), enabled });
+}
+
+// Booking totals for the stats cards, from limit-1 page requests
+export function useBookingCounts(stationId?: string, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.bookings.counts(stationId),
+    queryFn: async () => {
+      const countBookings = async (filters: PaginationParams["filters"]) =>
+        (await bookingApi.getBookingsPage({ page: 1, limit: 1, filters }, stationId))
+          .total;
+      const [total, pending, approved, completed] = await Promise.all([
+        countBookings({}),
+        countBookings({ status: "Pending" }),
+        countBookings({ status: "Approved" }),
+        countBookings({ status: "Completed" }),
+      ]);
+      return { total, pending, approved, completed };
+    },
+    enabled,
+  });
+}
+
+// Bookings and stats both change with any booking write
+const invalidateBookings = (queryClient: QueryClient) =>
+  invalidate(queryClient, queryKeys.bookings.all, queryKeys.dashboard.stats());
+
+// Optimistically apply changes to a booking in every cached list
+const patchCachedBooking = (
+  queryClient: QueryClient,
+  bookingId: string,
+  changes: Partial<BookingApiResponse>
+) =>
+  patchCachedLists<BookingApiResponse>(queryClient, queryKeys.bookings.all, (bookings) =>
+    bookings.map((booking) =>
+      booking.id === bookingId
+        ? { ...booking, ...changes, updatedAt: new Date().toISOString() }
+        : booking
+    )
+  );
+
+// Optimistically drop a booking from every cached list
+const removeCachedBooking = (queryClient: QueryClient, bookingId: string) =>
+  patchCachedLists<BookingApiResponse>(queryClient, queryKeys.bookings.all, (bookings) =>
+    bookings.filter((booking) => booking.id !== bookingId)
+  );
+
+export function useCreateBooking() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (booking: BookingPayload) => bookingApi.createBooking(booking),
+    onSettled: () => invalidateBookings(queryClient),
+  });
+}
+
+export function useUpdateBooking() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ bookingId, booking }: { bookingId: string; booking: BookingPayload }) =>
+      bookingApi.updateBooking(bookingId, booking),
+    onMutate: async ({ bookingId, booking }) => ({
+      previous: await patchCachedLists<BookingApiResponse>(
+        queryClient,
+        queryKeys.bookings.all,
+        (bookings) =>
+          bookings.map((b) =>
+            b.id === bookingId
+              ? {
+                  ...b,
+                  stationId: booking.stationId,
+                  slotType: booking.slotType,
+                  slotId: booking.slotId,
+                  startTime: booking.startTime,
+                  endTime: booking.endTime,
+                }
+              : b
+          )
+      ),
+    }),
+    onError: (_error, _variables, context) =>
+      restoreCachedLists(queryClient, context?.previous),
+    onSettled: () => invalidateBookings(queryClient),
+  });
+}
+
+export function useApproveBooking() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (bookingId: string) => bookingApi.approveBooking(bookingId),
+    onMutate: async (bookingId) => ({
+      previous: await patchCachedBooking(queryClient, bookingId, { status: "Approved" }),
+    }),
+    onError: (_error, _variables, context) =>
+      restoreCachedLists(queryClient, context?.previous),
+    onSettled: () => invalidateBookings(queryClient),
+  });
+}
+
+// Cancelled bookings stay listed, carrying the reason and who cancelled
+export function useCancelBooking() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      bookingId,
+      cancellation,
+    }: {
+      bookingId: string;
+      cancellation: BookingCancellation;
+    }) => bookingApi.cancelBooking(bookingId, cancellation),
+    onMutate: async ({ bookingId, cancellation }) => ({
+      previous: await patchCachedBooking(queryClient, bookingId, {
+        status: "Cancelled",
+        cancellationReason: cancellation.reason,
+        cancelledById: cancellation.cancelledById,
+        cancelledByName: cancellation.cancelledByName,
+        cancelledAt: new Date().toISOString(),
+      }),
+    }),
+    onError: (_error, _variables, context) =>
+      restoreCachedLists(queryClient, context?.previous),
+    onSettled: () => invalidateBookings(queryClient),
+  });
+}
+
+export function useCheckInBooking() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ bookingId, actualStartTime }: { bookingId: string; actualStartTime: string }) =>
+      bookingApi.checkInBooking(bookingId, actualStartTime),
+    onMutate: async ({ bookingId, actualStartTime }) => ({
+      previous: await patchCachedBooking(queryClient, bookingId, {
+        status: "InProgress",
+        actualStartTime,
+      }),
+    }),
+    onError: (_error, _variables, context) =>
+      restoreCachedLists(queryClient, context?.previous),
+    onSettled: () => invalidateBookings(queryClient),
+  });
+}
+
+export function useCompleteBooking() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ bookingId, session }: { bookingId: string; session: BookingSession }) =>
+      bookingApi.completeBooking(bookingId, session),
+    onMutate: async ({ bookingId, session }) => ({
+      previous: await patchCachedBooking(queryClient, bookingId, {
+        status: "Completed",
+        ...session,
+      }),
+    }),
+    onError: (_error, _variables, context) =>
+      restoreCachedLists(queryClient, context?.previous),
+    onSettled: () => invalidateBookings(queryClient),
+  });
+}
+
+export function useMarkNoShow() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (bookingId: string) => bookingApi.markNoShow(bookingId),
+    onMutate: async (bookingId) => ({
+      previous: await patchCachedBooking(queryClient, bookingId, { status: "NoShow" }),
+    }),
+    onError: (_error, _variables, context) =>
+      restoreCachedLists(queryClient, context?.previous),
+    onSettled: () => invalidateBookings(queryClient),
+  });
+}
+
+export function useDeleteBooking() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (bookingId: string) => bookingApi.permanentlyDeleteBooking(bookingId),
+    onMutate: async (bookingId) => ({
+      previous: await removeCachedBooking(queryClient, bookingId),
+    }),
+    onError: (_error, _variables, context) =>
+      restoreCachedLists(queryClient, context?.previous),
+    onSettled: () => invalidateBookings(queryClient),
+  });
+}
+
+// Waitlist queries
+
+export function useWaitlist(stationId?: string, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.waitlist.list(stationId),
+    queryFn: () => emptyIfNotFound(waitlistApi.getWaitlist(stationId)),
+    enabled,
+  });
+}
+
+export function useAddToWaitlist() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (entry: WaitlistPayload) => waitlistApi.addToWaitlist(entry),
+    onSettled: () => invalidate(queryClient, queryKeys.waitlist.all),
+  });
+}
+
+// Book the entry's time on the given slot, then mark the entry converted
+export function useConvertWaitlistEntry() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({
+      entry,
+      slotId,
+      convertedBy,
+    }: {
+      entry: WaitlistEntry;
+      slotId: string;
+      convertedBy: { id: string; name: string };
+    }) => {
+      const bookingData = {
+        evOwnerId: entry.evOwnerId,
+        stationId: entry.stationId,
+        slotType: entry.slotType,
+        slotId,
+        startTime: entry.startTime,
+        endTime: entry.endTime,
+      };
+      // The waitlist match is computed from cached bookings, which may be stale
+      const availability: SlotAvailabilityResponse =
+        await bookingApi.checkAvailability(bookingData);
+      if (
+        !availability.isAvailable ||
+        (availability.availableSlotIds?.length &&
+          !availability.availableSlotIds.includes(slotId))
+      ) {
+        throw new Error(availability.message || `${slotId} is no longer available`);
+      }
+
+      const created = await bookingApi.createBooking(bookingData);
+      try {
+        await waitlistApi.convertWaitlistEntry(entry.id, created?.id);
+      } catch (error) {
+        // Leave the entry waiting with no booking, so converting it again
+        // cannot book the owner twice
+        if (created?.id) {
+          try {
+            await bookingApi.cancelBooking(created.id, {
+              reason: "System: waitlist conversion failed",
+              cancelledById: convertedBy.id,
+              cancelledByName: convertedBy.name,
+            });
+          } catch (rollbackError) {
+            console.error("Failed to cancel booking for waitlist entry:", rollbackError);
+            throw new Error(
+              `The waitlist entry could not be updated and booking ${created.id} could not be cancelled. Cancel it from Bookings before converting the entry again.`
+            );
+          }
+        }
+        throw error;
+      }
+      return created;
+    },
+    onSettled: () =>
+      invalidate(
+        queryClient,
+        queryKeys.waitlist.all,
+        queryKeys.bookings.all,
+        queryKeys.dashboard.stats()
+      ),
+  });
+}
+
+export function useRemoveFromWaitlist() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (entryId: string) => waitlistApi.removeFromWaitlist(entryId),
+    onMutate: async (entryId) => ({
+      previous: await patchCachedLists<WaitlistEntry>(
+        queryClient,
+        queryKeys.waitlist.all,
+        (entries) => entries.filter((entry) => entry.id !== entryId)
+      ),
+    }),
+    onError: (_error, _variables, context) =>
+      restoreCachedLists(queryClient, context?.previous),
+    onSettled: () => invalidate(queryClient, queryKeys.waitlist.all),
+  });
+}
+
+// Settings queries
+
+// The settings endpoint needs a signed-in user, so nothing is fetched
+// without one; each user gets their own copy
+export function useBusinessRules(userEmail?: string) {
+  return useQuery({
+    queryKey: queryKeys.settings.rules(userEmail),
+    queryFn: settingsApi.getBusinessRules,
+    enabled: !!userEmail,
+  });
+}
+
+export function useUpdateBusinessRules() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (rules: BusinessRules) => settingsApi.updateBusinessRules(rules),
+    onSuccess: (saved) =>
+      queryClient.setQueriesData({ queryKey: queryKeys.settings.all }, saved),
+  });
+}
+
+// Dashboard and audit queries
+
+export function useDashboardStats() {
+  return useQuery({
+    queryKey: queryKeys.dashboard.stats(),
+    queryFn: dashboardApi.getStats,
+  });
+}
+
+export function useAuditLogs() {
+  return useQuery({
+    queryKey: queryKeys.audit.logs(),
+    queryFn: auditApi.getAuditLogs,
+  });
+}
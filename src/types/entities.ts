@@ -110,9 +110,17 @@ export interface StationSchedule {
     start: string; // HH:mm format
     end: string; // HH:mm format
     availableSlots: number;
+    selectedSlots?: string[]; // Specific slot IDs; all slots when omitted
   }>;
 }
 
+// Weekly schedule as loaded for editing, with the version it was read at
+export interface WeeklyScheduleTemplate {
+  stationId: string;
+  schedules: StationSchedule[];
+  version: string; // Server ETag, or a fingerprint of the schedules
+}
+
 // Schedule Exception (special dates override template)
 export interface ScheduleException {
   stationId: string;
@@ -129,20 +137,34 @@ export interface ScheduleException {
 export interface Booking {
   id: string;
   ownerNIC: string; // FK to EVOwner.nic
+  ownerId?: string; // EV owner record ID from the API
   ownerName?: string; // Denormalized for display
   stationId: string; // FK to Station.id
   stationName?: string; // Denormalized for display
   chargingSlot?: {
     type: "AC" | "DC";
     slotNumber: number;
+    slotId?: string; // Slot ID as sent to the API
   };
-  status: "PENDING" | "APPROVED" | "CANCELLED" | "COMPLETED";
+  status:
+    | "PENDING"
+    | "APPROVED"
+    | "IN_PROGRESS"
+    | "COMPLETED"
+    | "NO_SHOW"
+    | "CANCELLED";
   startAt: string; // ISO datetime
   endAt: string; // ISO datetime
+  actualStartAt?: string; // When the owner checked in
+  actualEndAt?: string; // When charging actually finished
   createdByUserId: string;
   createdAt: string;
   updatedAt: string;
   cancelReason?: string;
+  cancelledBy?: string; // Name of the user who cancelled
+  cancelledAt?: string;
+  qrCodeBase64?: string; // Confirmation QR image from the API
+  seriesId?: string; // Shared by the bookings of one recurring series
   notes?: string;
 }
 
@@ -159,11 +181,43 @@ export interface BookingApiResponse {
   endTime: string; // ISO datetime
   slotType: "AC" | "DC";
   slotId: string | null;
-  status: "Pending" | "Approved" | "Completed" | "Cancelled";
+  status:
+    | "Pending"
+    | "Approved"
+    | "InProgress"
+    | "Completed"
+    | "NoShow"
+    | "Cancelled";
+  actualStartTime?: string; // ISO datetime
+  actualEndTime?: string; // ISO datetime
   qrCodeBase64: string;
   bookingDate: string; // ISO datetime
   createdAt: string;
   updatedAt: string;
+  cancellationReason?: string;
+  cancelledById?: string;
+  cancelledByName?: string;
+  cancelledAt?: string; // ISO datetime
+  seriesId?: string; // Shared by the bookings of one recurring series
+}
+
+// An owner waiting for capacity at a fully booked station and time
+export interface WaitlistEntry {
+  id: string;
+  evOwnerId: string;
+  evOwnerName: string;
+  evOwnerNIC: string;
+  stationId: string;
+  stationName?: string;
+  slotType: "AC" | "DC";
+  startTime: string; // ISO datetime
+  endTime: string; // ISO datetime
+  priority: "High" | "Normal";
+  status: "Waiting" | "Converted";
+  bookingId?: string; // Booking the entry was converted into
+  notes?: string;
+  createdByName?: string;
+  createdAt: string;
 }
 
 // Dashboard KPI data
@@ -181,7 +235,7 @@ export interface DashboardStats {
 // Audit Log entry
 export interface AuditLogEntry {
   id: string;
-  entityType: "Booking" | "EVOwner" | "Station" | "WebUser";
+  entityType: "Booking" | "EVOwner" | "Station" | "WebUser" | "Waitlist";
   entityId: string;
   action: "CREATE" | "UPDATE" | "DELETE" | "ACTIVATE" | "DEACTIVATE";
   actorId: string;
@@ -196,6 +250,18 @@ export interface AuditLogEntry {
 export interface PaginationParams {
   page: number;
   limit: number;
+  sort?: string; // "field:asc" or "field:desc"
+  filters?: Record<string, string | undefined>;
+}
+
+// One page of a list endpoint. `serverPaginated` is false when the backend
+// ignored the paging params and returned the whole list in `items`.
+export interface PaginatedResponse<T> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+  serverPaginated: boolean;
 }
 
 export interface BookingFilters {
@@ -205,6 +271,14 @@ export interface BookingFilters {
   stationId?: string;
   ownerNIC?: string;
   type?: "AC" | "DC";
+  search?: string; // Free text across owner NIC, owner name and station
+}
+
+export type BookingSortField = "startAt" | "createdAt" | "station";
+
+export interface BookingSort {
+  field: BookingSortField;
+  direction: "asc" | "desc";
 }
 
 export interface OwnerFilters {
@@ -220,6 +294,14 @@ export interface StationFilters {
   operatorUserId?: string;
 }
 
+export interface AuditLogFilters {
+  entityType?: AuditLogEntry["entityType"];
+  action?: AuditLogEntry["action"];
+  actor?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
 // Slot availability check response
 export interface SlotAvailabilityResponse {
   isAvailable: boolean;
@@ -0,0 +1,15 @@
+export interface BusinessRules {
+  bookingWindowDays: number; // How far ahead reservations can be made
+  modificationCutoffHours: number; // Minimum notice for updates and cancellations
+  maxSessionHours: number; // Longest allowed charging session
+  slotGranularityMinutes: number; // Step between selectable start/end times
+  noShowGraceMinutes: number; // How long after start an unchecked-in booking becomes a no-show
+  timezone: string; // IANA timezone used to display booking times
+  cancellationReasons: string[]; // Preset reasons offered when cancelling a booking
+}
+
+export interface SettingsContextType {
+  rules: BusinessRules;
+  isLoading: boolean;
+  updateRules: (rules: BusinessRules) => Promise<void>;
+}